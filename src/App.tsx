@@ -1,17 +1,72 @@
-import React, { useState, useEffect } from 'react';
-import { authService } from './lib/localStorage';
+import React, { useState, useEffect, useCallback } from 'react';
+import { authService, schemaService, productService, permissionService } from './lib/localStorage';
+import { MigrationError } from './lib/migrations';
+import { subscribe } from './lib/sync';
+import { useBarcodeScanner } from './hooks/useBarcodeScanner';
 import LoginForm from './components/LoginForm';
 import Dashboard from './components/Dashboard';
 import Navigation from './components/Navigation';
 import AddProduct from './components/AddProduct';
 import ViewInventory from './components/ViewInventory';
+import PointOfSale from './components/PointOfSale';
 import Restock from './components/Restock';
+import StockCounts from './components/StockCounts';
+import StockAdjustments from './components/StockAdjustments';
 import Reports from './components/Reports';
+import EditProduct from './components/EditProduct';
+import ProductDetail from './components/ProductDetail';
+import PurchaseOrders from './components/PurchaseOrders';
+import Suppliers from './components/Suppliers';
+import ImportProducts from './components/ImportProducts';
+import Users from './components/Users';
+import AuditLog from './components/AuditLog';
+import Backup from './components/Backup';
+import SessionTimeout from './components/SessionTimeout';
+import MigrationFailed from './components/MigrationFailed';
+import UnknownBarcode from './components/UnknownBarcode';
+import LabelDesigner from './components/LabelDesigner';
+import { LabelRequest } from './lib/labels';
+
+export type View =
+  | 'dashboard'
+  | 'add-product'
+  | 'inventory'
+  | 'import-products'
+  | 'point-of-sale'
+  | 'restock'
+  | 'stock-counts'
+  | 'adjustments'
+  | 'purchase-orders'
+  | 'suppliers'
+  | 'users'
+  | 'audit-log'
+  | 'backup'
+  | 'reports'
+  | 'edit-product'
+  | 'product-detail'
+  | 'labels';
+
+// What each role may do is set in the permission matrix (lib/permissions.ts)
+export type Role = 'admin' | 'manager' | 'receiver' | 'associate';
 
 export type User = {
   id: string;
   email: string;
-  role: 'admin' | 'associate';
+  role: Role;
+};
+
+// A user as managed on the Users screen. Password hashes never leave the data layer.
+export type UserAccount = User & {
+  disabled: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+// Quantity held in one bin; min_stock_level optionally overrides the product minimum there
+export type StockLocation = {
+  location: string;
+  quantity: number;
+  min_stock_level?: number;
 };
 
 export type Product = {
@@ -27,44 +82,378 @@ export type Product = {
   max_stock_level: number;
   cost_price: number;
   selling_price: number;
-  supplier: string;
+  supplier_id: string;
+  // Primary (home) location; stock_locations holds the per-bin quantities that
+  // current_stock is the sum of
+  location: string;
+  stock_locations: StockLocation[];
+  // Bumped on every write. Edits name the version they started from and are
+  // refused if someone else has saved the product since.
+  version: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export type Supplier = {
+  id: string;
+  name: string;
+  contact_name: string;
+  email: string;
+  phone: string;
+  address: string;
+  lead_time_days: number;
+  minimum_order_value: number;
+  payment_terms: string;
+  created_at: string;
+  updated_at: string;
+};
+
+export type StockMovementType = 'receipt' | 'sale' | 'adjustment' | 'transfer' | 'count_correction';
+
+// A single append-only ledger entry; quantity is the signed change to current_stock
+export type StockMovement = {
+  id: string;
+  product_id: string;
+  type: StockMovementType;
+  quantity: number;
+  user_id: string;
+  reason: string;
+  // Why stock was adjusted, or that a stock count corrected it (see adjustments.ts)
+  reason_code?: string;
+  // Bin the quantity was applied to; older entries may not have one
+  location?: string;
+  created_at: string;
+};
+
+export type StockAdjustmentStatus = 'pending' | 'approved' | 'rejected';
+
+// A stock adjustment with its reason code. Ones worth more than the approval
+// limit stay pending, without touching stock, until an admin approves them.
+export type StockAdjustment = {
+  id: string;
+  product_id: string;
+  quantity: number;
+  reason_code: string;
+  note: string;
+  location?: string;
+  // Cost value of the adjustment when it was requested
+  value: number;
+  status: StockAdjustmentStatus;
+  requested_by: string;
+  reviewed_by?: string;
+  reviewed_at?: string;
+  // The movement that booked it, once approved
+  movement_id?: string;
+  // Bumped on every write, which only goes ahead if the adjustment is still
+  // at the version it was read at, so it can't be approved twice
+  version: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
+export type PurchaseOrderLine = {
+  product_id: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  cost_price: number;
+};
+
+export type PurchaseOrder = {
+  id: string;
+  po_number: string;
+  supplier_id: string;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  // Bumped on every write, which only goes ahead if the order is still at the
+  // version it was read at, so two terminals can't both receive the same stock
+  version: number;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  sent_at?: string;
+  received_at?: string;
+};
+
+// Prices and costs are copied from the product when the sale is made
+export type SaleLine = {
+  product_id: string;
+  name: string;
+  sku: string;
+  quantity: number;
+  unit_price: number;
+  unit_cost: number;
+};
+
+// A completed sale. Its stock left through one sale movement per line.
+export type Sale = {
+  id: string;
+  sale_number: string;
+  lines: SaleLine[];
+  revenue: number;
+  cost_of_goods: number;
+  user_id: string;
+  created_at: string;
+};
+
+// ABC classes rank products by the cost of what they sell: A items make up
+// most of it and are counted most often
+export type AbcClass = 'A' | 'B' | 'C';
+
+// Which bins a stock count covers
+export type StockCountScope =
+  | { type: 'location'; prefix: string }
+  | { type: 'category'; category: string }
+  | { type: 'abc_sample'; sample: Record<AbcClass, number> };
+
+export type StockCountStatus = 'open' | 'submitted' | 'approved' | 'cancelled';
+
+// One bin of one product on the count sheet
+export type StockCountLine = {
+  product_id: string;
+  name: string;
+  sku: string;
   location: string;
+  // Bin quantity on record when the line was last counted, so stock that
+  // moves while the count is open doesn't show up as a variance
+  expected: number;
+  // Null until counted; uncounted lines are left alone on approval
+  counted: number | null;
+  unit_cost: number;
+  counted_at?: string;
+};
+
+// A cycle count or stock-take. Counts are corrected with count_correction
+// movements only once an admin approves the session.
+export type StockCount = {
+  id: string;
+  count_number: string;
+  scope: StockCountScope;
+  // Blind counts hide the expected quantities from the people counting
+  blind: boolean;
+  status: StockCountStatus;
+  lines: StockCountLine[];
+  // Bumped on every write, which only goes ahead if the count is still at the
+  // version it was read at, so it can't be approved into stock twice
+  version: number;
+  created_by: string;
   created_at: string;
   updated_at: string;
+  submitted_at?: string;
+  approved_by?: string;
+  approved_at?: string;
+};
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export type AuditEntityType =
+  | 'product'
+  | 'stock_movement'
+  | 'supplier'
+  | 'purchase_order'
+  | 'sale'
+  | 'stock_count'
+  | 'stock_adjustment'
+  | 'user'
+  | 'settings';
+
+// One changed field; values are stored as they were in the record
+export type AuditChange = {
+  field: string;
+  before: unknown;
+  after: unknown;
+};
+
+// Append-only record of a mutation and who made it. user_email and
+// entity_label are copied in so entries stay readable after deletions.
+export type AuditEntry = {
+  id: string;
+  user_id: string;
+  user_email: string;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  entity_label: string;
+  // Set for products and the stock movements booked against them
+  product_id?: string;
+  changes: AuditChange[];
+  created_at: string;
 };
 
 function App() {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
-  const [currentView, setCurrentView] = useState<'dashboard' | 'add-product' | 'inventory' | 'restock' | 'reports'>('dashboard');
+  const [currentView, setCurrentView] = useState<View>('dashboard');
+  const [selectedProductId, setSelectedProductId] = useState<string | null>(null);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const [migrationError, setMigrationError] = useState<MigrationError | null>(null);
+  // A scanned code that matched no product, and one being turned into a new product
+  const [unknownCode, setUnknownCode] = useState<string | null>(null);
+  const [newProductBarcode, setNewProductBarcode] = useState('');
+  // Labels being printed, and the screen to go back to afterwards
+  const [labelJob, setLabelJob] = useState<{ title: string; requests: LabelRequest[]; returnTo: View } | null>(null);
 
   useEffect(() => {
     // Check if user is already logged in
-    const currentUser = authService.getCurrentUser();
-    if (currentUser) {
-      setUser(currentUser);
-    }
-    setLoading(false);
+    const restoreSession = async () => {
+      try {
+        await schemaService.ready();
+        const currentUser = await authService.getCurrentUser();
+        if (currentUser) {
+          setUser(currentUser);
+        }
+      } catch (error) {
+        if (error instanceof MigrationError) {
+          setMigrationError(error);
+        } else {
+          console.error('Error restoring session:', error);
+        }
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    restoreSession();
   }, []);
 
+  // Keep this tab in step with the others: signing out anywhere signs out
+  // everywhere, and account or permission changes re-check the current user
+  useEffect(() => subscribe(message => {
+    if (message.type === 'signed_out') {
+      setUser(null);
+      setCurrentView('dashboard');
+    } else if (message.entity === 'user' || message.entity === 'settings') {
+      authService.getCurrentUser()
+        .then(setUser)
+        .catch(error => console.error('Error refreshing current user:', error));
+    }
+  }), []);
+
   const handleLogout = async () => {
     await authService.signOut();
     setUser(null);
     setCurrentView('dashboard');
   };
 
+  const handleSessionExpired = useCallback(async () => {
+    await authService.signOut();
+    setUser(null);
+    setCurrentView('dashboard');
+    setSessionExpired(true);
+  }, []);
+
+  const handleLogin = (loggedInUser: User) => {
+    setSessionExpired(false);
+    setUser(loggedInUser);
+  };
+
+  const openProduct = (view: View, productId: string) => {
+    setSelectedProductId(productId);
+    setCurrentView(view);
+  };
+
+  const navigate = (view: View) => {
+    setNewProductBarcode('');
+    setCurrentView(view);
+  };
+
+  const printLabels = (title: string, requests: LabelRequest[]) => {
+    setLabelJob({ title, requests, returnTo: currentView });
+    setCurrentView('labels');
+  };
+
+  const createProductFromScan = (code: string) => {
+    setUnknownCode(null);
+    setNewProductBarcode(code);
+    setCurrentView('add-product');
+  };
+
+  // Scanning anywhere opens the product; screens such as Restock take scans
+  // over while they are open
+  useBarcodeScanner(async (code) => {
+    try {
+      const product = await productService.findByCode(code);
+      if (product) {
+        setUnknownCode(null);
+        openProduct('product-detail', product.id);
+      } else {
+        setUnknownCode(code);
+      }
+    } catch (error) {
+      console.error('Error looking up scanned code:', error);
+    }
+  }, !!user);
+
   const renderCurrentView = () => {
     switch (currentView) {
       case 'add-product':
-        return <AddProduct user={user!} />;
+        // Keyed so a second scanned barcode starts a fresh form
+        return <AddProduct key={newProductBarcode} user={user!} initialBarcode={newProductBarcode} />;
       case 'inventory':
-        return <ViewInventory user={user!} />;
+        return (
+          <ViewInventory
+            user={user!}
+            onViewProduct={(productId) => openProduct('product-detail', productId)}
+            onEditProduct={(productId) => openProduct('edit-product', productId)}
+            onPrintLabels={(requests) => printLabels('Selected products', requests)}
+          />
+        );
+      case 'product-detail':
+        return (
+          <ProductDetail
+            user={user!}
+            productId={selectedProductId!}
+            onClose={() => setCurrentView('inventory')}
+            onEdit={(productId) => openProduct('edit-product', productId)}
+          />
+        );
+      case 'edit-product':
+        return (
+          <EditProduct
+            user={user!}
+            productId={selectedProductId!}
+            onClose={() => setCurrentView('inventory')}
+          />
+        );
+      case 'labels':
+        return (
+          <LabelDesigner
+            title={labelJob?.title || ''}
+            requests={labelJob?.requests || []}
+            onClose={() => setCurrentView(labelJob?.returnTo || 'inventory')}
+          />
+        );
+      case 'import-products':
+        return <ImportProducts user={user!} />;
+      case 'point-of-sale':
+        return <PointOfSale user={user!} />;
       case 'restock':
-        return <Restock user={user!} />;
+        return (
+          <Restock
+            user={user!}
+            onViewPurchaseOrders={() => setCurrentView('purchase-orders')}
+            onCreateProduct={createProductFromScan}
+          />
+        );
+      case 'stock-counts':
+        return <StockCounts user={user!} />;
+      case 'adjustments':
+        return <StockAdjustments user={user!} />;
+      case 'purchase-orders':
+        return <PurchaseOrders user={user!} onPrintLabels={printLabels} />;
+      case 'suppliers':
+        return <Suppliers user={user!} />;
+      case 'users':
+        return <Users user={user!} />;
+      case 'audit-log':
+        return <AuditLog user={user!} />;
+      case 'backup':
+        return <Backup user={user!} />;
       case 'reports':
         return <Reports user={user!} />;
       default:
-        return <Dashboard user={user!} onViewChange={setCurrentView} />;
+        return <Dashboard user={user!} onViewChange={navigate} />;
     }
   };
 
@@ -87,8 +476,17 @@ function App() {
     );
   }
 
+  if (migrationError) {
+    return <MigrationFailed error={migrationError} />;
+  }
+
   if (!user) {
-    return <LoginForm onLogin={setUser} />;
+    return (
+      <LoginForm
+        onLogin={handleLogin}
+        notice={sessionExpired ? 'Your session has expired. Please sign in again.' : undefined}
+      />
+    );
   }
 
   return (
@@ -96,14 +494,22 @@ function App() {
       <Navigation 
         user={user} 
         currentView={currentView}
-        onViewChange={setCurrentView}
+        onViewChange={navigate}
         onLogout={handleLogout}
       />
+      <SessionTimeout onExpire={handleSessionExpired} onLogout={handleLogout} />
       <main className="pl-64">
         <div className="p-8">
           {renderCurrentView()}
         </div>
       </main>
+      {unknownCode && (
+        <UnknownBarcode
+          code={unknownCode}
+          onCreate={permissionService.can(user, 'product.create') ? () => createProductFromScan(unknownCode) : undefined}
+          onDismiss={() => setUnknownCode(null)}
+        />
+      )}
     </div>
   );
 }
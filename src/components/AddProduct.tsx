@@ -1,118 +1,63 @@
 import React, { useState } from 'react';
 import { Save, X } from 'lucide-react';
-import { productService } from '../lib/localStorage';
+import { productService, permissionService } from '../lib/localStorage';
+import { ProductFormData, emptyProductForm, generateSKU } from '../lib/productForm';
+import { ProductFieldErrors, ValidationError, hasFieldErrors } from '../lib/validation';
+import ProductForm from './ProductForm';
 import type { User } from '../App';
 
 interface AddProductProps {
   user: User;
+  // Pre-filled when the product is being created for a scanned barcode
+  initialBarcode?: string;
 }
 
-const AddProduct: React.FC<AddProductProps> = ({ user }) => {
-  const [formData, setFormData] = useState({
-    name: '',
-    description: '',
-    category: '',
-    brand: '',
-    sku: '',
-    barcode: '',
-    current_stock: 0,
-    min_stock_level: 0,
-    max_stock_level: 0,
-    cost_price: 0,
-    selling_price: 0,
-    supplier: '',
-    location: ''
-  });
+const AddProduct: React.FC<AddProductProps> = ({ user, initialBarcode = '' }) => {
+  const [formData, setFormData] = useState<ProductFormData>({ ...emptyProductForm(), barcode: initialBarcode });
+  const [errors, setErrors] = useState<ProductFieldErrors>({});
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
-  const categories = [
-    'Hardware', 'Tools', 'Electrical', 'Plumbing', 'Paint & Supplies', 
-    'Fasteners', 'Building Materials', 'Safety Equipment', 'Garden & Outdoor', 'Other'
-  ];
-
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
-    const { name, value } = e.target;
-    setFormData(prev => ({
-      ...prev,
-      [name]: ['current_stock', 'min_stock_level', 'max_stock_level', 'cost_price', 'selling_price'].includes(name)
-        ? parseFloat(value) || 0
-        : value
-    }));
-  };
-
-  const generateSKU = () => {
-    const prefix = formData.category ? formData.category.substring(0, 3).toUpperCase() : 'PRD';
-    const timestamp = Date.now().toString().slice(-6);
-    return `${prefix}-${timestamp}`;
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    // Check if user has permission (only admins can add products)
-    if (user.role !== 'admin') {
-      setMessage({ type: 'error', text: 'Only administrators can add products.' });
-      return;
-    }
-
     setLoading(true);
     setMessage(null);
 
     try {
-      const sku = formData.sku || generateSKU();
-      
-      await productService.create({
-        ...formData,
-        sku
-      });
+      const product = { ...formData, sku: formData.sku || generateSKU(formData.category) };
+
+      const { errors: validationErrors } = await productService.validate(product);
+      setErrors(validationErrors);
+      if (hasFieldErrors(validationErrors)) {
+        setMessage({ type: 'error', text: 'Please fix the highlighted fields.' });
+        return;
+      }
+
+      await productService.create(product, user);
 
       setMessage({ type: 'success', text: 'Product added successfully!' });
       
       // Reset form
-      setFormData({
-        name: '',
-        description: '',
-        category: '',
-        brand: '',
-        sku: '',
-        barcode: '',
-        current_stock: 0,
-        min_stock_level: 0,
-        max_stock_level: 0,
-        cost_price: 0,
-        selling_price: 0,
-        supplier: '',
-        location: ''
-      });
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      setFormData(emptyProductForm());
     } catch (error: unknown) {
-      setMessage({ type: 'error', text: 'Failed to add product. Please try again.' });
+      // Someone else may have taken the SKU or barcode since the check above
+      if (error instanceof ValidationError) setErrors(error.errors);
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to add product. Please try again.',
+      });
     } finally {
       setLoading(false);
     }
   };
 
   const clearForm = () => {
-    setFormData({
-      name: '',
-      description: '',
-      category: '',
-      brand: '',
-      sku: '',
-      barcode: '',
-      current_stock: 0,
-      min_stock_level: 0,
-      max_stock_level: 0,
-      cost_price: 0,
-      selling_price: 0,
-      supplier: '',
-      location: ''
-    });
+    setFormData(emptyProductForm());
+    setErrors({});
     setMessage(null);
   };
 
-  if (user.role !== 'admin') {
+  if (!permissionService.can(user, 'product.create')) {
     return (
       <div className="space-y-8">
         <div>
@@ -120,7 +65,7 @@ const AddProduct: React.FC<AddProductProps> = ({ user }) => {
           <p className="text-gray-600">Add a new item to your inventory system.</p>
         </div>
         <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
-          <p className="text-yellow-800">Only administrators can add new products. Please contact your admin if you need to add inventory items.</p>
+          <p className="text-yellow-800">You don't have permission to add products. Please contact your admin if you need to add inventory items.</p>
         </div>
       </div>
     );
@@ -145,189 +90,7 @@ const AddProduct: React.FC<AddProductProps> = ({ user }) => {
         )}
 
         <form onSubmit={handleSubmit} className="space-y-6">
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            {/* Basic Information */}
-            <div className="space-y-6">
-              <h3 className="text-lg font-semibold text-gray-900 border-b pb-2">Basic Information</h3>
-              
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Product Name *</label>
-                <input
-                  type="text"
-                  name="name"
-                  value={formData.name}
-                  onChange={handleInputChange}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                  required
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
-                <textarea
-                  name="description"
-                  value={formData.description}
-                  onChange={handleInputChange}
-                  rows={3}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Category *</label>
-                <select
-                  name="category"
-                  value={formData.category}
-                  onChange={handleInputChange}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                  required
-                >
-                  <option value="">Select Category</option>
-                  {categories.map(cat => (
-                    <option key={cat} value={cat}>{cat}</option>
-                  ))}
-                </select>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Brand</label>
-                <input
-                  type="text"
-                  name="brand"
-                  value={formData.brand}
-                  onChange={handleInputChange}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">SKU</label>
-                <div className="flex space-x-2">
-                  <input
-                    type="text"
-                    name="sku"
-                    value={formData.sku}
-                    onChange={handleInputChange}
-                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                    placeholder="Leave empty to auto-generate"
-                  />
-                  <button
-                    type="button"
-                    onClick={() => setFormData(prev => ({ ...prev, sku: generateSKU() }))}
-                    className="px-3 py-2 bg-gray-100 hover:bg-gray-200 border border-gray-300 rounded-lg text-sm"
-                  >
-                    Generate
-                  </button>
-                </div>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Barcode</label>
-                <input
-                  type="text"
-                  name="barcode"
-                  value={formData.barcode}
-                  onChange={handleInputChange}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                />
-              </div>
-            </div>
-
-            {/* Stock & Pricing */}
-            <div className="space-y-6">
-              <h3 className="text-lg font-semibold text-gray-900 border-b pb-2">Stock & Pricing</h3>
-              
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Current Stock *</label>
-                <input
-                  type="number"
-                  name="current_stock"
-                  value={formData.current_stock}
-                  onChange={handleInputChange}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                  min="0"
-                  required
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Minimum Stock Level *</label>
-                <input
-                  type="number"
-                  name="min_stock_level"
-                  value={formData.min_stock_level}
-                  onChange={handleInputChange}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                  min="0"
-                  required
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Maximum Stock Level</label>
-                <input
-                  type="number"
-                  name="max_stock_level"
-                  value={formData.max_stock_level}
-                  onChange={handleInputChange}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                  min="0"
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Cost Price *</label>
-                <input
-                  type="number"
-                  name="cost_price"
-                  value={formData.cost_price}
-                  onChange={handleInputChange}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                  step="0.01"
-                  min="0"
-                  required
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Selling Price *</label>
-                <input
-                  type="number"
-                  name="selling_price"
-                  value={formData.selling_price}
-                  onChange={handleInputChange}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                  step="0.01"
-                  min="0"
-                  required
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Supplier</label>
-                <input
-                  type="text"
-                  name="supplier"
-                  value={formData.supplier}
-                  onChange={handleInputChange}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Location *</label>
-                <input
-                  type="text"
-                  name="location"
-                  value={formData.location}
-                  onChange={handleInputChange}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
-                  placeholder="e.g., A1-B2, Aisle 3 Shelf 2"
-                  required
-                />
-              </div>
-            </div>
-          </div>
+          <ProductForm formData={formData} errors={errors} onChange={setFormData} />
 
           <div className="flex space-x-4 pt-6 border-t">
             <button
@@ -0,0 +1,257 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { History } from 'lucide-react';
+import { auditService, permissionService } from '../lib/localStorage';
+import { formatAuditValue } from '../lib/audit';
+import { useDataRefresh } from '../hooks/useDataRefresh';
+import { AuditAction, AuditEntityType, AuditEntry, User } from '../App';
+
+interface AuditLogProps {
+  user: User;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent';
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  product: 'Product',
+  stock_movement: 'Stock movement',
+  supplier: 'Supplier',
+  purchase_order: 'Purchase order',
+  sale: 'Sale',
+  stock_count: 'Stock count',
+  stock_adjustment: 'Stock adjustment',
+  user: 'User',
+  settings: 'Settings',
+};
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800',
+};
+
+const emptyFilters = { userId: '', productId: '', entityType: '', from: '', to: '' };
+
+const AuditLog: React.FC<AuditLogProps> = ({ user }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState(emptyFilters);
+  // Bumped when another tab changes anything, which reloads the log
+  const [refreshCount, setRefreshCount] = useState(0);
+  const canView = permissionService.can(user, 'audit.view');
+
+  useEffect(() => {
+    if (!canView) return;
+
+    const fetchEntries = async () => {
+      try {
+        setEntries(await auditService.getAll(user));
+      } catch (error) {
+        console.error('Error fetching audit log:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEntries();
+  }, [user, canView, refreshCount]);
+
+  useDataRefresh(Object.keys(ENTITY_LABELS) as AuditEntityType[], () => setRefreshCount(count => count + 1));
+
+  // Options come from the log itself so deleted users and products stay filterable
+  const userOptions = useMemo(() => {
+    const users = new Map<string, string>();
+    entries.forEach(entry => users.set(entry.user_id, entry.user_email));
+    return Array.from(users, ([id, email]) => ({ id, email })).sort((a, b) => a.email.localeCompare(b.email));
+  }, [entries]);
+
+  const productOptions = useMemo(() => {
+    const products = new Map<string, string>();
+    entries.forEach(entry => {
+      if (entry.product_id && !products.has(entry.product_id)) products.set(entry.product_id, entry.entity_label);
+    });
+    return Array.from(products, ([id, label]) => ({ id, label })).sort((a, b) => a.label.localeCompare(b.label));
+  }, [entries]);
+
+  const filteredEntries = useMemo(() => {
+    // Date inputs are local days; compare against the start of the day after `to`
+    const from = filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : -Infinity;
+    const to = filters.to ? new Date(`${filters.to}T00:00:00`).getTime() + 24 * 60 * 60 * 1000 : Infinity;
+
+    return entries.filter(entry => {
+      const time = new Date(entry.created_at).getTime();
+      return (!filters.userId || entry.user_id === filters.userId)
+        && (!filters.productId || entry.product_id === filters.productId)
+        && (!filters.entityType || entry.entity_type === filters.entityType)
+        && time >= from
+        && time < to;
+    });
+  }, [entries, filters]);
+
+  const hasFilters = Object.values(filters).some(Boolean);
+
+  if (!canView) {
+    return (
+      <div className="space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Audit Log</h1>
+        </div>
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+          <p className="text-yellow-800">You don't have permission to view the audit log. Please contact your admin if you need access.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Audit Log</h1>
+        <p className="text-gray-600">Every change to products, stock, suppliers, purchase orders, users and settings.</p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md p-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">User</label>
+            <select
+              value={filters.userId}
+              onChange={(e) => setFilters({ ...filters, userId: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">All users</option>
+              {userOptions.map(({ id, email }) => (
+                <option key={id} value={id}>{email}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Product</label>
+            <select
+              value={filters.productId}
+              onChange={(e) => setFilters({ ...filters, productId: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">All products</option>
+              {productOptions.map(({ id, label }) => (
+                <option key={id} value={id}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Record Type</label>
+            <select
+              value={filters.entityType}
+              onChange={(e) => setFilters({ ...filters, entityType: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">All types</option>
+              {Object.entries(ENTITY_LABELS).map(([type, label]) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+        {hasFilters && (
+          <button
+            onClick={() => setFilters(emptyFilters)}
+            className="mt-4 text-sm text-orange-600 hover:text-orange-700"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md p-6">
+        <p className="text-sm text-gray-600 mb-4">
+          Showing {filteredEntries.length} of {entries.length} entries
+        </p>
+
+        {filteredEntries.length === 0 ? (
+          <div className="text-center py-12">
+            <History size={48} className="mx-auto text-gray-300 mb-4" />
+            <p className="text-gray-500">No changes match these filters.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2 pr-4">Time</th>
+                  <th className="py-2 pr-4">User</th>
+                  <th className="py-2 pr-4">Action</th>
+                  <th className="py-2 pr-4">Record</th>
+                  <th className="py-2">Changes</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filteredEntries.map((entry) => (
+                  <tr key={entry.id} className="border-b border-gray-100 align-top">
+                    <td className="py-3 pr-4 whitespace-nowrap text-gray-600">
+                      {new Date(entry.created_at).toLocaleString()}
+                    </td>
+                    <td className="py-3 pr-4">{entry.user_email}</td>
+                    <td className="py-3 pr-4">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${ACTION_STYLES[entry.action]}`}>
+                        {entry.action}
+                      </span>
+                    </td>
+                    <td className="py-3 pr-4">
+                      <div className="font-medium text-gray-900">{entry.entity_label}</div>
+                      <div className="text-xs text-gray-500">{ENTITY_LABELS[entry.entity_type]}</div>
+                    </td>
+                    <td className="py-3">
+                      <ul className="space-y-1">
+                        {entry.changes.map((change) => (
+                          <li key={change.field} className="text-gray-700 break-all">
+                            <span className="font-medium">{change.field}:</span>{' '}
+                            {entry.action !== 'create' && (
+                              <>
+                                <span className="text-red-600">{formatAuditValue(change.before)}</span>
+                                {' → '}
+                              </>
+                            )}
+                            <span className={entry.action === 'delete' ? 'text-red-600' : 'text-green-700'}>
+                              {entry.action === 'delete' ? '(deleted)' : formatAuditValue(change.after)}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AuditLog;
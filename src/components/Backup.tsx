@@ -0,0 +1,278 @@
+import React, { useState } from 'react';
+import { DatabaseBackup, Download, Upload, AlertTriangle } from 'lucide-react';
+import { backupService, permissionService } from '../lib/localStorage';
+import { BackupFile, CollectionDiff, RestoreMode, decodeBackup, encodeBackup, validateBackup } from '../lib/backup';
+import { getSchemaVersion } from '../lib/storage';
+import { dateStamp, downloadFile } from '../lib/download';
+import { User } from '../App';
+
+interface BackupProps {
+  user: User;
+}
+
+const RESTORE_MODES: { mode: RestoreMode; label: string; description: string }[] = [
+  {
+    mode: 'merge',
+    label: 'Merge',
+    description: 'Add records missing here and take the backup copy where it is newer. Nothing is deleted, and stock levels are recalculated from the combined movement history.',
+  },
+  {
+    mode: 'replace',
+    label: 'Replace',
+    description: 'Make everything exactly as it was in the backup, including users and settings. Anything newer is lost.',
+  },
+];
+
+const Backup: React.FC<BackupProps> = ({ user }) => {
+  const [compress, setCompress] = useState(true);
+  const [creating, setCreating] = useState(false);
+  const [fileName, setFileName] = useState('');
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [diffs, setDiffs] = useState<CollectionDiff[] | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  if (!permissionService.can(user, 'data.backup')) {
+    return (
+      <div className="space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Backup & Restore</h1>
+        </div>
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+          <p className="text-yellow-800">You don't have permission to back up or restore data. Please contact your admin if you need access.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const showError = (error: unknown, fallback: string) =>
+    setMessage({ type: 'error', text: error instanceof Error ? error.message : fallback });
+
+  const handleCreate = async () => {
+    setCreating(true);
+    setMessage(null);
+
+    try {
+      const file = await encodeBackup(await backupService.create(user), compress);
+      downloadFile(
+        file,
+        `stockpile-backup-${dateStamp()}.json${compress ? '.gz' : ''}`,
+        compress ? 'application/gzip' : 'application/json'
+      );
+      setMessage({ type: 'success', text: 'Backup downloaded. It contains password hashes, so store it securely.' });
+    } catch (error) {
+      showError(error, 'Could not create the backup. Please try again.');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const loadPreview = async (file: BackupFile, restoreMode: RestoreMode) => {
+    setDiffs(null);
+    try {
+      setDiffs(await backupService.preview(file, restoreMode, user));
+    } catch (error) {
+      showError(error, 'Could not compare the backup with current data.');
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setBackup(null);
+    setDiffs(null);
+    setFileErrors([]);
+    setMessage(null);
+    if (!file) return;
+
+    setFileName(file.name);
+    try {
+      const { backup: parsed, errors } = validateBackup(await decodeBackup(file), getSchemaVersion());
+      setFileErrors(errors);
+      if (parsed) {
+        setBackup(parsed);
+        await loadPreview(parsed, mode);
+      }
+    } catch (error) {
+      setFileErrors([error instanceof Error ? error.message : 'Could not read the file']);
+    }
+  };
+
+  const handleModeChange = (restoreMode: RestoreMode) => {
+    setMode(restoreMode);
+    setMessage(null);
+    if (backup) loadPreview(backup, restoreMode);
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    const confirmation = mode === 'replace'
+      ? 'Replace ALL current data with this backup? Anything not in the backup will be deleted.'
+      : 'Merge this backup into the current data?';
+    if (!window.confirm(confirmation)) return;
+
+    setRestoring(true);
+    setMessage(null);
+    try {
+      await backupService.restore(backup, mode, user);
+      // Every open screen holds its own copy of the data, so start fresh
+      window.location.reload();
+    } catch (error) {
+      showError(error, 'Restore failed. Please try again.');
+      setRestoring(false);
+    }
+  };
+
+  const hasChanges = diffs?.some(d => d.added + d.updated + d.removed > 0);
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Backup & Restore</h1>
+        <p className="text-gray-600">Save everything Stockpile stores to a file, or restore it from one.</p>
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-lg ${
+          message.type === 'success' ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'
+        }`}>
+          <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {message.text}
+          </p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-md p-6 space-y-4">
+        <div className="flex items-center space-x-2">
+          <DatabaseBackup size={20} className="text-orange-500" />
+          <h3 className="text-lg font-semibold text-gray-900">Create Backup</h3>
+        </div>
+        <p className="text-sm text-gray-600">
+          Includes products, stock movements, suppliers, purchase orders, users, the audit log and settings.
+        </p>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={compress}
+            onChange={(e) => setCompress(e.target.checked)}
+            className="rounded text-orange-500 focus:ring-orange-500"
+          />
+          <span>Compress (.json.gz)</span>
+        </label>
+        <button
+          onClick={handleCreate}
+          disabled={creating}
+          className="flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-6 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+        >
+          <Download size={16} />
+          <span>{creating ? 'Creating...' : 'Download Backup'}</span>
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md p-6 space-y-6">
+        <div className="flex items-center space-x-2">
+          <Upload size={20} className="text-orange-500" />
+          <h3 className="text-lg font-semibold text-gray-900">Restore</h3>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Backup file</label>
+          <input
+            type="file"
+            accept=".json,.gz,application/json,application/gzip"
+            onChange={handleFileChange}
+            className="block text-sm text-gray-600"
+          />
+        </div>
+
+        {fileErrors.length > 0 && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-sm font-medium text-red-700 mb-2">{fileName} can't be restored:</p>
+            <ul className="list-disc list-inside text-sm text-red-600 space-y-1">
+              {fileErrors.map((error) => <li key={error}>{error}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {backup && (
+          <>
+            <p className="text-sm text-gray-600">
+              Backup made by {backup.created_by} on {new Date(backup.created_at).toLocaleString()}.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {RESTORE_MODES.map((option) => (
+                <label
+                  key={option.mode}
+                  className={`border rounded-lg p-4 cursor-pointer ${
+                    mode === option.mode ? 'border-orange-500 bg-orange-50' : 'border-gray-200'
+                  }`}
+                >
+                  <div className="flex items-center space-x-2 mb-1">
+                    <input
+                      type="radio"
+                      name="restore-mode"
+                      checked={mode === option.mode}
+                      onChange={() => handleModeChange(option.mode)}
+                      className="text-orange-500 focus:ring-orange-500"
+                    />
+                    <span className="font-medium text-gray-900">{option.label}</span>
+                  </div>
+                  <p className="text-sm text-gray-600">{option.description}</p>
+                </label>
+              ))}
+            </div>
+
+            {diffs && (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2">Data</th>
+                    <th className="py-2 text-right">Added</th>
+                    <th className="py-2 text-right">Updated</th>
+                    <th className="py-2 text-right">Removed</th>
+                    <th className="py-2 text-right">Unchanged</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diffs.map((diff) => (
+                    <tr key={diff.collection} className="border-b border-gray-100">
+                      <td className="py-2 text-gray-900">{diff.label}</td>
+                      <td className="py-2 text-right text-green-700">{diff.added}</td>
+                      <td className="py-2 text-right text-blue-700">{diff.updated}</td>
+                      <td className={`py-2 text-right ${diff.removed > 0 ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                        {diff.removed}
+                      </td>
+                      <td className="py-2 text-right text-gray-500">{diff.unchanged}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {mode === 'replace' && (
+              <div className="flex items-start space-x-2 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+                <AlertTriangle size={16} className="text-yellow-600 mt-0.5" />
+                <p className="text-sm text-yellow-800">
+                  Replace also restores user accounts and passwords. If your account isn't in the backup you will be signed out.
+                </p>
+              </div>
+            )}
+
+            <button
+              onClick={handleRestore}
+              disabled={restoring || !diffs || (mode === 'merge' && !hasChanges)}
+              className="flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-6 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+            >
+              <Upload size={16} />
+              <span>{restoring ? 'Restoring...' : 'Restore Backup'}</span>
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Backup;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { EncodedBarcode } from '../lib/barcode';
+
+interface BarcodeSvgProps {
+  barcode: EncodedBarcode;
+  className?: string;
+}
+
+// Blank modules either side so scanners can find where the code starts
+const QUIET_ZONE = 10;
+
+// Draws the bars only; the SVG stretches to fill its box, so give it a size
+const BarcodeSvg: React.FC<BarcodeSvgProps> = ({ barcode, className }) => {
+  // One rect per run of bar modules
+  const bars = Array.from(barcode.modules.matchAll(/1+/g), match => ({
+    x: QUIET_ZONE + (match.index ?? 0),
+    width: match[0].length,
+  }));
+
+  return (
+    <svg
+      viewBox={`0 0 ${barcode.modules.length + QUIET_ZONE * 2} 1`}
+      preserveAspectRatio="none"
+      className={className}
+      role="img"
+      aria-label={`Barcode ${barcode.text}`}
+      shapeRendering="crispEdges"
+    >
+      {bars.map(bar => (
+        <rect key={bar.x} x={bar.x} y={0} width={bar.width} height={1} fill="black" />
+      ))}
+    </svg>
+  );
+};
+
+export default BarcodeSvg;
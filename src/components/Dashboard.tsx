@@ -9,12 +9,14 @@ import {
   Plus
 } from 'lucide-react';
 import { productService } from '../lib/localStorage';
-import { User, Product } from '../App';
+import { useDataRefresh } from '../hooks/useDataRefresh';
+import { formatLocationBreakdown } from '../lib/stock';
+import { User, Product, View } from '../App';
 import { LucideIcon } from 'lucide-react';
 
 interface DashboardProps {
   user: User;
-  onViewChange: (view: 'dashboard' | 'add-product' | 'inventory' | 'restock' | 'reports') => void;
+  onViewChange: (view: View) => void;
 }
 
 interface DashboardStats {
@@ -38,6 +40,8 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onViewChange }) => {
     fetchDashboardData();
   }, []);
 
+  useDataRefresh(['product', 'stock_movement'], () => fetchDashboardData());
+
   const fetchDashboardData = async () => {
     try {
       setLoading(true);
@@ -148,6 +152,9 @@ const Dashboard: React.FC<DashboardProps> = ({ user, onViewChange }) => {
                 <div>
                   <p className="font-medium text-gray-900">{product.name}</p>
                   <p className="text-sm text-gray-600">SKU: {product.sku} | Location: {product.location}</p>
+                  {product.stock_locations.length > 1 && (
+                    <p className="text-xs text-gray-500">{formatLocationBreakdown(product)}</p>
+                  )}
                 </div>
                 <div className="text-right">
                   <p className="text-sm text-yellow-600 font-medium">
@@ -0,0 +1,277 @@
+import React, { useState, useEffect } from 'react';
+import { Save, X, AlertTriangle } from 'lucide-react';
+import { productService, permissionService } from '../lib/localStorage';
+import { ConflictError, FieldConflict, mergeEdits } from '../lib/conflicts';
+import { formatAuditValue } from '../lib/audit';
+import { ProductFormData, toProductFormData, generateSKU } from '../lib/productForm';
+import { ProductFieldErrors, ValidationError, hasFieldErrors } from '../lib/validation';
+import ProductForm from './ProductForm';
+import type { User, Product } from '../App';
+
+interface EditProductProps {
+  user: User;
+  productId: string;
+  onClose: () => void;
+}
+
+const EditProduct: React.FC<EditProductProps> = ({ user, productId, onClose }) => {
+  const [product, setProduct] = useState<Product | null>(null);
+  const [formData, setFormData] = useState<ProductFormData | null>(null);
+  const [errors, setErrors] = useState<ProductFieldErrors>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  // Set when someone else saved the product while it was being edited here
+  // and both changed the same fields
+  const [conflict, setConflict] = useState<{
+    current: Product;
+    message: string;
+    fields: FieldConflict<ProductFormData>[];
+  } | null>(null);
+
+  useEffect(() => {
+    const fetchProduct = async () => {
+      try {
+        setLoading(true);
+        const data = await productService.getById(productId);
+        setProduct(data);
+        setFormData(data ? toProductFormData(data) : null);
+      } catch (error) {
+        console.error('Error fetching product:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchProduct();
+  }, [productId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData || !product) return;
+
+    await save(async () => {
+      const edited = { ...formData, sku: formData.sku || generateSKU(formData.category) };
+      const { errors: validationErrors } = await productService.validate(edited, productId);
+      setErrors(validationErrors);
+      if (hasFieldErrors(validationErrors)) {
+        setMessage({ type: 'error', text: 'Please fix the highlighted fields.' });
+        return;
+      }
+
+      await saveEdit(edited, product.version);
+    });
+  };
+
+  // Writes the given fields on top of `version` of the product
+  const saveEdit = async (changes: Partial<ProductFormData>, version: number) => {
+    const fields = { ...changes };
+    if (fields.sku === '') fields.sku = generateSKU(fields.category ?? formData?.category ?? '');
+
+    const updated = await productService.update(productId, fields, version, user);
+    if (!updated) {
+      setMessage({ type: 'error', text: 'This product no longer exists.' });
+      return;
+    }
+
+    setProduct(updated);
+    setFormData(toProductFormData(updated));
+    setConflict(null);
+    setMessage({ type: 'success', text: 'Product updated successfully!' });
+  };
+
+  // If someone else saved first, edits to different fields are combined and
+  // saved straight away; only edits to the same fields need a decision
+  const handleConflict = async (error: ConflictError) => {
+    if (!product || !formData) return;
+    const { changes, conflicts } = mergeEdits(toProductFormData(product), formData, toProductFormData(error.current));
+
+    if (conflicts.length === 0) {
+      await saveEdit(changes, error.current.version);
+    } else {
+      setConflict({ current: error.current, message: error.message, fields: conflicts });
+    }
+  };
+
+  const save = async (write: () => Promise<void>) => {
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      try {
+        await write();
+      } catch (error: unknown) {
+        if (!(error instanceof ConflictError)) throw error;
+        await handleConflict(error);
+      }
+    } catch (error: unknown) {
+      if (error instanceof ValidationError) {
+        setErrors(error.errors);
+        setMessage({ type: 'error', text: 'Please fix the highlighted fields.' });
+        return;
+      }
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to update product. Please try again.',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Saves every edit made here over the other person's changes
+  const handleKeepMine = () => {
+    if (!conflict || !product || !formData) return;
+    const { changes } = mergeEdits(toProductFormData(product), formData, toProductFormData(conflict.current));
+    save(() => saveEdit(changes, conflict.current.version));
+  };
+
+  // Takes the other person's values for the conflicting fields and keeps the
+  // rest of the edits here, for review before saving again
+  const handleUseTheirs = () => {
+    if (!conflict || !product || !formData) return;
+    const { changes } = mergeEdits(toProductFormData(product), formData, toProductFormData(conflict.current));
+    conflict.fields.forEach(({ field }) => delete changes[field]);
+
+    setProduct(conflict.current);
+    setFormData({ ...toProductFormData(conflict.current), ...changes });
+    setConflict(null);
+    setMessage(null);
+  };
+
+  if (!permissionService.can(user, 'product.edit')) {
+    return (
+      <div className="space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Edit Product</h1>
+        </div>
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+          <p className="text-yellow-800">You don't have permission to edit products. Please contact your admin if a product needs changes.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
+      </div>
+    );
+  }
+
+  if (!product || !formData) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-500 mb-4">Product not found.</p>
+        <button
+          onClick={onClose}
+          className="bg-gray-500 hover:bg-gray-600 text-white px-6 py-2 rounded-lg transition duration-200"
+        >
+          Back to Inventory
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Edit Product</h1>
+        <p className="text-gray-600">
+          {product.name} &middot; created {new Date(product.created_at).toLocaleDateString()}
+        </p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md p-8">
+        {message && (
+          <div className={`mb-6 p-4 rounded-lg ${
+            message.type === 'success' ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'
+          }`}>
+            <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+              {message.text}
+            </p>
+          </div>
+        )}
+
+        {conflict && (
+          <div className="mb-6 p-4 rounded-lg bg-yellow-50 border border-yellow-200">
+            <div className="flex items-start space-x-2 mb-3">
+              <AlertTriangle size={20} className="text-yellow-600 mt-0.5" />
+              <div>
+                <p className="text-sm font-medium text-yellow-800">{conflict.message}.</p>
+                <p className="text-sm text-yellow-800">
+                  Your other edits can be kept either way. Choose which values to keep for these fields:
+                </p>
+              </div>
+            </div>
+
+            <table className="w-full text-sm mb-4">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-yellow-200">
+                  <th className="py-2 pr-4">Field</th>
+                  <th className="py-2 pr-4">Your value</th>
+                  <th className="py-2">Their value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {conflict.fields.map(({ field, mine, theirs }) => (
+                  <tr key={field} className="border-b border-yellow-100">
+                    <td className="py-2 pr-4 font-medium text-gray-900">{field.replace(/_/g, ' ')}</td>
+                    <td className="py-2 pr-4 text-gray-700 break-all">{formatAuditValue(mine)}</td>
+                    <td className="py-2 text-gray-700 break-all">{formatAuditValue(theirs)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <div className="flex space-x-4">
+              <button
+                type="button"
+                onClick={handleKeepMine}
+                disabled={saving}
+                className="bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg text-sm transition duration-200 disabled:opacity-50"
+              >
+                Keep My Values
+              </button>
+              <button
+                type="button"
+                onClick={handleUseTheirs}
+                disabled={saving}
+                className="bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg text-sm transition duration-200 disabled:opacity-50"
+              >
+                Use Their Values
+              </button>
+            </div>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <ProductForm formData={formData} errors={errors} onChange={setFormData} stockLocked />
+
+          <div className="flex space-x-4 pt-6 border-t">
+            <button
+              type="submit"
+              disabled={saving || !!conflict}
+              className="flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-6 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+            >
+              <Save size={20} />
+              <span>{saving ? 'Saving...' : 'Save Changes'}</span>
+            </button>
+
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex items-center space-x-2 bg-gray-500 hover:bg-gray-600 text-white px-6 py-2 rounded-lg transition duration-200"
+            >
+              <X size={20} />
+              <span>Back to Inventory</span>
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default EditProduct;
@@ -0,0 +1,290 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Upload, FileText, CheckCircle, XCircle, RefreshCw, Plus } from 'lucide-react';
+import { productService, supplierService, permissionService } from '../lib/localStorage';
+import { parseCSV } from '../lib/csv';
+import {
+  IMPORT_FIELDS,
+  ColumnMapping,
+  ImportField,
+  ImportResult,
+  ImportRowAction,
+  buildImportPreview,
+  commitImport,
+  guessColumnMapping
+} from '../lib/productImport';
+import { User, Product, Supplier } from '../App';
+
+interface ImportProductsProps {
+  user: User;
+}
+
+const ACTION_STYLES: Record<ImportRowAction, { color: string; label: string }> = {
+  create: { color: 'bg-green-100 text-green-800', label: 'Create' },
+  update: { color: 'bg-blue-100 text-blue-800', label: 'Update' },
+  reject: { color: 'bg-red-100 text-red-800', label: 'Rejected' },
+};
+
+const ImportProducts: React.FC<ImportProductsProps> = ({ user }) => {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [defaultSupplierId, setDefaultSupplierId] = useState('');
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCatalog();
+  }, []);
+
+  const fetchCatalog = async () => {
+    try {
+      const [productData, supplierData] = await Promise.all([
+        productService.getAll(),
+        supplierService.getAll(),
+      ]);
+      setProducts(productData);
+      setSuppliers(supplierData);
+    } catch (error) {
+      console.error('Error fetching catalog:', error);
+    }
+  };
+
+  const preview = useMemo(
+    () => buildImportPreview(rows, mapping, products, suppliers, defaultSupplierId),
+    [rows, mapping, products, suppliers, defaultSupplierId]
+  );
+
+  const counts = preview.reduce(
+    (acc, row) => ({ ...acc, [row.action]: acc[row.action] + 1 }),
+    { create: 0, update: 0, reject: 0 } as Record<ImportRowAction, number>
+  );
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const [headerRow, ...dataRows] = parseCSV(String(reader.result || ''));
+      if (!headerRow || dataRows.length === 0) {
+        setError('The file needs a header row and at least one product row.');
+        return;
+      }
+
+      setFileName(file.name);
+      setHeaders(headerRow);
+      setRows(dataRows);
+      setMapping(guessColumnMapping(headerRow));
+      setResult(null);
+      setError(null);
+    };
+    reader.onerror = () => setError('Could not read the file.');
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleMappingChange = (column: number, field: ImportField | '') => {
+    setMapping(prev => prev.map((current, i) => {
+      if (i === column) return field;
+      // A field can only be mapped from one column
+      return field && current === field ? '' : current;
+    }));
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setError(null);
+
+    try {
+      const importResult = await commitImport(preview, user);
+      setResult(importResult);
+      setRows([]);
+      setHeaders([]);
+      setMapping([]);
+      await fetchCatalog();
+    } catch (error) {
+      console.error('Error importing products:', error);
+      setError(error instanceof Error ? error.message : 'Import failed. Please try again.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (!permissionService.can(user, 'product.import')) {
+    return (
+      <div className="space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Import Products</h1>
+          <p className="text-gray-600">Bulk-load products from a CSV file.</p>
+        </div>
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+          <p className="text-yellow-800">You don't have permission to import products. Please contact your admin if you need to load a catalog.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Import Products</h1>
+        <p className="text-gray-600">
+          Bulk-load products from a CSV file. Rows whose SKU already exists update that product.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-lg bg-red-50 border border-red-200">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {result && (
+        <div className="p-4 rounded-lg bg-green-50 border border-green-200">
+          <p className="text-sm text-green-600">
+            Import complete: {result.created} created, {result.updated} updated
+            {result.failed.length > 0 && `, ${result.failed.length} failed`}.
+          </p>
+          {result.failed.map(f => (
+            <p key={f.rowNumber} className="text-sm text-red-600">Row {f.rowNumber}: {f.error}</p>
+          ))}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-md p-6">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <FileText className="text-orange-500" size={24} />
+            <div>
+              <p className="font-medium text-gray-900">{fileName || 'No file selected'}</p>
+              <p className="text-sm text-gray-600">
+                {rows.length > 0 ? `${rows.length} rows, ${headers.length} columns` : 'CSV with a header row'}
+              </p>
+            </div>
+          </div>
+          <label className="flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg transition duration-200 cursor-pointer">
+            <Upload size={16} />
+            <span>Choose CSV File</span>
+            <input type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+          </label>
+        </div>
+      </div>
+
+      {headers.length > 0 && (
+        <>
+          {/* Column Mapping */}
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Column Mapping</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {headers.map((header, column) => (
+                <div key={column}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {header || `Column ${column + 1}`}
+                    <span className="ml-2 text-xs text-gray-400">e.g. {rows[0]?.[column] || '-'}</span>
+                  </label>
+                  <select
+                    value={mapping[column] || ''}
+                    onChange={(e) => handleMappingChange(column, e.target.value as ImportField | '')}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                  >
+                    <option value="">Ignore column</option>
+                    {IMPORT_FIELDS.map(f => (
+                      <option key={f.field} value={f.field}>{f.label}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            <div className="mt-6 pt-4 border-t max-w-sm">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Supplier for new products without one</label>
+              <select
+                value={defaultSupplierId}
+                onChange={(e) => setDefaultSupplierId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+              >
+                <option value="">No Supplier</option>
+                {suppliers.map(s => (
+                  <option key={s.id} value={s.id}>{s.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Dry-run Preview */}
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Preview (nothing is saved yet)</h3>
+              <div className="flex space-x-4 text-sm">
+                <span className="flex items-center text-green-600"><Plus size={16} className="mr-1" />{counts.create} new</span>
+                <span className="flex items-center text-blue-600"><RefreshCw size={16} className="mr-1" />{counts.update} updates</span>
+                <span className="flex items-center text-red-600"><XCircle size={16} className="mr-1" />{counts.reject} rejected</span>
+              </div>
+            </div>
+
+            <div className="max-h-96 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-white">
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2">Row</th>
+                    <th className="py-2">Action</th>
+                    <th className="py-2">SKU</th>
+                    <th className="py-2">Name</th>
+                    <th className="py-2">Details</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.map((row) => {
+                    const style = ACTION_STYLES[row.action];
+                    return (
+                      <tr key={row.rowNumber} className="border-b border-gray-100 align-top">
+                        <td className="py-2 text-gray-500">{row.rowNumber}</td>
+                        <td className="py-2">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${style.color}`}>{style.label}</span>
+                        </td>
+                        <td className="py-2">{row.sku || '-'}</td>
+                        <td className="py-2">{row.name || '-'}</td>
+                        <td className="py-2">
+                          {row.errors.length > 0 ? (
+                            row.errors.map(e => <p key={e} className="text-red-600">{e}</p>)
+                          ) : row.action === 'update' ? (
+                            <p className="text-gray-600">
+                              Changes: {Object.keys(row.fields).filter(f => f !== 'sku').join(', ') || 'none'}
+                            </p>
+                          ) : (
+                            <p className="text-gray-600">New product</p>
+                          )}
+                          {row.errors.length === 0 && row.warnings.map(w => (
+                            <p key={w} className="text-yellow-700">{w}</p>
+                          ))}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex items-center justify-between mt-6 pt-4 border-t">
+              <p className="text-sm text-gray-600">Rejected rows are skipped. Fix them in the file and import again.</p>
+              <button
+                onClick={handleImport}
+                disabled={importing || counts.create + counts.update === 0}
+                className="flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-6 py-2 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <CheckCircle size={20} />
+                <span>{importing ? 'Importing...' : `Import ${counts.create + counts.update} Products`}</span>
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ImportProducts;
@@ -0,0 +1,239 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Printer, Tag, X } from 'lucide-react';
+import { productService } from '../lib/localStorage';
+import { productBarcode } from '../lib/barcode';
+import {
+  LABEL_TEMPLATES,
+  DEFAULT_LABEL_FIELDS,
+  LabelFields,
+  LabelRequest,
+  LabelTemplate,
+  layoutLabelSheets
+} from '../lib/labels';
+import BarcodeSvg from './BarcodeSvg';
+import { Product } from '../App';
+
+interface LabelDesignerProps {
+  // Where the products came from, e.g. "Received on PO-0003"
+  title: string;
+  requests: LabelRequest[];
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<keyof LabelFields, string> = {
+  name: 'Product name',
+  sku: 'SKU',
+  price: 'Price',
+  location: 'Location',
+  barcode: 'Barcode',
+};
+
+// How much smaller the sheets are shown on screen than they print
+const PREVIEW_ZOOM = 0.6;
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent';
+
+const Label: React.FC<{ product: Product; template: LabelTemplate; fields: LabelFields }> = ({ product, template, fields }) => {
+  const barcode = useMemo(() => {
+    try {
+      return productBarcode(product);
+    } catch {
+      // SKUs with characters Code 128 can't print just go without a barcode
+      return null;
+    }
+  }, [product]);
+  const details = [fields.sku && product.sku, fields.location && product.location].filter(Boolean).join(' · ');
+
+  return (
+    <div
+      className="flex flex-col h-full overflow-hidden text-black leading-tight"
+      style={{ padding: '0.06in', fontSize: `${Math.min(template.labelHeight * 9, 11)}pt` }}
+    >
+      {fields.name && <p className="font-semibold truncate">{product.name}</p>}
+      {(details || fields.price) && (
+        <div className="flex justify-between space-x-2">
+          <span className="truncate">{details}</span>
+          {fields.price && <span className="font-semibold">${product.selling_price.toFixed(2)}</span>}
+        </div>
+      )}
+      {fields.barcode && barcode && (
+        <div className="flex-1 min-h-0 flex flex-col">
+          <BarcodeSvg barcode={barcode} className="flex-1 min-h-0 w-full" />
+          <p className="text-center" style={{ fontSize: '0.8em' }}>{barcode.text}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const LabelDesigner: React.FC<LabelDesignerProps> = ({ title, requests, onClose }) => {
+  const [products, setProducts] = useState<Map<string, Product>>(new Map());
+  const [copies, setCopies] = useState<Record<string, number>>(
+    () => Object.fromEntries(requests.map(r => [r.product_id, r.copies]))
+  );
+  const [templateId, setTemplateId] = useState(LABEL_TEMPLATES[0].id);
+  const [fields, setFields] = useState<LabelFields>(DEFAULT_LABEL_FIELDS);
+  const [skip, setSkip] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    productService.getAll()
+      .then(data => setProducts(new Map(data.map(p => [p.id, p]))))
+      .catch(error => console.error('Error fetching products:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const template = LABEL_TEMPLATES.find(t => t.id === templateId) || LABEL_TEMPLATES[0];
+  const perSheet = template.columns * template.rows;
+
+  // Products deleted since the labels were asked for are left out
+  const labels = requests.flatMap(r => {
+    const product = products.get(r.product_id);
+    return product ? [{ product, copies: copies[r.product_id] ?? 0 }] : [];
+  });
+  const sheets = layoutLabelSheets(template, labels, skip);
+  const totalLabels = labels.reduce((sum, l) => sum + l.copies, 0);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Sheets print at full size with no page margins; the template sets the margins */}
+      <style>{`@page { size: ${template.pageWidth}in ${template.pageHeight}in; margin: 0; }`}</style>
+
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Print Labels</h1>
+          <p className="text-gray-600">{title}</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => window.print()}
+            disabled={totalLabels === 0}
+            className="flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+          >
+            <Printer size={16} />
+            <span>Print {totalLabels} Label{totalLabels === 1 ? '' : 's'}</span>
+          </button>
+          <button
+            onClick={onClose}
+            className="flex items-center space-x-2 bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition duration-200"
+          >
+            <X size={16} />
+            <span>Close</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white rounded-xl shadow-md p-6 space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Label sheet</label>
+            <select value={templateId} onChange={(e) => setTemplateId(e.target.value)} className={inputClass}>
+              {LABEL_TEMPLATES.map(t => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">Show on each label</p>
+            <div className="space-y-2">
+              {(Object.keys(FIELD_LABELS) as (keyof LabelFields)[]).map(field => (
+                <label key={field} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={fields[field]}
+                    onChange={(e) => setFields({ ...fields, [field]: e.target.checked })}
+                    className="rounded text-orange-500 focus:ring-orange-500"
+                  />
+                  <span>{FIELD_LABELS[field]}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Labels already used on the first sheet</label>
+            <input
+              type="number"
+              min="0"
+              max={perSheet - 1}
+              value={skip}
+              onChange={(e) => setSkip(Math.min(Math.max(parseInt(e.target.value) || 0, 0), perSheet - 1))}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">Copies</p>
+            {labels.length === 0 ? (
+              <p className="text-sm text-gray-500">None of these products exist any more.</p>
+            ) : (
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {labels.map(({ product }) => (
+                  <div key={product.id} className="flex items-center justify-between space-x-2">
+                    <div className="min-w-0">
+                      <p className="text-sm text-gray-900 truncate">{product.name}</p>
+                      <p className="text-xs text-gray-500">{product.sku}</p>
+                    </div>
+                    <input
+                      type="number"
+                      min="0"
+                      value={copies[product.id] ?? 0}
+                      onChange={(e) => setCopies({ ...copies, [product.id]: Math.max(parseInt(e.target.value) || 0, 0) })}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded text-center"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="lg:col-span-2 bg-white rounded-xl shadow-md p-6 overflow-auto">
+          <div className="flex items-center space-x-2 mb-4">
+            <Tag size={20} className="text-orange-500" />
+            <h3 className="text-lg font-semibold text-gray-900">
+              {sheets.length} sheet{sheets.length === 1 ? '' : 's'}
+            </h3>
+          </div>
+
+          {/* The only part of the page that prints (see index.css) */}
+          <div className="print-area space-y-4 print:space-y-0" style={{ zoom: PREVIEW_ZOOM }}>
+            {sheets.map((sheet, index) => (
+              <div
+                key={index}
+                className="relative bg-white border border-gray-300 print:border-0 break-after-page"
+                style={{ width: `${template.pageWidth}in`, height: `${template.pageHeight}in` }}
+              >
+                {sheet.map((label, slot) => (
+                  <div
+                    key={slot}
+                    className="absolute border border-dashed border-gray-200 print:border-0"
+                    style={{
+                      left: `${label.x}in`,
+                      top: `${label.y}in`,
+                      width: `${template.labelWidth}in`,
+                      height: `${template.labelHeight}in`,
+                    }}
+                  >
+                    <Label product={label.product} template={template} fields={fields} />
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LabelDesigner;
@@ -5,9 +5,11 @@ import { Package } from 'lucide-react';
 
 interface LoginFormProps {
   onLogin: (user: User) => void;
+  // Shown above the form, e.g. after a session times out
+  notice?: string;
 }
 
-const LoginForm: React.FC<LoginFormProps> = ({ onLogin }) => {
+const LoginForm: React.FC<LoginFormProps> = ({ onLogin, notice }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
@@ -46,6 +48,12 @@ const LoginForm: React.FC<LoginFormProps> = ({ onLogin }) => {
           <p className="text-gray-600">Sign in to manage your inventory</p>
         </div>
 
+        {notice && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 mb-6">
+            <p className="text-yellow-800 text-sm">{notice}</p>
+          </div>
+        )}
+
         <form onSubmit={handleLogin} className="space-y-6">
           <div>
             <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
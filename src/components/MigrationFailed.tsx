@@ -0,0 +1,70 @@
+import React from 'react';
+import { AlertTriangle, Download, RefreshCw } from 'lucide-react';
+import { MigrationError } from '../lib/migrations';
+import { dateStamp, downloadFile } from '../lib/download';
+
+interface MigrationFailedProps {
+  error: MigrationError;
+}
+
+// Shown in place of the app when stored data could not be brought up to the
+// current schema. Nothing else is rendered, so no screen reads half-migrated data.
+const MigrationFailed: React.FC<MigrationFailedProps> = ({ error }) => {
+  const handleDownloadBackup = () => {
+    if (!error.backup) return;
+    downloadFile(
+      JSON.stringify(error.backup, null, 2),
+      `stockpile-pre-migration-backup-${dateStamp()}.json`,
+      'application/json'
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-orange-50 to-amber-50 flex items-center justify-center">
+      <div className="bg-white p-8 rounded-xl shadow-2xl w-full max-w-lg">
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="bg-red-100 p-2 rounded-full">
+            <AlertTriangle size={24} className="text-red-500" />
+          </div>
+          <h1 className="text-xl font-semibold text-gray-900">Stockpile couldn't update your data</h1>
+        </div>
+
+        <p className="text-gray-600 mb-4">
+          This version of Stockpile needs to update how your inventory is stored, and the update did not finish.
+        </p>
+
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+          <p className="text-red-700 text-sm break-words">{error.message}</p>
+        </div>
+
+        <p className="text-gray-600 text-sm mb-6">
+          {error.rolledBack
+            ? 'Your data has been put back exactly as it was before the update. '
+            : 'Your data could not be put back automatically. Keep the backup below safe before trying again. '}
+          Please contact your admin if this keeps happening.
+        </p>
+
+        <div className="flex space-x-4">
+          {error.backup && (
+            <button
+              onClick={handleDownloadBackup}
+              className="flex-1 flex items-center justify-center space-x-2 bg-gray-500 hover:bg-gray-600 text-white px-6 py-2 rounded-lg transition duration-200"
+            >
+              <Download size={16} />
+              <span>Download Backup</span>
+            </button>
+          )}
+          <button
+            onClick={() => window.location.reload()}
+            className="flex-1 flex items-center justify-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-6 py-2 rounded-lg transition duration-200"
+          >
+            <RefreshCw size={16} />
+            <span>Try Again</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MigrationFailed;
@@ -3,31 +3,53 @@ import {
   Home, 
   Plus, 
   Package, 
+  Upload,
+  ShoppingCart,
   RefreshCw, 
+  ClipboardList,
+  ClipboardCheck,
+  SlidersHorizontal,
+  Truck,
   BarChart3, 
+  UserCog,
+  History,
+  DatabaseBackup,
   LogOut, 
-  User
+  User,
+  LucideIcon
 } from 'lucide-react';
-import { User as UserType } from '../App';
+import { permissionService } from '../lib/localStorage';
+import { Permission, getRoleLabel } from '../lib/permissions';
+import { User as UserType, View } from '../App';
 
 interface NavigationProps {
   user: UserType;
   currentView: string;
-  onViewChange: (view: 'dashboard' | 'add-product' | 'inventory' | 'restock' | 'reports') => void;
+  onViewChange: (view: View) => void;
   onLogout: () => void;
 }
 
 const Navigation: React.FC<NavigationProps> = ({ user, currentView, onViewChange, onLogout }) => {
-  const menuItems = [
+  // Items with a permission are hidden from roles that don't have it
+  const menuItems: { id: View; label: string; icon: LucideIcon; permission?: Permission }[] = [
     { id: 'dashboard', label: 'Dashboard', icon: Home },
-    { id: 'add-product', label: 'Add Product', icon: Plus, adminOnly: false },
+    { id: 'add-product', label: 'Add Product', icon: Plus, permission: 'product.create' },
     { id: 'inventory', label: 'View Inventory', icon: Package },
+    { id: 'import-products', label: 'Import Products', icon: Upload, permission: 'product.import' },
+    { id: 'point-of-sale', label: 'Point of Sale', icon: ShoppingCart, permission: 'sales.record' },
     { id: 'restock', label: 'Restock', icon: RefreshCw },
-    { id: 'reports', label: 'Reports', icon: BarChart3, adminOnly: false },
+    { id: 'stock-counts', label: 'Stock Counts', icon: ClipboardCheck },
+    { id: 'adjustments', label: 'Stock Adjustments', icon: SlidersHorizontal, permission: 'stock.adjust' },
+    { id: 'purchase-orders', label: 'Purchase Orders', icon: ClipboardList },
+    { id: 'suppliers', label: 'Suppliers', icon: Truck },
+    { id: 'reports', label: 'Reports', icon: BarChart3, permission: 'reports.view' },
+    { id: 'users', label: 'Users', icon: UserCog, permission: 'users.manage' },
+    { id: 'audit-log', label: 'Audit Log', icon: History, permission: 'audit.view' },
+    { id: 'backup', label: 'Backup & Restore', icon: DatabaseBackup, permission: 'data.backup' },
   ];
 
   const filteredItems = menuItems.filter(item => 
-    item.adminOnly === undefined || !item.adminOnly || user.role === 'admin'
+    !item.permission || permissionService.can(user, item.permission)
   );
 
   return (
@@ -45,7 +67,7 @@ const Navigation: React.FC<NavigationProps> = ({ user, currentView, onViewChange
           </div>
           <div>
             <p className="font-medium text-sm">{user.email}</p>
-            <p className="text-xs text-gray-300 capitalize">{user.role}</p>
+            <p className="text-xs text-gray-300">{getRoleLabel(user.role)}</p>
           </div>
         </div>
       </div>
@@ -58,7 +80,7 @@ const Navigation: React.FC<NavigationProps> = ({ user, currentView, onViewChange
           return (
             <button
               key={item.id}
-              onClick={() => onViewChange(item.id as any)}
+              onClick={() => onViewChange(item.id)}
               className={`w-full flex items-center space-x-3 px-6 py-3 text-left transition-colors ${
                 isActive
                   ? 'bg-orange-500 text-white border-r-4 border-orange-300'
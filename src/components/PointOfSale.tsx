@@ -0,0 +1,372 @@
+import React, { useState, useEffect } from 'react';
+import { Search, ShoppingCart, Trash2, Printer, Check, ScanLine } from 'lucide-react';
+import { productService, saleService, permissionService } from '../lib/localStorage';
+import { useDataRefresh } from '../hooks/useDataRefresh';
+import { useBarcodeScanner } from '../hooks/useBarcodeScanner';
+import { CartItem, addToCart, lineTotal, saleTotals } from '../lib/sales';
+import UnknownBarcode from './UnknownBarcode';
+import { User, Product, Sale } from '../App';
+
+interface PointOfSaleProps {
+  user: User;
+}
+
+// Search results shown at once; scanning or a narrower search finds the rest
+const MAX_RESULTS = 8;
+
+const Receipt: React.FC<{ sale: Sale; cashier: string }> = ({ sale, cashier }) => (
+  <div className="print-area bg-white text-black font-mono text-xs p-4 border border-gray-200 print:border-0" style={{ width: '3in' }}>
+    <p className="text-center text-sm font-bold">Stockpile</p>
+    <p className="text-center">{sale.sale_number}</p>
+    <p className="text-center mb-3">{new Date(sale.created_at).toLocaleString()}</p>
+    <div className="border-t border-dashed border-gray-400 py-2 space-y-1">
+      {sale.lines.map(line => (
+        <div key={line.product_id}>
+          <p className="truncate">{line.name}</p>
+          <div className="flex justify-between">
+            <span>{line.quantity} x ${line.unit_price.toFixed(2)}</span>
+            <span>${lineTotal(line).toFixed(2)}</span>
+          </div>
+        </div>
+      ))}
+    </div>
+    <div className="border-t border-dashed border-gray-400 pt-2 flex justify-between font-bold text-sm">
+      <span>Total</span>
+      <span>${sale.revenue.toFixed(2)}</span>
+    </div>
+    <p className="mt-3 text-center">Served by {cashier}</p>
+  </div>
+);
+
+const PointOfSale: React.FC<PointOfSaleProps> = ({ user }) => {
+  const [products, setProducts] = useState<Product[]>([]);
+  const [cart, setCart] = useState<CartItem[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [completing, setCompleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [unknownCode, setUnknownCode] = useState<string | null>(null);
+  // The sale just completed, shown as a receipt until the next one is started
+  const [completedSale, setCompletedSale] = useState<Sale | null>(null);
+
+  const canSell = permissionService.can(user, 'sales.record');
+
+  useEffect(() => {
+    fetchProducts();
+  }, []);
+
+  useDataRefresh(['product', 'stock_movement'], () => fetchProducts());
+
+  const fetchProducts = async () => {
+    try {
+      setProducts(await productService.getAll());
+    } catch (error) {
+      console.error('Error fetching products:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Adding to the cart while a receipt is shown starts the next sale
+  const addProduct = (product: Product) => {
+    setError(null);
+    setUnknownCode(null);
+    setCompletedSale(null);
+    setCart(items => addToCart(items, product.id));
+  };
+
+  // Each scan rings up one unit. Scanning stays on while a receipt is shown,
+  // so the next customer's first item starts a new sale.
+  const handleScan = async (code: string) => {
+    try {
+      const product = await productService.findByCode(code);
+      if (product) {
+        addProduct(product);
+      } else {
+        setUnknownCode(code);
+      }
+    } catch (error) {
+      console.error('Error looking up scanned code:', error);
+    }
+  };
+
+  useBarcodeScanner(handleScan, canSell);
+
+  // Scanners that type into the search box end with Enter, so an exact
+  // barcode or SKU match is rung up straight away
+  const handleSearchKeyDown = async (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter' || !searchTerm.trim()) return;
+    e.preventDefault();
+    const product = await productService.findByCode(searchTerm);
+    if (product) {
+      addProduct(product);
+      setSearchTerm('');
+    }
+  };
+
+  const updateQuantity = (productId: string, quantity: number) => {
+    setCart(items => items.map(item => (item.product_id === productId ? { ...item, quantity: Math.max(0, quantity) } : item)));
+  };
+
+  const removeItem = (productId: string) => {
+    setCart(items => items.filter(item => item.product_id !== productId));
+  };
+
+  const handleComplete = async () => {
+    setCompleting(true);
+    setError(null);
+
+    try {
+      const sale = await saleService.complete(cart, user);
+      setCompletedSale(sale);
+      setCart([]);
+      setSearchTerm('');
+    } catch (error) {
+      console.error('Error completing sale:', error);
+      setError(error instanceof Error ? error.message : 'Failed to complete the sale. Please try again.');
+    } finally {
+      setCompleting(false);
+    }
+  };
+
+  if (!canSell) {
+    return (
+      <div className="space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Point of Sale</h1>
+        </div>
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+          <p className="text-yellow-800">You don't have permission to record sales. Please contact your admin if you need access.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
+      </div>
+    );
+  }
+
+  if (completedSale) {
+    return (
+      <div className="space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Point of Sale</h1>
+          <p className="text-gray-600">Sale {completedSale.sale_number} completed. Scan the next item to start a new sale.</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-md p-6 flex flex-col items-center space-y-6">
+          <Receipt sale={completedSale} cashier={user.email} />
+          <div className="flex space-x-2">
+            <button
+              onClick={() => window.print()}
+              className="flex items-center space-x-2 bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition duration-200"
+            >
+              <Printer size={16} />
+              <span>Print Receipt</span>
+            </button>
+            <button
+              onClick={() => setCompletedSale(null)}
+              className="flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg transition duration-200"
+            >
+              <ShoppingCart size={16} />
+              <span>New Sale</span>
+            </button>
+          </div>
+        </div>
+
+        {unknownCode && <UnknownBarcode code={unknownCode} onDismiss={() => setUnknownCode(null)} />}
+      </div>
+    );
+  }
+
+  const productsById = new Map(products.map(p => [p.id, p]));
+  const cartLines = cart.flatMap(item => {
+    const product = productsById.get(item.product_id);
+    return product ? [{ product, quantity: item.quantity }] : [];
+  });
+  // Items deleted from the catalog while in the cart stay listed until taken
+  // off, since the sale can't be completed with them
+  const deletedItems = cart.filter(item => !productsById.has(item.product_id));
+  const totals = saleTotals(cartLines.map(({ product, quantity }) => ({
+    quantity,
+    unit_price: product.selling_price,
+    unit_cost: product.cost_price,
+  })));
+  const overStocked = cartLines.some(({ product, quantity }) => quantity > product.current_stock);
+
+  const term = searchTerm.trim().toLowerCase();
+  const results = term
+    ? products
+        .filter(p =>
+          p.name.toLowerCase().includes(term) ||
+          p.sku.toLowerCase().includes(term) ||
+          (p.barcode || '').toLowerCase().includes(term)
+        )
+        .slice(0, MAX_RESULTS)
+    : [];
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Point of Sale</h1>
+        <p className="text-gray-600">
+          Ring up items at their selling price. Completing the sale takes them out of stock.
+        </p>
+        <p className="flex items-center space-x-2 text-sm text-gray-600 mt-2">
+          <ScanLine size={16} className="text-orange-500" />
+          <span>Scan a barcode to add one unit to the sale.</span>
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-lg bg-red-50 border border-red-200">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white rounded-xl shadow-md p-6 space-y-4">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
+            <input
+              type="text"
+              placeholder="Search by name, SKU or barcode..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              onKeyDown={handleSearchKeyDown}
+              className="pl-10 pr-4 py-2 w-full border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+            />
+          </div>
+
+          {term && results.length === 0 && (
+            <p className="text-sm text-gray-500">No products match your search.</p>
+          )}
+          <div className="space-y-2">
+            {results.map(product => (
+              <button
+                key={product.id}
+                onClick={() => addProduct(product)}
+                disabled={product.current_stock === 0}
+                className="w-full flex items-center justify-between p-3 bg-gray-50 hover:bg-orange-50 rounded-lg text-left transition-colors disabled:opacity-50 disabled:hover:bg-gray-50"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{product.name}</p>
+                  <p className="text-xs text-gray-500">{product.sku} · {product.current_stock} in stock</p>
+                </div>
+                <span className="text-sm font-medium text-gray-900">${product.selling_price.toFixed(2)}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="lg:col-span-2 bg-white rounded-xl shadow-md p-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <ShoppingCart size={20} className="text-orange-500" />
+            <h3 className="text-lg font-semibold text-gray-900">Current Sale</h3>
+          </div>
+
+          {cart.length === 0 ? (
+            <p className="text-gray-500">Scan or search for items to add them to the sale.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b border-gray-200 text-left text-sm text-gray-500">
+                    <th className="py-2 font-medium">Product</th>
+                    <th className="py-2 font-medium text-right">Price</th>
+                    <th className="py-2 font-medium text-center">Quantity</th>
+                    <th className="py-2 font-medium text-right">Total</th>
+                    <th className="py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {cartLines.map(({ product, quantity }) => (
+                    <tr key={product.id} className="border-b border-gray-100">
+                      <td className="py-3">
+                        <p className="text-sm font-medium text-gray-900">{product.name}</p>
+                        <p className="text-xs text-gray-500">{product.sku}</p>
+                        {quantity > product.current_stock && (
+                          <p className="text-xs text-red-600">Only {product.current_stock} in stock</p>
+                        )}
+                      </td>
+                      <td className="py-3 text-sm text-gray-900 text-right">${product.selling_price.toFixed(2)}</td>
+                      <td className="py-3 text-center">
+                        <input
+                          type="number"
+                          min="0"
+                          value={quantity}
+                          onChange={(e) => updateQuantity(product.id, parseInt(e.target.value) || 0)}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded text-center"
+                        />
+                      </td>
+                      <td className="py-3 text-sm font-medium text-gray-900 text-right">
+                        ${lineTotal({ quantity, unit_price: product.selling_price }).toFixed(2)}
+                      </td>
+                      <td className="py-3 text-right">
+                        <button
+                          onClick={() => removeItem(product.id)}
+                          className="text-red-600 hover:text-red-800 p-1"
+                          aria-label={`Remove ${product.name}`}
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                  {deletedItems.map(item => (
+                    <tr key={item.product_id} className="border-b border-gray-100">
+                      <td className="py-3" colSpan={4}>
+                        <p className="text-sm font-medium text-gray-500">Deleted product</p>
+                        <p className="text-xs text-red-600">No longer in the catalog. Remove it to complete the sale.</p>
+                      </td>
+                      <td className="py-3 text-right">
+                        <button
+                          onClick={() => removeItem(item.product_id)}
+                          className="text-red-600 hover:text-red-800 p-1"
+                          aria-label="Remove deleted product"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="mt-6 flex items-center justify-between">
+            <div>
+              <p className="text-sm text-gray-600">{totals.units} item{totals.units === 1 ? '' : 's'}</p>
+              <p className="text-2xl font-bold text-gray-900">${totals.revenue.toFixed(2)}</p>
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setCart([])}
+                disabled={cart.length === 0 || completing}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition duration-200 disabled:opacity-50"
+              >
+                Clear
+              </button>
+              <button
+                onClick={handleComplete}
+                disabled={totals.units === 0 || overStocked || deletedItems.length > 0 || completing}
+                className="flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+              >
+                <Check size={16} />
+                <span>{completing ? 'Completing...' : 'Complete Sale'}</span>
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {unknownCode && <UnknownBarcode code={unknownCode} onDismiss={() => setUnknownCode(null)} />}
+    </div>
+  );
+};
+
+export default PointOfSale;
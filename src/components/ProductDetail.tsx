@@ -0,0 +1,553 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, Edit, RefreshCw, SlidersHorizontal, History, Truck, MapPin, ArrowRightLeft, Trash2 } from 'lucide-react';
+import {
+  productService,
+  stockMovementService,
+  stockAdjustmentService,
+  adjustmentSettingsService,
+  supplierService,
+  authService,
+  permissionService
+} from '../lib/localStorage';
+import { useDataRefresh } from '../hooks/useDataRefresh';
+import { sortLocations, getLocationMinimum, getLowStockLocations } from '../lib/stock';
+import { User, Product, Supplier, StockMovement, StockMovementType } from '../App';
+
+interface ProductDetailProps {
+  user: User;
+  productId: string;
+  onClose: () => void;
+  onEdit: (productId: string) => void;
+}
+
+const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  receipt: 'Receipt',
+  sale: 'Sale',
+  adjustment: 'Adjustment',
+  transfer: 'Transfer',
+  count_correction: 'Count Correction',
+};
+
+const RECENT_MOVEMENT_LIMIT = 10;
+
+const ProductDetail: React.FC<ProductDetailProps> = ({ user, productId, onClose, onEdit }) => {
+  const [product, setProduct] = useState<Product | null>(null);
+  const [supplier, setSupplier] = useState<Supplier | null>(null);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [userEmails, setUserEmails] = useState<Map<string, string>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [restockQuantity, setRestockQuantity] = useState(0);
+  const [adjustQuantity, setAdjustQuantity] = useState(0);
+  const [adjustReasonCode, setAdjustReasonCode] = useState('');
+  const [adjustNote, setAdjustNote] = useState('');
+  // Bin used by quick restock and adjust; empty means the primary location
+  const [stockLocation, setStockLocation] = useState('');
+  const [transfer, setTransfer] = useState({ from: '', to: '', quantity: 0 });
+  const [submitting, setSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchProductData = useCallback(async () => {
+    try {
+      const [productData, movementData, users] = await Promise.all([
+        productService.getById(productId),
+        stockMovementService.getByProduct(productId),
+        authService.getAllUsers(),
+      ]);
+      setProduct(productData);
+      setSupplier(productData?.supplier_id ? await supplierService.getById(productData.supplier_id) : null);
+      setMovements(movementData);
+      setUserEmails(new Map(users.map(u => [u.id, u.email])));
+    } catch (error) {
+      console.error('Error fetching product details:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [productId]);
+
+  useEffect(() => {
+    fetchProductData();
+  }, [fetchProductData]);
+
+  useDataRefresh(['product', 'stock_movement', 'supplier'], fetchProductData);
+
+  const canEditProduct = permissionService.can(user, 'product.edit');
+  const canReceive = permissionService.can(user, 'stock.receive');
+  const canAdjust = permissionService.can(user, 'stock.adjust');
+  const canTransfer = permissionService.can(user, 'stock.transfer');
+
+  const adjustmentReasons = adjustmentSettingsService.get().reasons;
+
+  // Permissions are enforced by the services; their errors show in the message banner.
+  // The change can return its own success message.
+  const runStockChange = async (change: () => Promise<unknown>) => {
+    setSubmitting(true);
+    setMessage(null);
+
+    try {
+      const result = await change();
+      await fetchProductData();
+      setMessage({ type: 'success', text: typeof result === 'string' ? result : 'Stock updated successfully!' });
+      return true;
+    } catch (error: unknown) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to update stock. Please try again.',
+      });
+      return false;
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const recordMovement = (type: StockMovementType, quantity: number, reason: string) =>
+    runStockChange(() => stockMovementService.record({
+      product_id: productId,
+      type,
+      quantity,
+      reason,
+      location: stockLocation || undefined,
+    }, user));
+
+  const handleRestock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await recordMovement('receipt', restockQuantity, 'Restock')) {
+      setRestockQuantity(0);
+    }
+  };
+
+  const handleAdjust = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await runStockChange(async () => {
+      const adjustment = await stockAdjustmentService.request({
+        product_id: productId,
+        quantity: adjustQuantity,
+        reason_code: adjustReasonCode,
+        note: adjustNote,
+        location: stockLocation || undefined,
+      }, user);
+      return adjustment.status === 'pending'
+        ? `This adjustment is worth $${adjustment.value.toFixed(2)} and has been sent to an admin for approval.`
+        : undefined;
+    })) {
+      setAdjustQuantity(0);
+      setAdjustReasonCode('');
+      setAdjustNote('');
+    }
+  };
+
+  const handleTransfer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await runStockChange(() => stockMovementService.transfer(
+      productId, transfer.from, transfer.to, transfer.quantity, user
+    ))) {
+      setTransfer({ from: '', to: '', quantity: 0 });
+    }
+  };
+
+  const handleLocationMinimum = (location: string, value: string) =>
+    runStockChange(() => productService.setLocationMinimum(
+      productId, location, value === '' ? undefined : Math.max(0, parseInt(value) || 0), user
+    ));
+
+  const handleRemoveLocation = (location: string) =>
+    runStockChange(() => productService.removeLocation(productId, location, user));
+
+  const getStockStatus = (product: Product) => {
+    if (product.current_stock === 0) {
+      return { color: 'bg-red-100 text-red-800', label: 'Out of Stock' };
+    } else if (product.current_stock <= product.min_stock_level) {
+      return { color: 'bg-yellow-100 text-yellow-800', label: 'Low Stock' };
+    } else {
+      return { color: 'bg-green-100 text-green-800', label: 'In Stock' };
+    }
+  };
+
+  const DetailRow = ({ label, value }: { label: string; value: React.ReactNode }) => (
+    <div className="flex justify-between items-start py-2 border-b border-gray-100 last:border-b-0">
+      <span className="text-sm text-gray-600">{label}</span>
+      <span className="text-sm font-medium text-gray-900 text-right ml-4">{value}</span>
+    </div>
+  );
+
+  const MovementList = ({ items, emptyText }: { items: StockMovement[]; emptyText: string }) =>
+    items.length > 0 ? (
+      <div className="divide-y divide-gray-100">
+        {items.map((movement) => (
+          <div key={movement.id} className="flex items-center justify-between py-3">
+            <div>
+              <p className="text-sm font-medium text-gray-900">
+                {MOVEMENT_LABELS[movement.type]}
+                <span className="text-gray-500 font-normal"> &middot; {movement.reason}</span>
+              </p>
+              <p className="text-xs text-gray-500">
+                {new Date(movement.created_at).toLocaleString()} by {userEmails.get(movement.user_id) || movement.user_id}
+                {movement.location && ` at ${movement.location}`}
+              </p>
+            </div>
+            <span className={`font-semibold ${movement.quantity > 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {movement.quantity > 0 ? '+' : ''}{movement.quantity}
+            </span>
+          </div>
+        ))}
+      </div>
+    ) : (
+      <p className="text-sm text-gray-500">{emptyText}</p>
+    );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
+      </div>
+    );
+  }
+
+  if (!product) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-500 mb-4">Product not found.</p>
+        <button
+          onClick={onClose}
+          className="bg-gray-500 hover:bg-gray-600 text-white px-6 py-2 rounded-lg transition duration-200"
+        >
+          Back to Inventory
+        </button>
+      </div>
+    );
+  }
+
+  const stockStatus = getStockStatus(product);
+  const margin = product.selling_price - product.cost_price;
+  const marginPercent = product.selling_price > 0 ? (margin / product.selling_price) * 100 : 0;
+  const restockHistory = movements.filter(m => m.type === 'receipt');
+  const locations = sortLocations(product);
+  const lowLocations = new Set(getLowStockLocations(product).map(l => l.location));
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between">
+        <div>
+          <button
+            onClick={onClose}
+            className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900 mb-3"
+          >
+            <ArrowLeft size={16} />
+            <span>Back to Inventory</span>
+          </button>
+          <div className="flex items-center space-x-3 mb-2">
+            <h1 className="text-3xl font-bold text-gray-900">{product.name}</h1>
+            <span className={`px-2 py-1 rounded-full text-xs font-medium ${stockStatus.color}`}>
+              {stockStatus.label}
+            </span>
+          </div>
+          <p className="text-gray-600">{product.description || 'No description'}</p>
+        </div>
+
+        {canEditProduct && (
+          <button
+            onClick={() => onEdit(product.id)}
+            className="flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg transition duration-200"
+          >
+            <Edit size={16} />
+            <span>Edit</span>
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-lg ${
+          message.type === 'success' ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'
+        }`}>
+          <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {message.text}
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-white rounded-xl shadow-md p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Product Information</h3>
+          <DetailRow label="Category" value={product.category} />
+          <DetailRow label="Brand" value={product.brand || '-'} />
+          <DetailRow label="SKU" value={product.sku} />
+          <DetailRow label="Barcode" value={product.barcode || '-'} />
+          <DetailRow
+            label="Supplier"
+            value={supplier ? `${supplier.name} (${supplier.lead_time_days} day lead time)` : '-'}
+          />
+          <DetailRow label="Primary Location" value={product.location} />
+        </div>
+
+        <div className="bg-white rounded-xl shadow-md p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Stock Levels</h3>
+          <DetailRow label="Current Stock" value={product.current_stock} />
+          <DetailRow label="Min Level" value={product.min_stock_level} />
+          <DetailRow label="Max Level" value={product.max_stock_level} />
+          <DetailRow label="Stock Value (cost)" value={`$${(product.current_stock * product.cost_price).toFixed(2)}`} />
+          <DetailRow label="Created" value={new Date(product.created_at).toLocaleString()} />
+          <DetailRow label="Last Updated" value={new Date(product.updated_at).toLocaleString()} />
+        </div>
+
+        <div className="bg-white rounded-xl shadow-md p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Pricing</h3>
+          <DetailRow label="Cost Price" value={`$${product.cost_price.toFixed(2)}`} />
+          <DetailRow label="Selling Price" value={`$${product.selling_price.toFixed(2)}`} />
+          <DetailRow
+            label="Margin"
+            value={
+              <span className={margin < 0 ? 'text-red-600' : 'text-green-600'}>
+                ${margin.toFixed(2)} ({marginPercent.toFixed(1)}%)
+              </span>
+            }
+          />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md p-6">
+        <div className="flex items-center space-x-2 mb-4">
+          <MapPin className="text-orange-500" size={20} />
+          <h3 className="text-lg font-semibold text-gray-900">Stock by Location</h3>
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-2">Location</th>
+              <th className="py-2 text-right">Quantity</th>
+              <th className="py-2 text-right">Min Level</th>
+              <th className="py-2 text-right">Status</th>
+              {canEditProduct && <th className="py-2"></th>}
+            </tr>
+          </thead>
+          <tbody>
+            {locations.map((location) => {
+              const isPrimary = location.location === product.location;
+              const minimum = getLocationMinimum(product, location);
+
+              return (
+                <tr key={location.location} className="border-b border-gray-100">
+                  <td className="py-2 font-medium text-gray-900">
+                    {location.location}
+                    {isPrimary && <span className="ml-2 text-xs text-gray-500">(primary)</span>}
+                  </td>
+                  <td className="py-2 text-right">{location.quantity}</td>
+                  <td className="py-2 text-right">
+                    {canEditProduct ? (
+                      <input
+                        key={`${location.location}-${location.min_stock_level}`}
+                        type="number"
+                        defaultValue={location.min_stock_level ?? ''}
+                        placeholder={isPrimary ? String(product.min_stock_level) : '-'}
+                        onBlur={(e) => {
+                          if (e.target.value !== String(location.min_stock_level ?? '')) {
+                            handleLocationMinimum(location.location, e.target.value);
+                          }
+                        }}
+                        className="w-20 px-2 py-1 border border-gray-300 rounded text-center"
+                        min="0"
+                        disabled={submitting}
+                      />
+                    ) : (
+                      minimum ?? '-'
+                    )}
+                  </td>
+                  <td className="py-2 text-right">
+                    {lowLocations.has(location.location) ? (
+                      <span className="text-yellow-600 font-medium">Low</span>
+                    ) : (
+                      <span className="text-green-600">OK</span>
+                    )}
+                  </td>
+                  {canEditProduct && (
+                    <td className="py-2 text-right">
+                      {!isPrimary && location.quantity === 0 && (
+                        <button
+                          onClick={() => handleRemoveLocation(location.location)}
+                          className="text-red-500 hover:text-red-600"
+                          disabled={submitting}
+                          title="Remove empty location"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      )}
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {canTransfer && (
+          <form onSubmit={handleTransfer} className="mt-6 pt-4 border-t">
+            <div className="flex items-center space-x-2 mb-3">
+              <ArrowRightLeft className="text-blue-500" size={16} />
+              <h4 className="font-medium text-gray-900">Transfer Between Locations</h4>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+              <select
+                value={transfer.from}
+                onChange={(e) => setTransfer({ ...transfer, from: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                disabled={submitting}
+              >
+                <option value="">From...</option>
+                {locations.filter(l => l.quantity > 0).map(l => (
+                  <option key={l.location} value={l.location}>{l.location} ({l.quantity})</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                list="product-locations"
+                value={transfer.to}
+                onChange={(e) => setTransfer({ ...transfer, to: e.target.value })}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                placeholder="To (existing or new)"
+                disabled={submitting}
+              />
+              <input
+                type="number"
+                value={transfer.quantity}
+                onChange={(e) => setTransfer({ ...transfer, quantity: Math.max(0, parseInt(e.target.value) || 0) })}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                min="0"
+                disabled={submitting}
+              />
+              <button
+                type="submit"
+                disabled={submitting || !transfer.from || !transfer.to.trim() || transfer.quantity === 0}
+                className="bg-blue-500 hover:bg-blue-600 text-white px-4 py-2 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Transfer
+              </button>
+            </div>
+          </form>
+        )}
+
+        <datalist id="product-locations">
+          {locations.map(l => <option key={l.location} value={l.location} />)}
+        </datalist>
+      </div>
+
+      {(canReceive || canAdjust) && (
+        <div className="flex items-center space-x-3">
+          <label className="text-sm font-medium text-gray-700">Restock / adjust at location:</label>
+          <input
+            type="text"
+            list="product-locations"
+            value={stockLocation}
+            onChange={(e) => setStockLocation(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+            placeholder={product.location}
+            disabled={submitting}
+          />
+        </div>
+      )}
+
+      {(canReceive || canAdjust) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {canReceive && (
+            <form onSubmit={handleRestock} className="bg-white rounded-xl shadow-md p-6">
+              <div className="flex items-center space-x-2 mb-4">
+                <RefreshCw className="text-orange-500" size={20} />
+                <h3 className="text-lg font-semibold text-gray-900">Quick Restock</h3>
+              </div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Units received</label>
+              <div className="flex space-x-2">
+                <input
+                  type="number"
+                  value={restockQuantity}
+                  onChange={(e) => setRestockQuantity(Math.max(0, parseInt(e.target.value) || 0))}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                  min="0"
+                  disabled={submitting}
+                />
+                <button
+                  type="submit"
+                  disabled={submitting || restockQuantity === 0}
+                  className="bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Restock
+                </button>
+              </div>
+            </form>
+          )}
+
+          {canAdjust && (
+            <form onSubmit={handleAdjust} className="bg-white rounded-xl shadow-md p-6">
+              <div className="flex items-center space-x-2 mb-4">
+                <SlidersHorizontal className="text-teal-500" size={20} />
+                <h3 className="text-lg font-semibold text-gray-900">Adjust Stock</h3>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Change (+/-)</label>
+                  <input
+                    type="number"
+                    value={adjustQuantity}
+                    onChange={(e) => setAdjustQuantity(parseInt(e.target.value) || 0)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                    disabled={submitting}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+                  <select
+                    value={adjustReasonCode}
+                    onChange={(e) => setAdjustReasonCode(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                    disabled={submitting}
+                  >
+                    <option value="">Choose a reason</option>
+                    {adjustmentReasons.map(reason => (
+                      <option key={reason.code} value={reason.code}>{reason.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="flex space-x-2 mt-2">
+                <input
+                  type="text"
+                  value={adjustNote}
+                  onChange={(e) => setAdjustNote(e.target.value)}
+                  className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                  placeholder="Note (optional)"
+                  disabled={submitting}
+                />
+                <button
+                  type="submit"
+                  disabled={submitting || adjustQuantity === 0 || !adjustReasonCode}
+                  className="bg-teal-500 hover:bg-teal-600 text-white px-4 py-2 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Apply
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-xl shadow-md p-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <History className="text-blue-500" size={20} />
+            <h3 className="text-lg font-semibold text-gray-900">Recent Stock Changes</h3>
+          </div>
+          <MovementList
+            items={movements.slice(0, RECENT_MOVEMENT_LIMIT)}
+            emptyText="No stock changes recorded yet."
+          />
+        </div>
+
+        <div className="bg-white rounded-xl shadow-md p-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <Truck className="text-green-500" size={20} />
+            <h3 className="text-lg font-semibold text-gray-900">Restock History</h3>
+          </div>
+          <MovementList items={restockHistory} emptyText="This product has not been restocked yet." />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductDetail;
@@ -0,0 +1,257 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { supplierService } from '../lib/localStorage';
+import {
+  PRODUCT_CATEGORIES,
+  NUMERIC_PRODUCT_FIELDS,
+  ProductFormData,
+  generateSKU
+} from '../lib/productForm';
+import { ProductFieldErrors, validateProduct } from '../lib/validation';
+import { Supplier } from '../App';
+
+interface ProductFormProps {
+  formData: ProductFormData;
+  errors: ProductFieldErrors;
+  onChange: (formData: ProductFormData) => void;
+  // Stock is changed through the movement ledger once a product exists
+  stockLocked?: boolean;
+}
+
+const inputClass = (error?: string) =>
+  `w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent ${
+    error ? 'border-red-400' : 'border-gray-300'
+  }`;
+
+// Warnings don't stop saving, and give way to an error on the same field
+const FieldError = ({ error, warning }: { error?: string; warning?: string }) =>
+  error ? <p className="mt-1 text-xs text-red-600">{error}</p>
+    : warning ? <p className="mt-1 text-xs text-yellow-700">{warning}</p>
+    : null;
+
+const ProductForm: React.FC<ProductFormProps> = ({ formData, errors, onChange, stockLocked = false }) => {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const { warnings } = useMemo(() => validateProduct(formData), [formData]);
+
+  useEffect(() => {
+    supplierService.getAll()
+      .then(setSuppliers)
+      .catch(error => console.error('Error fetching suppliers:', error));
+  }, []);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    onChange({
+      ...formData,
+      [name]: NUMERIC_PRODUCT_FIELDS.includes(name)
+        ? parseFloat(value) || 0
+        : value
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {/* Basic Information */}
+      <div className="space-y-6">
+        <h3 className="text-lg font-semibold text-gray-900 border-b pb-2">Basic Information</h3>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Product Name *</label>
+          <input
+            type="text"
+            name="name"
+            value={formData.name}
+            onChange={handleInputChange}
+            className={inputClass(errors.name)}
+            required
+          />
+          <FieldError error={errors.name} warning={warnings.name} />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+          <textarea
+            name="description"
+            value={formData.description}
+            onChange={handleInputChange}
+            rows={3}
+            className={inputClass(errors.description)}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Category *</label>
+          <select
+            name="category"
+            value={formData.category}
+            onChange={handleInputChange}
+            className={inputClass(errors.category)}
+            required
+          >
+            <option value="">Select Category</option>
+            {PRODUCT_CATEGORIES.map(cat => (
+              <option key={cat} value={cat}>{cat}</option>
+            ))}
+          </select>
+          <FieldError error={errors.category} warning={warnings.category} />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Brand</label>
+          <input
+            type="text"
+            name="brand"
+            value={formData.brand}
+            onChange={handleInputChange}
+            className={inputClass(errors.brand)}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">SKU</label>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              name="sku"
+              value={formData.sku}
+              onChange={handleInputChange}
+              className={`flex-1 ${inputClass(errors.sku)}`}
+              placeholder="Leave empty to auto-generate"
+            />
+            <button
+              type="button"
+              onClick={() => onChange({ ...formData, sku: generateSKU(formData.category) })}
+              className="px-3 py-2 bg-gray-100 hover:bg-gray-200 border border-gray-300 rounded-lg text-sm"
+            >
+              Generate
+            </button>
+          </div>
+          <FieldError error={errors.sku} warning={warnings.sku} />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Barcode</label>
+          <input
+            type="text"
+            name="barcode"
+            value={formData.barcode}
+            onChange={handleInputChange}
+            className={inputClass(errors.barcode)}
+          />
+          <FieldError error={errors.barcode} warning={warnings.barcode} />
+        </div>
+      </div>
+
+      {/* Stock & Pricing */}
+      <div className="space-y-6">
+        <h3 className="text-lg font-semibold text-gray-900 border-b pb-2">Stock & Pricing</h3>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Current Stock *</label>
+          <input
+            type="number"
+            name="current_stock"
+            value={formData.current_stock}
+            onChange={handleInputChange}
+            className={`${inputClass(errors.current_stock)} disabled:bg-gray-100 disabled:text-gray-500`}
+            min="0"
+            required
+            disabled={stockLocked}
+          />
+          {stockLocked && (
+            <p className="mt-1 text-xs text-gray-500">Use Restock to change stock so the change is recorded.</p>
+          )}
+          <FieldError error={errors.current_stock} warning={warnings.current_stock} />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Minimum Stock Level *</label>
+          <input
+            type="number"
+            name="min_stock_level"
+            value={formData.min_stock_level}
+            onChange={handleInputChange}
+            className={inputClass(errors.min_stock_level)}
+            min="0"
+            required
+          />
+          <FieldError error={errors.min_stock_level} warning={warnings.min_stock_level} />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Maximum Stock Level</label>
+          <input
+            type="number"
+            name="max_stock_level"
+            value={formData.max_stock_level}
+            onChange={handleInputChange}
+            className={inputClass(errors.max_stock_level)}
+            min="0"
+          />
+          <FieldError error={errors.max_stock_level} warning={warnings.max_stock_level} />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Cost Price *</label>
+          <input
+            type="number"
+            name="cost_price"
+            value={formData.cost_price}
+            onChange={handleInputChange}
+            className={inputClass(errors.cost_price)}
+            step="0.01"
+            min="0"
+            required
+          />
+          <FieldError error={errors.cost_price} warning={warnings.cost_price} />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Selling Price *</label>
+          <input
+            type="number"
+            name="selling_price"
+            value={formData.selling_price}
+            onChange={handleInputChange}
+            className={inputClass(errors.selling_price)}
+            step="0.01"
+            min="0"
+            required
+          />
+          <FieldError error={errors.selling_price} warning={warnings.selling_price} />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Supplier</label>
+          <select
+            name="supplier_id"
+            value={formData.supplier_id}
+            onChange={handleInputChange}
+            className={inputClass(errors.supplier_id)}
+          >
+            <option value="">No Supplier</option>
+            {suppliers.map(supplier => (
+              <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+            ))}
+          </select>
+          <FieldError error={errors.supplier_id} warning={warnings.supplier_id} />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Location *</label>
+          <input
+            type="text"
+            name="location"
+            value={formData.location}
+            onChange={handleInputChange}
+            className={inputClass(errors.location)}
+            placeholder="e.g., A1-B2, Aisle 3 Shelf 2"
+            required
+          />
+          <FieldError error={errors.location} warning={warnings.location} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProductForm;
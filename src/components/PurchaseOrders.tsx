@@ -0,0 +1,441 @@
+import React, { useState, useEffect } from 'react';
+import { ClipboardList, Send, XCircle, PackageCheck, Tag, ScanLine } from 'lucide-react';
+import { productService, purchaseOrderService, supplierService, permissionService } from '../lib/localStorage';
+import { useDataRefresh } from '../hooks/useDataRefresh';
+import { useBarcodeScanner } from '../hooks/useBarcodeScanner';
+import UnknownBarcode from './UnknownBarcode';
+import { LabelRequest } from '../lib/labels';
+import { User, Product, Supplier, PurchaseOrder, PurchaseOrderStatus } from '../App';
+
+interface PurchaseOrdersProps {
+  user: User;
+  onPrintLabels: (title: string, requests: LabelRequest[]) => void;
+}
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, { color: string; label: string }> = {
+  draft: { color: 'bg-gray-100 text-gray-800', label: 'Draft' },
+  sent: { color: 'bg-blue-100 text-blue-800', label: 'Sent' },
+  partially_received: { color: 'bg-yellow-100 text-yellow-800', label: 'Partially Received' },
+  received: { color: 'bg-green-100 text-green-800', label: 'Received' },
+  cancelled: { color: 'bg-red-100 text-red-800', label: 'Cancelled' },
+};
+
+const PurchaseOrders: React.FC<PurchaseOrdersProps> = ({ user, onPrintLabels }) => {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [products, setProducts] = useState<Map<string, Product>>(new Map());
+  const [suppliers, setSuppliers] = useState<Map<string, Supplier>>(new Map());
+  const [statusFilter, setStatusFilter] = useState<'open' | PurchaseOrderStatus | 'all'>('open');
+  const [receiving, setReceiving] = useState<Record<string, Record<string, number>>>({});
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  // One label per unit of the last delivery received, offered with its success message
+  const [receivedLabels, setReceivedLabels] = useState<{ title: string; requests: LabelRequest[] } | null>(null);
+  // The order whose delivery is being counted by scanning, if any
+  const [scanningOrderId, setScanningOrderId] = useState<string | null>(null);
+  const [lastScannedId, setLastScannedId] = useState<string | null>(null);
+  const [unknownCode, setUnknownCode] = useState<string | null>(null);
+  const [unlistedScan, setUnlistedScan] = useState<{ code: string; productName: string; poNumber: string } | null>(null);
+
+  const canEditDrafts = permissionService.can(user, 'po.create');
+  const canApproveOrders = permissionService.can(user, 'po.approve');
+  const canReceiveOrders = permissionService.can(user, 'po.receive');
+
+  useEffect(() => {
+    fetchOrders();
+  }, []);
+
+  useDataRefresh(['purchase_order', 'product', 'supplier'], () => fetchOrders());
+
+  const fetchOrders = async () => {
+    try {
+      const [orderData, productData, supplierData] = await Promise.all([
+        purchaseOrderService.getAll(),
+        productService.getAll(),
+        supplierService.getAll(),
+      ]);
+      setSuppliers(new Map(supplierData.map(s => [s.id, s])));
+      setOrders(orderData.sort((a, b) => b.created_at.localeCompare(a.created_at)));
+      setProducts(new Map(productData.map(p => [p.id, p])));
+    } catch (error) {
+      console.error('Error fetching purchase orders:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (orderId: string, action: () => Promise<unknown>, successText: string) => {
+    setBusyId(orderId);
+    setMessage(null);
+    setReceivedLabels(null);
+
+    try {
+      await action();
+      await fetchOrders();
+      setMessage({ type: 'success', text: successText });
+    } catch (error: unknown) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Something went wrong. Please try again.',
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReceive = (order: PurchaseOrder) => {
+    // Default each line to its full outstanding quantity
+    const quantities = receiving[order.id] || Object.fromEntries(
+      order.lines.map(l => [l.product_id, l.quantity_ordered - l.quantity_received])
+    );
+
+    runAction(
+      order.id,
+      async () => {
+        await purchaseOrderService.receive(order.id, quantities, user);
+        setReceiving(prev => {
+          const next = { ...prev };
+          delete next[order.id];
+          return next;
+        });
+        if (scanningOrderId === order.id) stopScanning();
+        setReceivedLabels({
+          title: `Received on ${order.po_number}`,
+          requests: Object.entries(quantities)
+            .filter(([, quantity]) => quantity > 0)
+            .map(([product_id, quantity]) => ({ product_id, copies: quantity })),
+        });
+      },
+      `Stock received on ${order.po_number}.`
+    );
+  };
+
+  const setReceiveQuantity = (order: PurchaseOrder, productId: string, quantity: number) => {
+    setReceiving(prev => ({
+      ...prev,
+      [order.id]: {
+        ...Object.fromEntries(order.lines.map(l => [l.product_id, l.quantity_ordered - l.quantity_received])),
+        ...prev[order.id],
+        [productId]: Math.max(0, quantity),
+      },
+    }));
+  };
+
+  // Scanning counts the delivery from zero, so every line starts at nothing received
+  const startScanning = (order: PurchaseOrder) => {
+    setScanningOrderId(order.id);
+    setLastScannedId(null);
+    setReceiving(prev => ({
+      ...prev,
+      [order.id]: Object.fromEntries(order.lines.map(l => [l.product_id, 0])),
+    }));
+  };
+
+  const stopScanning = () => {
+    setScanningOrderId(null);
+    setLastScannedId(null);
+    setUnknownCode(null);
+    setUnlistedScan(null);
+  };
+
+  // Each scan receives one more unit of that line, up to what is outstanding
+  const handleScan = async (code: string) => {
+    const order = orders.find(o => o.id === scanningOrderId);
+    // Received in full or cancelled on another terminal since scanning started
+    if (!order || !['sent', 'partially_received'].includes(order.status)) {
+      stopScanning();
+      return;
+    }
+
+    try {
+      const product = await productService.findByCode(code);
+      if (!product) {
+        setUnlistedScan(null);
+        setUnknownCode(code);
+        return;
+      }
+
+      const line = order.lines.find(l => l.product_id === product.id);
+      if (!line) {
+        setUnknownCode(null);
+        setUnlistedScan({ code, productName: product.name, poNumber: order.po_number });
+        return;
+      }
+
+      setUnknownCode(null);
+      setUnlistedScan(null);
+      setLastScannedId(product.id);
+
+      const outstanding = line.quantity_ordered - line.quantity_received;
+      if ((receiving[order.id]?.[product.id] ?? 0) >= outstanding) {
+        setMessage({
+          type: 'error',
+          text: `All ${outstanding} outstanding of ${product.name} on ${order.po_number} have already been scanned.`,
+        });
+        return;
+      }
+      setMessage(null);
+      // Read the latest count, as scans can arrive faster than the screen updates
+      setReceiving(prev => ({
+        ...prev,
+        [order.id]: {
+          ...prev[order.id],
+          [product.id]: Math.min((prev[order.id]?.[product.id] ?? 0) + 1, outstanding),
+        },
+      }));
+    } catch (error) {
+      console.error('Error looking up scanned code:', error);
+    }
+  };
+
+  // Scans only count towards a delivery while one is being scanned; otherwise
+  // they fall through to the app-wide product lookup
+  useBarcodeScanner(handleScan, canReceiveOrders && scanningOrderId !== null);
+
+  const filteredOrders = orders.filter(order => {
+    if (statusFilter === 'all') return true;
+    if (statusFilter === 'open') return ['draft', 'sent', 'partially_received'].includes(order.status);
+    return order.status === statusFilter;
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Purchase Orders</h1>
+        <p className="text-gray-600">Send orders to suppliers and receive stock as it arrives.</p>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md p-6 flex items-center justify-between">
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+        >
+          <option value="open">Open Orders</option>
+          <option value="all">All Orders</option>
+          {Object.entries(STATUS_STYLES).map(([status, style]) => (
+            <option key={status} value={status}>{style.label}</option>
+          ))}
+        </select>
+        <div className="text-sm text-gray-600 flex items-center">
+          <ClipboardList size={16} className="mr-2" />
+          {filteredOrders.length} purchase orders
+        </div>
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-lg flex items-center justify-between ${
+          message.type === 'success' ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'
+        }`}>
+          <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {message.text}
+          </p>
+          {message.type === 'success' && receivedLabels && receivedLabels.requests.length > 0 && (
+            <button
+              onClick={() => onPrintLabels(receivedLabels.title, receivedLabels.requests)}
+              className="flex items-center space-x-1 text-sm font-medium text-green-700 hover:underline"
+            >
+              <Tag size={14} />
+              <span>Print labels</span>
+            </button>
+          )}
+        </div>
+      )}
+
+      {unknownCode && <UnknownBarcode code={unknownCode} onDismiss={() => setUnknownCode(null)} />}
+
+      {unlistedScan && (
+        <UnknownBarcode
+          code={unlistedScan.code}
+          notOn={{ productName: unlistedScan.productName, list: unlistedScan.poNumber }}
+          onDismiss={() => setUnlistedScan(null)}
+        />
+      )}
+
+      {filteredOrders.length === 0 && (
+        <div className="text-center py-12">
+          <ClipboardList size={48} className="mx-auto text-gray-400 mb-4" />
+          <p className="text-gray-500 text-lg">No purchase orders found. Create them from the Restock screen.</p>
+        </div>
+      )}
+
+      {filteredOrders.map((order) => {
+        const status = STATUS_STYLES[order.status];
+        const isBusy = busyId === order.id;
+        const canReceive = order.status === 'sent' || order.status === 'partially_received';
+        const canCancel = ['draft', 'sent', 'partially_received'].includes(order.status);
+        const total = order.lines.reduce((sum, l) => sum + l.quantity_ordered * l.cost_price, 0);
+        const supplier = suppliers.get(order.supplier_id);
+        const supplierName = supplier?.name || 'Unassigned supplier';
+        const belowMinimum = supplier && order.status === 'draft' && total < supplier.minimum_order_value;
+        const isScanning = scanningOrderId === order.id;
+        const lastScannedLine = isScanning ? order.lines.find(l => l.product_id === lastScannedId) : undefined;
+
+        return (
+          <div key={order.id} className="bg-white rounded-xl shadow-md p-6">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <div className="flex items-center space-x-3 mb-1">
+                  <h3 className="text-lg font-semibold text-gray-900">{order.po_number}</h3>
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${status.color}`}>
+                    {status.label}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600">
+                  Supplier: {supplierName}
+                  {supplier?.payment_terms && ` (${supplier.payment_terms})`} | Created {new Date(order.created_at).toLocaleDateString()}
+                  {order.sent_at && ` | Sent ${new Date(order.sent_at).toLocaleDateString()}`}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="text-lg font-semibold text-green-600">${total.toFixed(2)}</p>
+                {belowMinimum && (
+                  <p className="text-xs text-yellow-600">
+                    Below ${supplier.minimum_order_value.toFixed(2)} minimum order
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <table className="w-full text-sm mb-4">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2">Product</th>
+                  <th className="py-2 text-right">Ordered</th>
+                  <th className="py-2 text-right">Received</th>
+                  <th className="py-2 text-right">Unit Cost</th>
+                  <th className="py-2 text-right">Line Total</th>
+                  {canReceive && canReceiveOrders && <th className="py-2 text-right">Receive Now</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {order.lines.map((line) => {
+                  const product = products.get(line.product_id);
+                  const outstanding = line.quantity_ordered - line.quantity_received;
+
+                  return (
+                    <tr key={line.product_id} className="border-b border-gray-100">
+                      <td className="py-2">
+                        <p className="font-medium text-gray-900">{product?.name || 'Deleted product'}</p>
+                        <p className="text-xs text-gray-500">SKU: {product?.sku || '-'}</p>
+                      </td>
+                      <td className="py-2 text-right">
+                        {order.status === 'draft' && canEditDrafts ? (
+                          <input
+                            key={line.quantity_ordered}
+                            type="number"
+                            defaultValue={line.quantity_ordered}
+                            onBlur={(e) => parseInt(e.target.value) !== line.quantity_ordered && runAction(
+                              order.id,
+                              () => purchaseOrderService.updateDraftLine(order.id, line.product_id, Math.max(0, parseInt(e.target.value) || 0), user),
+                              `${order.po_number} updated.`
+                            )}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded text-center"
+                            min="0"
+                            disabled={isBusy}
+                          />
+                        ) : (
+                          line.quantity_ordered
+                        )}
+                      </td>
+                      <td className="py-2 text-right">{line.quantity_received}</td>
+                      <td className="py-2 text-right">${line.cost_price.toFixed(2)}</td>
+                      <td className="py-2 text-right">${(line.quantity_ordered * line.cost_price).toFixed(2)}</td>
+                      {canReceive && canReceiveOrders && (
+                        <td className="py-2 text-right">
+                          <input
+                            type="number"
+                            value={receiving[order.id]?.[line.product_id] ?? outstanding}
+                            onChange={(e) => setReceiveQuantity(order, line.product_id, parseInt(e.target.value) || 0)}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded text-center"
+                            min="0"
+                            max={outstanding}
+                            disabled={isBusy || outstanding === 0}
+                          />
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            {isScanning && (
+              <p className="flex items-center space-x-2 text-sm text-gray-600 mb-4">
+                <ScanLine size={16} className="text-orange-500" />
+                <span>
+                  {lastScannedLine
+                    ? `Scanned ${products.get(lastScannedLine.product_id)?.name}: ` +
+                      `${receiving[order.id]?.[lastScannedLine.product_id] ?? 0} of ` +
+                      `${lastScannedLine.quantity_ordered - lastScannedLine.quantity_received} outstanding`
+                    : 'Scan each unit in the delivery to receive it.'}
+                </span>
+              </p>
+            )}
+
+            {(canApproveOrders || canReceiveOrders) && (
+              <div className="flex justify-end space-x-3">
+                {canCancel && canApproveOrders && (
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Cancel ${order.po_number}? Anything not yet received will not be delivered.`)) {
+                        runAction(order.id, () => purchaseOrderService.cancel(order.id, user), `${order.po_number} cancelled.`);
+                      }
+                    }}
+                    disabled={isBusy}
+                    className="flex items-center space-x-2 bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+                  >
+                    <XCircle size={16} />
+                    <span>Cancel</span>
+                  </button>
+                )}
+                {order.status === 'draft' && canApproveOrders && (
+                  <button
+                    onClick={() => runAction(order.id, () => purchaseOrderService.send(order.id, user), `${order.po_number} sent to ${supplierName}.`)}
+                    disabled={isBusy || order.lines.length === 0}
+                    className="flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+                  >
+                    <Send size={16} />
+                    <span>Mark as Sent</span>
+                  </button>
+                )}
+                {canReceive && canReceiveOrders && (
+                  <button
+                    onClick={() => (isScanning ? stopScanning() : startScanning(order))}
+                    disabled={isBusy}
+                    className={`flex items-center space-x-2 px-4 py-2 rounded-lg transition duration-200 disabled:opacity-50 ${
+                      isScanning ? 'bg-orange-100 text-orange-700 hover:bg-orange-200' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                    }`}
+                  >
+                    <ScanLine size={16} />
+                    <span>{isScanning ? 'Stop Scanning' : 'Scan to Receive'}</span>
+                  </button>
+                )}
+                {canReceive && canReceiveOrders && (
+                  <button
+                    onClick={() => handleReceive(order)}
+                    disabled={isBusy}
+                    className="flex items-center space-x-2 bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+                  >
+                    <PackageCheck size={16} />
+                    <span>Receive</span>
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PurchaseOrders;
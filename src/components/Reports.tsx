@@ -1,7 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { BarChart3, TrendingUp, DollarSign, Package, Calendar, TrendingDown } from 'lucide-react';
-import { productService } from '../lib/localStorage';
-import { User, Product } from '../App';
+import { productService, saleService, stockMovementService, adjustmentSettingsService, permissionService } from '../lib/localStorage';
+import { useDataRefresh } from '../hooks/useDataRefresh';
+import { toCSV } from '../lib/csv';
+import { downloadFile, dateStamp } from '../lib/download';
+import { summarizeSales } from '../lib/sales';
+import { summarizeShrinkage } from '../lib/adjustments';
+import { User, Product, Sale, StockMovement } from '../App';
 
 interface ReportsProps {
   user: User;
@@ -14,22 +19,43 @@ interface ReportData {
   outOfStockCount: number;
   categoryBreakdown: { category: string; count: number; value: number }[];
   stockLevels: { level: string; count: number; percentage: number }[];
+  sales: Sale[];
+  movements: StockMovement[];
+  products: Product[];
 }
 
+// Periods the sales and shrinkage reports can cover, in days; 0 is all time
+const REPORT_PERIODS = [
+  { days: 7, label: 'Last 7 days' },
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 0, label: 'All time' },
+];
+
+const periodStart = (days: number) =>
+  days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : '';
+
 const Reports: React.FC<ReportsProps> = ({ user }) => {
   const [reportData, setReportData] = useState<ReportData | null>(null);
   const [loading, setLoading] = useState(true);
-  const [reportType, setReportType] = useState<'overview' | 'stock' | 'value'>('overview');
+  const [reportType, setReportType] = useState<'overview' | 'stock' | 'value' | 'sales' | 'shrinkage'>('overview');
+  const [period, setPeriod] = useState(30);
 
   useEffect(() => {
     fetchReportData();
   }, []);
 
+  useDataRefresh(['product', 'stock_movement', 'sale', 'settings'], () => fetchReportData());
+
   const fetchReportData = async () => {
     try {
       setLoading(true);
       
-      const products = await productService.getAll();
+      const [products, sales, movements] = await Promise.all([
+        productService.getAll(),
+        saleService.getAll(),
+        stockMovementService.getAll(),
+      ]);
 
       const totalProducts = products.length;
       const totalValue = products.reduce((sum, p) => sum + (p.current_stock * p.cost_price), 0);
@@ -68,7 +94,10 @@ const Reports: React.FC<ReportsProps> = ({ user }) => {
         lowStockCount,
         outOfStockCount,
         categoryBreakdown: categoryBreakdown.sort((a, b) => b.count - a.count),
-        stockLevels
+        stockLevels,
+        sales,
+        movements,
+        products
       });
     } catch (error) {
       console.error('Error fetching report data:', error);
@@ -77,25 +106,40 @@ const Reports: React.FC<ReportsProps> = ({ user }) => {
     }
   };
 
+  const since = periodStart(period);
+  const periodLabel = REPORT_PERIODS.find(p => p.days === period)?.label || '';
+  const salesSummary = reportData ? summarizeSales(reportData.sales, since) : null;
+  const shrinkageSummary = reportData
+    ? summarizeShrinkage(reportData.movements, reportData.products, adjustmentSettingsService.get().reasons, since)
+    : null;
+
   const exportToCSV = () => {
-    if (!reportData) return;
-
-    let csv = 'Category,Product Count,Inventory Value\n';
-    reportData.categoryBreakdown.forEach(cat => {
-      csv += `"${cat.category}",${cat.count},"$${cat.value.toFixed(2)}"\n`;
-    });
-    
-    csv += '\nStock Level,Count,Percentage\n';
-    reportData.stockLevels.forEach(level => {
-      csv += `"${level.level}",${level.count},"${level.percentage.toFixed(1)}%"\n`;
-    });
-
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `inventory-report-${new Date().toISOString().split('T')[0]}.csv`;
-    a.click();
+    if (!reportData || !salesSummary || !shrinkageSummary) return;
+
+    const csv = toCSV([
+      ['Category', 'Product Count', 'Inventory Value'],
+      ...reportData.categoryBreakdown.map(cat => [cat.category, cat.count, `$${cat.value.toFixed(2)}`]),
+      [],
+      ['Stock Level', 'Count', 'Percentage'],
+      ...reportData.stockLevels.map(level => [level.level, level.count, `${level.percentage.toFixed(1)}%`]),
+      [],
+      [`Sales (${periodLabel})`, 'SKU', 'Units Sold', 'Revenue', 'Cost of Goods Sold', 'Gross Profit'],
+      ...salesSummary.products.map(p => [
+        p.name,
+        p.sku,
+        p.units,
+        `$${p.revenue.toFixed(2)}`,
+        `$${p.cost_of_goods.toFixed(2)}`,
+        `$${(p.revenue - p.cost_of_goods).toFixed(2)}`,
+      ]),
+      ['Total', '', salesSummary.units, `$${salesSummary.revenue.toFixed(2)}`, `$${salesSummary.cost_of_goods.toFixed(2)}`, `$${salesSummary.grossProfit.toFixed(2)}`],
+      [],
+      [`Shrinkage (${periodLabel})`, 'Units Lost', 'Cost'],
+      ...shrinkageSummary.lines.map(line => [line.label, line.units, `$${line.cost.toFixed(2)}`]),
+      ['Total', shrinkageSummary.units, `$${shrinkageSummary.cost.toFixed(2)}`],
+    ]);
+
+    downloadFile(csv, `inventory-report-${dateStamp()}.csv`, 'text/csv;charset=utf-8');
   };
 
   const StatCard = ({ title, value, icon: Icon, color, prefix = '', suffix = '' }: {
@@ -121,6 +165,19 @@ const Reports: React.FC<ReportsProps> = ({ user }) => {
     </div>
   );
 
+  if (!permissionService.can(user, 'reports.view')) {
+    return (
+      <div className="space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Inventory Reports</h1>
+        </div>
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+          <p className="text-yellow-800">You don't have permission to view reports. Please contact your admin if you need access.</p>
+        </div>
+      </div>
+    );
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -179,6 +236,26 @@ const Reports: React.FC<ReportsProps> = ({ user }) => {
           >
             Value Analysis
           </button>
+          <button
+            onClick={() => setReportType('sales')}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+              reportType === 'sales'
+                ? 'bg-orange-500 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            Sales
+          </button>
+          <button
+            onClick={() => setReportType('shrinkage')}
+            className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+              reportType === 'shrinkage'
+                ? 'bg-orange-500 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            Shrinkage
+          </button>
         </div>
       </div>
 
@@ -311,6 +388,141 @@ const Reports: React.FC<ReportsProps> = ({ user }) => {
         </div>
       )}
 
+      {(reportType === 'sales' || reportType === 'shrinkage') && (
+        <div className="flex justify-end">
+          <select
+            value={period}
+            onChange={(e) => setPeriod(Number(e.target.value))}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+          >
+            {REPORT_PERIODS.map(option => (
+              <option key={option.days} value={option.days}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {reportType === 'sales' && salesSummary && (
+        <>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            <StatCard
+              title="Revenue"
+              value={salesSummary.revenue}
+              icon={DollarSign}
+              color="bg-green-500"
+              prefix="$"
+            />
+            <StatCard
+              title="Cost of Goods Sold"
+              value={salesSummary.cost_of_goods}
+              icon={Package}
+              color="bg-blue-500"
+              prefix="$"
+            />
+            <StatCard
+              title="Gross Profit"
+              value={salesSummary.grossProfit}
+              icon={TrendingUp}
+              color="bg-orange-500"
+              prefix="$"
+            />
+            <StatCard
+              title="Units Sold"
+              value={salesSummary.units}
+              icon={BarChart3}
+              color="bg-purple-500"
+            />
+          </div>
+
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Sales by Product</h3>
+              <p className="text-sm text-gray-600">
+                {salesSummary.saleCount} sale{salesSummary.saleCount === 1 ? '' : 's'}
+                {salesSummary.grossMargin !== null && ` · ${salesSummary.grossMargin.toFixed(1)}% gross margin`}
+              </p>
+            </div>
+            {salesSummary.products.length > 0 ? (
+              <div className="space-y-4">
+                {salesSummary.products.map((product) => (
+                  <div key={product.product_id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                    <div>
+                      <p className="font-medium text-gray-900">{product.name}</p>
+                      <p className="text-sm text-gray-600">{product.sku} · {product.units} sold</p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-medium text-gray-900">${product.revenue.toFixed(2)}</p>
+                      <p className="text-sm text-gray-600">
+                        ${(product.revenue - product.cost_of_goods).toFixed(2)} profit
+                      </p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-gray-500">No sales in this period</p>
+            )}
+          </div>
+        </>
+      )}
+
+      {reportType === 'shrinkage' && shrinkageSummary && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            <StatCard
+              title="Shrinkage at Cost"
+              value={shrinkageSummary.cost}
+              icon={DollarSign}
+              color="bg-red-500"
+              prefix="$"
+            />
+            <StatCard
+              title="Units Lost"
+              value={shrinkageSummary.units}
+              icon={TrendingDown}
+              color="bg-yellow-500"
+            />
+            <StatCard
+              title="Shrinkage Rate"
+              value={salesSummary && salesSummary.cost_of_goods + shrinkageSummary.cost > 0
+                ? Number(((shrinkageSummary.cost / (salesSummary.cost_of_goods + shrinkageSummary.cost)) * 100).toFixed(1))
+                : 0}
+              icon={BarChart3}
+              color="bg-purple-500"
+              suffix="%"
+            />
+          </div>
+
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">Shrinkage by Reason</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              Adjustments with a shrinkage reason code and stock count corrections, at current cost. The rate is
+              shrinkage as a share of the stock that left through sales or shrinkage.
+            </p>
+            {shrinkageSummary.lines.length > 0 ? (
+              <div className="space-y-4">
+                {shrinkageSummary.lines.map((line) => (
+                  <div key={line.code} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                    <div>
+                      <p className="font-medium text-gray-900">{line.label}</p>
+                      <p className="text-sm text-gray-600">
+                        {line.units >= 0 ? `${line.units} units lost` : `${-line.units} units found`}
+                      </p>
+                    </div>
+                    <p className={`font-medium ${line.cost > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      ${Math.abs(line.cost).toFixed(2)}{line.cost < 0 && ' recovered'}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-gray-500">No shrinkage in this period</p>
+            )}
+          </div>
+        </>
+      )}
+
       {/* Export Options */}
       <div className="bg-white rounded-xl shadow-md p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Export Reports</h3>
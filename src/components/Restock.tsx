@@ -1,52 +1,215 @@
 import React, { useState, useEffect } from 'react';
-import { RefreshCw, AlertTriangle, Check } from 'lucide-react';
-import { productService } from '../lib/localStorage';
+import { AlertTriangle, Check, ChevronDown, ChevronUp, ClipboardList, ScanLine } from 'lucide-react';
+import {
+  productService,
+  purchaseOrderService,
+  supplierService,
+  stockMovementService,
+  reorderSettingsService,
+  permissionService,
+  OnOrderSummary
+} from '../lib/localStorage';
+import { useDataRefresh } from '../hooks/useDataRefresh';
+import { useBarcodeScanner } from '../hooks/useBarcodeScanner';
+import UnknownBarcode from './UnknownBarcode';
+import { LowStockMode, isLowStock, sortLocations, getLowStockLocations } from '../lib/stock';
+import { DEFAULT_LEAD_TIME_DAYS, DEFAULT_REORDER_PARAMETERS, ReorderParameters, ReorderSuggestion, suggestReorder } from '../lib/reorder';
 import { User, Product } from '../App';
 
 interface RestockProps {
   user: User;
+  onViewPurchaseOrders: () => void;
+  onCreateProduct: (barcode: string) => void;
 }
 
 interface RestockItem {
   product: Product;
+  suggestion: ReorderSuggestion;
   suggestedQuantity: number;
   actualQuantity: number;
+  // Added or counted by scanning; kept in the list even if it isn't low on stock
+  scanned?: boolean;
 }
 
-const Restock: React.FC<RestockProps> = ({ user }) => {
+const toRestockItem = (product: Product, suggestion: ReorderSuggestion): RestockItem => ({
+  product,
+  suggestion,
+  suggestedQuantity: suggestion.suggestedQuantity,
+  actualQuantity: suggestion.suggestedQuantity,
+});
+
+// Form values are strings so a field can be left empty to use the default
+type ParameterDraft = Record<keyof ReorderParameters, string>;
+
+const toParameterDraft = (overrides: Partial<ReorderParameters>): ParameterDraft => ({
+  service_level: overrides.service_level !== undefined ? `${Math.round(overrides.service_level * 1000) / 10}` : '',
+  history_days: overrides.history_days !== undefined ? `${overrides.history_days}` : '',
+  lead_time_days: overrides.lead_time_days !== undefined ? `${overrides.lead_time_days}` : '',
+  order_cost: overrides.order_cost !== undefined ? `${overrides.order_cost}` : '',
+  holding_rate: overrides.holding_rate !== undefined ? `${Math.round(overrides.holding_rate * 1000) / 10}` : '',
+});
+
+const fromParameterDraft = (draft: ParameterDraft): Partial<ReorderParameters> => {
+  const number = (value: string) => (value.trim() === '' ? undefined : Number(value));
+  const percent = (value: string) => (value.trim() === '' ? undefined : Number(value) / 100);
+  return {
+    service_level: percent(draft.service_level),
+    history_days: number(draft.history_days),
+    lead_time_days: number(draft.lead_time_days),
+    order_cost: number(draft.order_cost),
+    holding_rate: percent(draft.holding_rate),
+  };
+};
+
+interface ReorderParametersFormProps {
+  overrides: Partial<ReorderParameters>;
+  supplierLeadTime?: number;
+  onSave: (overrides: Partial<ReorderParameters>) => Promise<void>;
+}
+
+// Per-product overrides; empty fields use the defaults
+const ReorderParametersForm: React.FC<ReorderParametersFormProps> = ({ overrides, supplierLeadTime, onSave }) => {
+  const [draft, setDraft] = useState<ParameterDraft>(() => toParameterDraft(overrides));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (next: Partial<ReorderParameters>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await onSave(next);
+      setDraft(toParameterDraft(next));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the reorder parameters');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const fields: { key: keyof ReorderParameters; label: string; placeholder: string }[] = [
+    { key: 'service_level', label: 'Service level (%)', placeholder: `${DEFAULT_REORDER_PARAMETERS.service_level * 100}` },
+    { key: 'lead_time_days', label: 'Lead time (days)', placeholder: `${supplierLeadTime ?? DEFAULT_LEAD_TIME_DAYS}` },
+    { key: 'history_days', label: 'Sales history (days)', placeholder: `${DEFAULT_REORDER_PARAMETERS.history_days}` },
+    { key: 'order_cost', label: 'Cost per order ($)', placeholder: DEFAULT_REORDER_PARAMETERS.order_cost.toFixed(2) },
+    { key: 'holding_rate', label: 'Holding cost (% a year)', placeholder: `${DEFAULT_REORDER_PARAMETERS.holding_rate * 100}` },
+  ];
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200">
+      <p className="text-sm font-medium text-gray-700 mb-2">Reorder parameters for this product</p>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {fields.map(field => (
+          <div key={field.key}>
+            <label className="block text-xs text-gray-600 mb-1">{field.label}</label>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={draft[field.key]}
+              placeholder={field.placeholder}
+              onChange={(e) => setDraft({ ...draft, [field.key]: e.target.value })}
+              className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+              disabled={saving}
+            />
+          </div>
+        ))}
+      </div>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+      <div className="flex items-center space-x-3 mt-3">
+        <button
+          onClick={() => save(fromParameterDraft(draft))}
+          disabled={saving}
+          className="bg-orange-500 hover:bg-orange-600 text-white px-3 py-1 rounded-lg text-sm transition duration-200 disabled:opacity-50"
+        >
+          Save Parameters
+        </button>
+        {Object.keys(overrides).length > 0 && (
+          <button
+            onClick={() => save({})}
+            disabled={saving}
+            className="text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+          >
+            Use defaults
+          </button>
+        )}
+        <p className="text-xs text-gray-500">Empty fields use the default, or the supplier's lead time.</p>
+      </div>
+    </div>
+  );
+};
+
+const Restock: React.FC<RestockProps> = ({ user, onViewPurchaseOrders, onCreateProduct }) => {
   const [restockItems, setRestockItems] = useState<RestockItem[]>([]);
+  const [supplierNames, setSupplierNames] = useState<Map<string, string>>(new Map());
+  const [supplierLeadTimes, setSupplierLeadTimes] = useState<Map<string, number>>(new Map());
+  const [suggestions, setSuggestions] = useState<Map<string, ReorderSuggestion>>(new Map());
+  const [overrides, setOverrides] = useState<Record<string, Partial<ReorderParameters>>>({});
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+  const [onOrder, setOnOrder] = useState<Record<string, OnOrderSummary>>({});
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
-  const [updating, setUpdating] = useState<string | null>(null);
+  const [updating, setUpdating] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [lowStockMode, setLowStockMode] = useState<LowStockMode>('total');
+  const [lastScannedId, setLastScannedId] = useState<string | null>(null);
+  const [unknownCode, setUnknownCode] = useState<string | null>(null);
+  // A known product scanned before the restock data has it, e.g. while loading
+  const [unlistedScan, setUnlistedScan] = useState<{ code: string; productName: string } | null>(null);
+
+  const canCreateOrders = permissionService.can(user, 'po.create');
+  const canConfigure = permissionService.can(user, 'reorder.configure');
 
   useEffect(() => {
-    fetchRestockData();
-  }, []);
+    fetchRestockData(lowStockMode);
+  }, [lowStockMode]);
 
-  const fetchRestockData = async () => {
+  useDataRefresh(['product', 'stock_movement', 'purchase_order', 'supplier', 'settings'], () => fetchRestockData(lowStockMode));
+
+  const fetchRestockData = async (mode: LowStockMode) => {
+    // Only the first load shows the spinner; later refreshes, such as after
+    // saving reorder parameters, update the list in place so open forms stay open
     try {
-      setLoading(true);
-      
-      const products = await productService.getAll();
-      
-      // Filter products that need restocking
-      const needsRestock = products.filter(product => 
-        product.current_stock <= product.min_stock_level || product.current_stock === 0
+      const [products, onOrderData, suppliers, movements] = await Promise.all([
+        productService.getAll(),
+        purchaseOrderService.getOnOrder(),
+        supplierService.getAll(),
+        stockMovementService.getAll(),
+      ]);
+      const settings = reorderSettingsService.get();
+      const suppliersById = new Map(suppliers.map(s => [s.id, s]));
+      const productSuggestions = new Map(products.map(product => [
+        product.id,
+        suggestReorder(product, suppliersById.get(product.supplier_id), movements, onOrderData[product.id]?.quantity || 0, settings),
+      ]));
+      setOnOrder(onOrderData);
+      setSupplierNames(new Map(suppliers.map(s => [s.id, s.name])));
+      setSupplierLeadTimes(new Map(suppliers.map(s => [s.id, s.lead_time_days])));
+      setSuggestions(productSuggestions);
+      setOverrides(settings.overrides);
+
+      // At or below the reorder point, out of stock, or (per location) with a bin below its minimum
+      const needsRestock = products.filter(product =>
+        productSuggestions.get(product.id)?.needsReorder ||
+        (mode === 'location' && isLowStock(product, mode)) ||
+        product.current_stock === 0
       );
 
-      const items: RestockItem[] = needsRestock.map(product => {
-        const suggestedQuantity = Math.max(
-          product.max_stock_level - product.current_stock,
-          product.min_stock_level - product.current_stock
-        );
-        
-        return {
-          product,
-          suggestedQuantity: Math.max(suggestedQuantity, 10),
-          actualQuantity: suggestedQuantity > 0 ? suggestedQuantity : 10
-        };
-      });
+      const items = needsRestock.map(product => toRestockItem(product, productSuggestions.get(product.id)!));
 
-      setRestockItems(items);
+      // Keep quantities already edited, and scanned products, when the list is refreshed
+      setRestockItems(previous => [
+        ...items.map(item => {
+          const edited = previous.find(p => p.product.id === item.product.id);
+          return edited ? { ...item, actualQuantity: edited.actualQuantity, scanned: edited.scanned } : item;
+        }),
+        ...previous
+          .filter(p => p.scanned && !items.some(item => item.product.id === p.product.id))
+          .flatMap(p => {
+            const product = products.find(current => current.id === p.product.id);
+            const suggestion = productSuggestions.get(p.product.id);
+            return product && suggestion ? [{ ...toRestockItem(product, suggestion), actualQuantity: p.actualQuantity, scanned: true }] : [];
+          }),
+      ]);
     } catch (error) {
       console.error('Error fetching restock data:', error);
     } finally {
@@ -64,39 +227,111 @@ const Restock: React.FC<RestockProps> = ({ user }) => {
     );
   };
 
-  const handleRestock = async (productId: string) => {
-    if (user.role !== 'admin') {
-      alert('Only administrators can restock products.');
-      return;
-    }
+  // Each scan counts one unit. The first scan of a product replaces the
+  // suggested quantity, so a delivery can be counted by scanning every unit.
+  const handleScan = async (code: string) => {
+    try {
+      const product = await productService.findByCode(code);
+      if (!product) {
+        setUnlistedScan(null);
+        setUnknownCode(code);
+        return;
+      }
 
-    const item = restockItems.find(i => i.product.id === productId);
-    if (!item) return;
+      const suggestion = suggestions.get(product.id);
+      if (!suggestion) {
+        setUnknownCode(null);
+        setUnlistedScan({ code, productName: product.name });
+        return;
+      }
 
-    setUpdating(productId);
-    
-    try {
-      const newStock = item.product.current_stock + item.actualQuantity;
-      
-      await productService.update(productId, { 
-        current_stock: newStock
+      setUnknownCode(null);
+      setUnlistedScan(null);
+      setLastScannedId(product.id);
+      setRestockItems(items => {
+        const item = items.find(i => i.product.id === product.id);
+        const quantity = item?.scanned ? item.actualQuantity + 1 : 1;
+
+        return item
+          ? items.map(i => (i.product.id === product.id ? { ...i, actualQuantity: quantity, scanned: true } : i))
+          : [...items, { ...toRestockItem(product, suggestion), actualQuantity: quantity, scanned: true }];
       });
+      setSelectedIds(ids => new Set(ids).add(product.id));
+    } catch (error) {
+      console.error('Error looking up scanned code:', error);
+    }
+  };
+
+  // Only users who can order stock can build a restock by scanning; for
+  // anyone else scans fall through to the app-wide product lookup
+  useBarcodeScanner(handleScan, canCreateOrders);
+
+  const toggleSelected = (productId: string) => {
+    setSelectedIds(ids => {
+      const next = new Set(ids);
+      if (next.has(productId)) {
+        next.delete(productId);
+      } else {
+        next.add(productId);
+      }
+      return next;
+    });
+  };
 
-      // Remove item from restock list
-      setRestockItems(items => items.filter(i => i.product.id !== productId));
-      
+  const toggleExpanded = (productId: string) => {
+    setExpandedIds(ids => {
+      const next = new Set(ids);
+      if (next.has(productId)) {
+        next.delete(productId);
+      } else {
+        next.add(productId);
+      }
+      return next;
+    });
+  };
+
+  // Broadcasts don't reach the tab that sent them, so the list is refreshed
+  // here for the new suggestion to show straight away
+  const handleSaveOverrides = async (productId: string, productOverrides: Partial<ReorderParameters>) => {
+    const settings = await reorderSettingsService.setOverrides(productId, productOverrides, user);
+    setOverrides(settings.overrides);
+    await fetchRestockData(lowStockMode);
+  };
+
+  // Stock is not touched here; it only increases when the PO lines are received
+  const handleCreateOrders = async (productIds: string[]) => {
+    const items = restockItems
+      .filter(i => productIds.includes(i.product.id) && i.actualQuantity > 0)
+      .map(i => ({ product: i.product, quantity: i.actualQuantity }));
+    if (items.length === 0) return;
+
+    setUpdating(true);
+    setMessage(null);
+
+    try {
+      const orders = await purchaseOrderService.createDrafts(items, user);
+      setOnOrder(await purchaseOrderService.getOnOrder());
+      setSelectedIds(new Set());
+      setMessage(`Added ${items.length} item(s) to ${orders.length} draft purchase order(s).`);
     } catch (error) {
-      console.error('Error restocking product:', error);
-      alert('Failed to restock product. Please try again.');
+      console.error('Error creating purchase orders:', error);
+      alert(error instanceof Error ? error.message : 'Failed to create purchase orders. Please try again.');
     } finally {
-      setUpdating(null);
+      setUpdating(false);
     }
   };
 
-  const getUrgencyLevel = (product: Product) => {
+  const lastScanned = restockItems.find(i => i.product.id === lastScannedId);
+
+  // High priority once stock is into the safety stock, or below half the min level without sales to go on
+  const getUrgencyLevel = ({ product, suggestion }: RestockItem) => {
     if (product.current_stock === 0) {
       return { level: 'critical', color: 'bg-red-100 text-red-800', label: 'Critical - Out of Stock' };
-    } else if (product.current_stock <= product.min_stock_level * 0.5) {
+    } else if (
+      suggestion.basis === 'demand'
+        ? product.current_stock <= suggestion.safetyStock
+        : product.current_stock <= product.min_stock_level * 0.5
+    ) {
       return { level: 'high', color: 'bg-orange-100 text-orange-800', label: 'High Priority' };
     } else {
       return { level: 'medium', color: 'bg-yellow-100 text-yellow-800', label: 'Medium Priority' };
@@ -116,75 +351,173 @@ const Restock: React.FC<RestockProps> = ({ user }) => {
       <div>
         <h1 className="text-3xl font-bold text-gray-900 mb-2">Restock Management</h1>
         <p className="text-gray-600">
-          Manage inventory restocking for products with low or depleted stock levels.
+          Restock suggestions come from each product's recent sales, its supplier's lead time and a target service level.
         </p>
+        {canCreateOrders && (
+          <p className="flex items-center space-x-2 text-sm text-gray-600 mt-2">
+            <ScanLine size={16} className="text-orange-500" />
+            <span>
+              {lastScanned
+                ? `Scanned ${lastScanned.product.name}: ${lastScanned.actualQuantity} to restock`
+                : 'Scan a barcode to add one unit of that product to the restock.'}
+            </span>
+          </p>
+        )}
       </div>
 
+      {unknownCode && (
+        <UnknownBarcode
+          code={unknownCode}
+          onCreate={permissionService.can(user, 'product.create') ? () => onCreateProduct(unknownCode) : undefined}
+          onDismiss={() => setUnknownCode(null)}
+        />
+      )}
+
+      {unlistedScan && (
+        <UnknownBarcode
+          code={unlistedScan.code}
+          notOn={{ productName: unlistedScan.productName, list: 'the restock list' }}
+          onDismiss={() => setUnlistedScan(null)}
+        />
+      )}
+
+      {message && (
+        <div className="p-4 rounded-lg bg-green-50 border border-green-200 flex items-center justify-between">
+          <p className="text-sm text-green-600">{message}</p>
+          <button onClick={onViewPurchaseOrders} className="text-sm font-medium text-green-700 hover:underline">
+            View purchase orders
+          </button>
+        </div>
+      )}
+
       {restockItems.length === 0 ? (
         <div className="bg-white rounded-xl shadow-md p-12 text-center">
           <Check size={48} className="mx-auto text-green-500 mb-4" />
           <h3 className="text-xl font-semibold text-gray-900 mb-2">All Products Well Stocked</h3>
           <p className="text-gray-600">
-            Great job! All your products are currently above their minimum stock levels.
+            Great job! All your products are currently above their reorder points.
           </p>
         </div>
       ) : (
         <div className="bg-white rounded-xl shadow-md p-6">
-          <div className="flex items-center space-x-3 mb-6">
-            <AlertTriangle className="text-orange-500" size={24} />
-            <h2 className="text-xl font-semibold text-gray-900">
-              Products Requiring Restock ({restockItems.length})
-            </h2>
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center space-x-3">
+              <AlertTriangle className="text-orange-500" size={24} />
+              <h2 className="text-xl font-semibold text-gray-900">
+                Products Requiring Restock ({restockItems.length})
+              </h2>
+            </div>
+
+            <select
+              value={lowStockMode}
+              onChange={(e) => setLowStockMode(e.target.value as LowStockMode)}
+              className="ml-auto mr-4 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+            >
+              <option value="total">Low Stock by Total</option>
+              <option value="location">Low Stock per Location</option>
+            </select>
+
+            {canCreateOrders && (
+              <button
+                onClick={() => handleCreateOrders(Array.from(selectedIds))}
+                disabled={updating || selectedIds.size === 0}
+                className="flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <ClipboardList size={16} />
+                <span>Create Purchase Orders ({selectedIds.size})</span>
+              </button>
+            )}
           </div>
 
-          {user.role !== 'admin' && (
+          {!canCreateOrders && (
             <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
               <p className="text-sm text-yellow-800">
-                Note: Only administrators can perform restock operations. Contact your admin to restock these items.
+                Note: Your role can't order stock. Contact your admin or a manager to restock these items.
               </p>
             </div>
           )}
 
           <div className="space-y-4">
             {restockItems.map((item) => {
-              const urgency = getUrgencyLevel(item.product);
-              const isUpdating = updating === item.product.id;
+              const urgency = getUrgencyLevel(item);
+              const { suggestion } = item;
+              const expanded = expandedIds.has(item.product.id);
+              const itemOnOrder = onOrder[item.product.id];
+              const lowLocations = new Set(getLowStockLocations(item.product).map(l => l.location));
               
               return (
                 <div key={item.product.id} className="border border-gray-200 rounded-lg p-6">
                   <div className="flex items-start justify-between mb-4">
+                    {canCreateOrders && (
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(item.product.id)}
+                        onChange={() => toggleSelected(item.product.id)}
+                        className="mt-2 mr-4 h-4 w-4 accent-orange-500"
+                        disabled={updating}
+                      />
+                    )}
                     <div className="flex-1">
                       <div className="flex items-center space-x-3 mb-2">
                         <h3 className="text-lg font-semibold text-gray-900">{item.product.name}</h3>
                         <span className={`px-2 py-1 rounded-full text-xs font-medium ${urgency.color}`}>
                           {urgency.label}
                         </span>
+                        {itemOnOrder && (
+                          <span className="px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                            On order: {itemOnOrder.quantity} ({itemOnOrder.poNumbers.join(', ')})
+                          </span>
+                        )}
                       </div>
                       <p className="text-sm text-gray-600 mb-1">
                         Brand: {item.product.brand} | SKU: {item.product.sku}
                       </p>
                       <p className="text-sm text-gray-600">
-                        Location: {item.product.location} | Supplier: {item.product.supplier}
+                        Location: {item.product.location} | Supplier: {supplierNames.get(item.product.supplier_id) || 'None'}
                       </p>
+                      {item.product.stock_locations.length > 1 && (
+                        <p className="text-sm text-gray-600">
+                          Stock by location:{' '}
+                          {sortLocations(item.product).map((l, i) => (
+                            <span
+                              key={l.location}
+                              className={lowLocations.has(l.location) ? 'text-yellow-600 font-medium' : ''}
+                            >
+                              {i > 0 && ' | '}{l.location}: {l.quantity}
+                            </span>
+                          ))}
+                        </p>
+                      )}
                     </div>
                   </div>
 
-                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+                  <div className="grid grid-cols-1 md:grid-cols-5 gap-4 mb-4">
                     <div className="bg-gray-50 rounded-lg p-3">
                       <p className="text-xs text-gray-600 mb-1">Current Stock</p>
                       <p className="text-lg font-semibold text-gray-900">{item.product.current_stock}</p>
                     </div>
-                    
+
                     <div className="bg-gray-50 rounded-lg p-3">
-                      <p className="text-xs text-gray-600 mb-1">Min Level</p>
-                      <p className="text-lg font-semibold text-gray-900">{item.product.min_stock_level}</p>
+                      <p className="text-xs text-gray-600 mb-1">
+                        {suggestion.basis === 'demand' ? 'Reorder Point' : 'Min Level'}
+                      </p>
+                      <p className="text-lg font-semibold text-gray-900">{suggestion.reorderPoint}</p>
+                    </div>
+
+                    <div className="bg-gray-50 rounded-lg p-3">
+                      <p className="text-xs text-gray-600 mb-1">Safety Stock</p>
+                      <p className="text-lg font-semibold text-gray-900">
+                        {suggestion.basis === 'demand' ? suggestion.safetyStock : '—'}
+                      </p>
                     </div>
-                    
+
                     <div className="bg-gray-50 rounded-lg p-3">
-                      <p className="text-xs text-gray-600 mb-1">Max Level</p>
-                      <p className="text-lg font-semibold text-gray-900">{item.product.max_stock_level}</p>
+                      <p className="text-xs text-gray-600 mb-1">Economic Order Qty</p>
+                      <p className="text-lg font-semibold text-gray-900">
+                        {suggestion.economicOrderQuantity > 0 ? suggestion.economicOrderQuantity : '—'}
+                      </p>
                     </div>
-                    
+
                     <div className="bg-gray-50 rounded-lg p-3">
                       <p className="text-xs text-gray-600 mb-1">Cost per Unit</p>
                       <p className="text-lg font-semibold text-gray-900">${item.product.cost_price.toFixed(2)}</p>
@@ -201,7 +534,7 @@ const Restock: React.FC<RestockProps> = ({ user }) => {
                           <button
                             onClick={() => updateQuantity(item.product.id, item.actualQuantity - 1)}
                             className="w-8 h-8 flex items-center justify-center bg-gray-200 hover:bg-gray-300 rounded text-sm"
-                            disabled={isUpdating || user.role !== 'admin'}
+                            disabled={updating || !canCreateOrders}
                           >
                             -
                           </button>
@@ -211,18 +544,25 @@ const Restock: React.FC<RestockProps> = ({ user }) => {
                             onChange={(e) => updateQuantity(item.product.id, parseInt(e.target.value) || 0)}
                             className="w-20 px-2 py-1 border border-gray-300 rounded text-center"
                             min="0"
-                            disabled={isUpdating || user.role !== 'admin'}
+                            disabled={updating || !canCreateOrders}
                           />
                           <button
                             onClick={() => updateQuantity(item.product.id, item.actualQuantity + 1)}
                             className="w-8 h-8 flex items-center justify-center bg-gray-200 hover:bg-gray-300 rounded text-sm"
-                            disabled={isUpdating || user.role !== 'admin'}
+                            disabled={updating || !canCreateOrders}
                           >
                             +
                           </button>
                         </div>
                         <p className="text-xs text-gray-500 mt-1">
-                          Suggested: {item.suggestedQuantity}
+                          Suggested: {item.suggestedQuantity}{' '}
+                          <button
+                            onClick={() => toggleExpanded(item.product.id)}
+                            className="inline-flex items-center text-orange-600 hover:underline"
+                          >
+                            Why?
+                            {expanded ? <ChevronUp size={12} /> : <ChevronDown size={12} />}
+                          </button>
                         </p>
                       </div>
                       
@@ -234,21 +574,32 @@ const Restock: React.FC<RestockProps> = ({ user }) => {
                       </div>
                     </div>
 
-                    {user.role === 'admin' && (
+                    {canCreateOrders && (
                       <button
-                        onClick={() => handleRestock(item.product.id)}
-                        disabled={isUpdating || item.actualQuantity === 0}
+                        onClick={() => handleCreateOrders([item.product.id])}
+                        disabled={updating || item.actualQuantity === 0}
                         className="flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
                       >
-                        {isUpdating ? (
-                          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                        ) : (
-                          <RefreshCw size={16} />
-                        )}
-                        <span>{isUpdating ? 'Updating...' : 'Restock'}</span>
+                        <ClipboardList size={16} />
+                        <span>Add to PO</span>
                       </button>
                     )}
                   </div>
+
+                  {expanded && (
+                    <div className="mt-4 bg-gray-50 rounded-lg p-4">
+                      <ul className="list-disc list-inside space-y-1 text-sm text-gray-700">
+                        {suggestion.explanation.map((line, i) => <li key={i}>{line}</li>)}
+                      </ul>
+                      {canConfigure && (
+                        <ReorderParametersForm
+                          overrides={overrides[item.product.id] || {}}
+                          supplierLeadTime={supplierLeadTimes.get(item.product.supplier_id)}
+                          onSave={(productOverrides) => handleSaveOverrides(item.product.id, productOverrides)}
+                        />
+                      )}
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -0,0 +1,112 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Clock, LogOut } from 'lucide-react';
+import { authService, sessionSettingsService } from '../lib/localStorage';
+import { SESSION_WARNING_SECONDS, SessionDeadline, getSessionDeadline } from '../lib/session';
+
+interface SessionTimeoutProps {
+  onExpire: () => void;
+  onLogout: () => void;
+}
+
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart'];
+
+// Activity is written to the session at most this often
+const TOUCH_INTERVAL_MS = 15 * 1000;
+
+// Watches the signed-in session: user activity restarts the idle timeout, a
+// warning appears shortly before logout, and onExpire fires once it runs out.
+// The session lives in localStorage, so activity in any open tab counts.
+const SessionTimeout: React.FC<SessionTimeoutProps> = ({ onExpire, onLogout }) => {
+  const [deadline, setDeadline] = useState<SessionDeadline | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const lastTouch = useRef(0);
+  const warningVisible = useRef(false);
+
+  const secondsLeft = deadline ? Math.max(0, Math.ceil((deadline.expiresAt - now) / 1000)) : Infinity;
+  const showWarning = secondsLeft <= SESSION_WARNING_SECONDS;
+  warningVisible.current = showWarning;
+
+  useEffect(() => {
+    const check = () => {
+      const session = authService.getSession();
+      if (!session) {
+        onExpire();
+        return;
+      }
+      setDeadline(getSessionDeadline(session, sessionSettingsService.get()[session.user.role]));
+      setNow(Date.now());
+    };
+
+    // Once the warning is up, only the Stay Signed In button extends the session
+    const handleActivity = () => {
+      if (warningVisible.current || Date.now() - lastTouch.current < TOUCH_INTERVAL_MS) return;
+      lastTouch.current = Date.now();
+      authService.touchSession();
+    };
+
+    check();
+    const timer = window.setInterval(check, 1000);
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+
+    return () => {
+      window.clearInterval(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, [onExpire]);
+
+  const handleStaySignedIn = () => {
+    const session = authService.touchSession();
+    if (!session) {
+      onExpire();
+      return;
+    }
+    lastTouch.current = Date.now();
+    setDeadline(getSessionDeadline(session, sessionSettingsService.get()[session.user.role]));
+    setNow(Date.now());
+  };
+
+  if (!deadline || !showWarning) return null;
+
+  const minutes = Math.floor(secondsLeft / 60);
+  const seconds = String(secondsLeft % 60).padStart(2, '0');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-2xl p-8 w-full max-w-md">
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="bg-orange-100 p-2 rounded-full">
+            <Clock size={24} className="text-orange-500" />
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900">Session Ending Soon</h2>
+        </div>
+
+        <p className="text-gray-600 mb-2">
+          {deadline.reason === 'idle'
+            ? "You've been inactive for a while. For security you'll be signed out in:"
+            : "Your session has reached its maximum length. You'll need to sign in again in:"}
+        </p>
+        <p className="text-3xl font-bold text-gray-900 mb-6">{minutes}:{seconds}</p>
+
+        <div className="flex space-x-4">
+          {deadline.reason === 'idle' && (
+            <button
+              onClick={handleStaySignedIn}
+              className="flex-1 bg-orange-500 hover:bg-orange-600 text-white px-6 py-2 rounded-lg transition duration-200"
+            >
+              Stay Signed In
+            </button>
+          )}
+          <button
+            onClick={onLogout}
+            className="flex-1 flex items-center justify-center space-x-2 bg-gray-500 hover:bg-gray-600 text-white px-6 py-2 rounded-lg transition duration-200"
+          >
+            <LogOut size={16} />
+            <span>Sign Out Now</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionTimeout;
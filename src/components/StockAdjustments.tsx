@@ -0,0 +1,453 @@
+import React, { useState, useEffect } from 'react';
+import { SlidersHorizontal, Check, XCircle, Plus, Trash2, Save } from 'lucide-react';
+import {
+  productService,
+  stockAdjustmentService,
+  adjustmentSettingsService,
+  authService,
+  permissionService
+} from '../lib/localStorage';
+import { useDataRefresh } from '../hooks/useDataRefresh';
+import {
+  AdjustmentDirection,
+  AdjustmentSettings,
+  DIRECTION_LABELS,
+  adjustmentValue,
+  toReasonCode,
+  validateAdjustment
+} from '../lib/adjustments';
+import { User, Product, StockAdjustment, StockAdjustmentStatus } from '../App';
+
+interface StockAdjustmentsProps {
+  user: User;
+}
+
+const STATUS_STYLES: Record<StockAdjustmentStatus, { color: string; label: string }> = {
+  pending: { color: 'bg-yellow-100 text-yellow-800', label: 'Awaiting Approval' },
+  approved: { color: 'bg-green-100 text-green-800', label: 'Applied' },
+  rejected: { color: 'bg-red-100 text-red-800', label: 'Rejected' },
+};
+
+// Most recent adjustments listed under the form
+const RECENT_ADJUSTMENT_LIMIT = 25;
+
+const emptyForm = { productId: '', location: '', quantity: 0, reasonCode: '', note: '' };
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent';
+
+const StockAdjustments: React.FC<StockAdjustmentsProps> = ({ user }) => {
+  const [adjustments, setAdjustments] = useState<StockAdjustment[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [userEmails, setUserEmails] = useState<Map<string, string>>(new Map());
+  const [settings, setSettings] = useState<AdjustmentSettings>(adjustmentSettingsService.get());
+  // Reason codes being edited; saved separately from adjustments
+  const [draftSettings, setDraftSettings] = useState<AdjustmentSettings>(adjustmentSettingsService.get());
+  const [form, setForm] = useState(emptyForm);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const canAdjust = permissionService.can(user, 'stock.adjust');
+  const canApprove = permissionService.can(user, 'adjustment.approve');
+
+  useEffect(() => {
+    fetchAdjustments();
+  }, []);
+
+  useDataRefresh(['stock_adjustment', 'product', 'settings'], () => fetchAdjustments());
+
+  const fetchAdjustments = async () => {
+    try {
+      const [adjustmentData, productData, users] = await Promise.all([
+        stockAdjustmentService.getAll(),
+        productService.getAll(),
+        authService.getAllUsers(),
+      ]);
+      setAdjustments(adjustmentData);
+      setProducts(productData.sort((a, b) => a.name.localeCompare(b.name)));
+      setUserEmails(new Map(users.map(u => [u.id, u.email])));
+      setSettings(adjustmentSettingsService.get());
+    } catch (error) {
+      console.error('Error fetching stock adjustments:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (action: () => Promise<string>) => {
+    setBusy(true);
+    setMessage(null);
+
+    try {
+      const text = await action();
+      await fetchAdjustments();
+      setMessage({ type: 'success', text });
+      return true;
+    } catch (error: unknown) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Something went wrong. Please try again.',
+      });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const saved = await runAction(async () => {
+      const adjustment = await stockAdjustmentService.request({
+        product_id: form.productId,
+        quantity: form.quantity,
+        reason_code: form.reasonCode,
+        note: form.note,
+        location: form.location || undefined,
+      }, user);
+      return adjustment.status === 'pending'
+        ? `The adjustment is worth $${adjustment.value.toFixed(2)}, over the $${settings.approval_threshold.toFixed(2)} limit, and is waiting for approval.`
+        : 'Stock adjusted.';
+    });
+    if (saved) setForm(emptyForm);
+  };
+
+  const updateReason = (index: number, changes: Partial<AdjustmentSettings['reasons'][number]>) => {
+    setDraftSettings({
+      ...draftSettings,
+      reasons: draftSettings.reasons.map((reason, i) => (i === index ? { ...reason, ...changes } : reason)),
+    });
+  };
+
+  const handleSaveSettings = () =>
+    runAction(async () => {
+      await adjustmentSettingsService.update(draftSettings, user);
+      return 'Adjustment settings saved.';
+    });
+
+  if (!canAdjust && !canApprove) {
+    return (
+      <div className="space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Stock Adjustments</h1>
+        </div>
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+          <p className="text-yellow-800">You don't have permission to adjust stock. Please contact your admin if you need access.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
+      </div>
+    );
+  }
+
+  const productsById = new Map(products.map(p => [p.id, p]));
+  const reasonLabels = new Map(settings.reasons.map(r => [r.code, r.label]));
+  const selectedProduct = productsById.get(form.productId);
+  const selectedReason = settings.reasons.find(r => r.code === form.reasonCode);
+  const formError = form.quantity !== 0 && selectedReason ? validateAdjustment(selectedReason, form.quantity) : null;
+  const formValue = selectedProduct ? adjustmentValue(form.quantity, selectedProduct.cost_price) : 0;
+  const needsApproval = formValue > settings.approval_threshold && !canApprove;
+  const pending = adjustments.filter(a => a.status === 'pending');
+
+  const productName = (productId: string) => {
+    const product = productsById.get(productId);
+    return product ? `${product.name} (${product.sku})` : 'Deleted product';
+  };
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Stock Adjustments</h1>
+        <p className="text-gray-600">
+          Write stock up or down for damage, theft, returns and the like. Adjustments worth more than
+          ${settings.approval_threshold.toFixed(2)} at cost need an admin's approval.
+        </p>
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-lg ${
+          message.type === 'success' ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'
+        }`}>
+          <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>{message.text}</p>
+        </div>
+      )}
+
+      {canAdjust && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-md p-6 space-y-4">
+          <div className="flex items-center space-x-2">
+            <SlidersHorizontal className="text-teal-500" size={20} />
+            <h3 className="text-lg font-semibold text-gray-900">Adjust Stock</h3>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Product</label>
+              <select
+                value={form.productId}
+                onChange={(e) => setForm({ ...form, productId: e.target.value, location: '' })}
+                className={inputClass}
+                disabled={busy}
+              >
+                <option value="">Choose a product</option>
+                {products.map(product => (
+                  <option key={product.id} value={product.id}>{product.name} ({product.sku})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Location</label>
+              <select
+                value={form.location}
+                onChange={(e) => setForm({ ...form, location: e.target.value })}
+                className={inputClass}
+                disabled={busy || !selectedProduct}
+              >
+                <option value="">{selectedProduct ? `${selectedProduct.location} (primary)` : 'Primary location'}</option>
+                {selectedProduct?.stock_locations
+                  .filter(l => l.location !== selectedProduct.location)
+                  .map(l => (
+                    <option key={l.location} value={l.location}>{l.location} ({l.quantity} on hand)</option>
+                  ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Change (+/-)</label>
+              <input
+                type="number"
+                value={form.quantity}
+                onChange={(e) => setForm({ ...form, quantity: parseInt(e.target.value) || 0 })}
+                className={inputClass}
+                disabled={busy}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+              <select
+                value={form.reasonCode}
+                onChange={(e) => setForm({ ...form, reasonCode: e.target.value })}
+                className={inputClass}
+                disabled={busy}
+              >
+                <option value="">Choose a reason</option>
+                {settings.reasons.map(reason => (
+                  <option key={reason.code} value={reason.code}>{reason.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-3">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Note</label>
+              <input
+                type="text"
+                value={form.note}
+                onChange={(e) => setForm({ ...form, note: e.target.value })}
+                placeholder="Optional, e.g. dropped during unloading"
+                className={inputClass}
+                disabled={busy}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="text-sm">
+              {formError ? (
+                <p className="text-red-600">{formError}</p>
+              ) : selectedProduct && form.quantity !== 0 ? (
+                <p className={needsApproval ? 'text-yellow-700' : 'text-gray-600'}>
+                  Worth ${formValue.toFixed(2)} at cost{needsApproval && ', so it will wait for approval'}.
+                </p>
+              ) : null}
+            </div>
+            <button
+              type="submit"
+              disabled={busy || !form.productId || !form.reasonCode || form.quantity === 0 || !!formError}
+              className="flex items-center space-x-2 bg-teal-500 hover:bg-teal-600 text-white px-4 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+            >
+              <SlidersHorizontal size={16} />
+              <span>{needsApproval ? 'Request Adjustment' : 'Adjust Stock'}</span>
+            </button>
+          </div>
+        </form>
+      )}
+
+      {canApprove && pending.length > 0 && (
+        <div className="bg-white rounded-xl shadow-md p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Waiting for Approval</h3>
+          <div className="space-y-3">
+            {pending.map(adjustment => (
+              <div key={adjustment.id} className="flex items-center justify-between p-3 bg-yellow-50 rounded-lg">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {adjustment.quantity > 0 ? '+' : ''}{adjustment.quantity} × {productName(adjustment.product_id)}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    {reasonLabels.get(adjustment.reason_code) || adjustment.reason_code}
+                    {adjustment.note && `: ${adjustment.note}`} | ${adjustment.value.toFixed(2)} | Requested by{' '}
+                    {userEmails.get(adjustment.requested_by) || adjustment.requested_by} on {new Date(adjustment.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => runAction(async () => {
+                      await stockAdjustmentService.reject(adjustment.id, user);
+                      return 'Adjustment rejected.';
+                    })}
+                    disabled={busy}
+                    className="flex items-center space-x-2 bg-gray-100 hover:bg-gray-200 text-gray-700 px-3 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+                  >
+                    <XCircle size={16} />
+                    <span>Reject</span>
+                  </button>
+                  <button
+                    onClick={() => runAction(async () => {
+                      await stockAdjustmentService.approve(adjustment.id, user);
+                      return 'Adjustment approved and stock updated.';
+                    })}
+                    disabled={busy}
+                    className="flex items-center space-x-2 bg-green-500 hover:bg-green-600 text-white px-3 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+                  >
+                    <Check size={16} />
+                    <span>Approve</span>
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-md p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Recent Adjustments</h3>
+        {adjustments.length === 0 ? (
+          <p className="text-gray-500">No adjustments yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2">Date</th>
+                <th className="py-2">Product</th>
+                <th className="py-2 text-right">Change</th>
+                <th className="py-2">Reason</th>
+                <th className="py-2 text-right">Value</th>
+                <th className="py-2">By</th>
+                <th className="py-2">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {adjustments.slice(0, RECENT_ADJUSTMENT_LIMIT).map(adjustment => {
+                const status = STATUS_STYLES[adjustment.status];
+                return (
+                  <tr key={adjustment.id} className="border-b border-gray-100">
+                    <td className="py-2">{new Date(adjustment.created_at).toLocaleDateString()}</td>
+                    <td className="py-2 text-gray-900">{productName(adjustment.product_id)}</td>
+                    <td className={`py-2 text-right ${adjustment.quantity < 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {adjustment.quantity > 0 ? '+' : ''}{adjustment.quantity}
+                    </td>
+                    <td className="py-2">
+                      {reasonLabels.get(adjustment.reason_code) || adjustment.reason_code}
+                      {adjustment.note && <span className="text-gray-500">: {adjustment.note}</span>}
+                    </td>
+                    <td className="py-2 text-right">${adjustment.value.toFixed(2)}</td>
+                    <td className="py-2">{userEmails.get(adjustment.requested_by) || adjustment.requested_by}</td>
+                    <td className="py-2">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${status.color}`}>{status.label}</span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {canApprove && (
+        <div className="bg-white rounded-xl shadow-md p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">Reason Codes</h3>
+          <div className="space-y-2">
+            {draftSettings.reasons.map((reason, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <input
+                  type="text"
+                  value={reason.label}
+                  onChange={(e) => updateReason(index, {
+                    label: e.target.value,
+                    // Saved codes stay put so renaming keeps past adjustments under the reason
+                    code: settings.reasons.some(r => r.code === reason.code) ? reason.code : toReasonCode(e.target.value),
+                  })}
+                  className={`col-span-5 ${inputClass}`}
+                  placeholder="Reason name"
+                />
+                <select
+                  value={reason.direction}
+                  onChange={(e) => updateReason(index, { direction: e.target.value as AdjustmentDirection })}
+                  className={`col-span-3 ${inputClass}`}
+                >
+                  {(Object.keys(DIRECTION_LABELS) as AdjustmentDirection[]).map(direction => (
+                    <option key={direction} value={direction}>{DIRECTION_LABELS[direction]}</option>
+                  ))}
+                </select>
+                <label className="col-span-3 flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={reason.shrinkage}
+                    onChange={(e) => updateReason(index, { shrinkage: e.target.checked })}
+                    className="rounded text-orange-500 focus:ring-orange-500"
+                  />
+                  <span>Counts as shrinkage</span>
+                </label>
+                <button
+                  type="button"
+                  onClick={() => setDraftSettings({ ...draftSettings, reasons: draftSettings.reasons.filter((_, i) => i !== index) })}
+                  className="col-span-1 text-red-600 hover:text-red-800 p-1 justify-self-end"
+                  aria-label={`Remove ${reason.label}`}
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setDraftSettings({
+              ...draftSettings,
+              reasons: [...draftSettings.reasons, { code: '', label: '', direction: 'either', shrinkage: false }],
+            })}
+            className="flex items-center space-x-2 text-sm text-orange-600 hover:text-orange-800"
+          >
+            <Plus size={16} />
+            <span>Add reason</span>
+          </button>
+
+          <div className="flex items-end justify-between pt-4 border-t border-gray-200">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Approval limit ($ at cost)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={draftSettings.approval_threshold}
+                onChange={(e) => setDraftSettings({ ...draftSettings, approval_threshold: parseFloat(e.target.value) || 0 })}
+                className={inputClass}
+              />
+            </div>
+            <button
+              type="button"
+              onClick={handleSaveSettings}
+              disabled={busy}
+              className="flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+            >
+              <Save size={16} />
+              <span>Save Settings</span>
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StockAdjustments;
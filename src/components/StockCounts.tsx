@@ -0,0 +1,534 @@
+import React, { useState, useEffect } from 'react';
+import { ClipboardCheck, ArrowLeft, Save, Send, Check, RotateCcw, XCircle, Printer } from 'lucide-react';
+import { productService, stockCountService, permissionService } from '../lib/localStorage';
+import { useDataRefresh } from '../hooks/useDataRefresh';
+import { ABC_CLASSES, countLineKey, countVarianceReport, describeCountScope } from '../lib/stockCount';
+import { User, AbcClass, StockCount, StockCountScope, StockCountStatus } from '../App';
+
+interface StockCountsProps {
+  user: User;
+}
+
+const STATUS_STYLES: Record<StockCountStatus, { color: string; label: string }> = {
+  open: { color: 'bg-blue-100 text-blue-800', label: 'Counting' },
+  submitted: { color: 'bg-yellow-100 text-yellow-800', label: 'Awaiting Approval' },
+  approved: { color: 'bg-green-100 text-green-800', label: 'Approved' },
+  cancelled: { color: 'bg-red-100 text-red-800', label: 'Cancelled' },
+};
+
+const DEFAULT_SAMPLE: Record<AbcClass, number> = { A: 10, B: 5, C: 2 };
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent';
+
+const formatSigned = (value: number, prefix = '') =>
+  `${value > 0 ? '+' : value < 0 ? '-' : ''}${prefix}${prefix ? Math.abs(value).toFixed(2) : Math.abs(value)}`;
+
+const StockCounts: React.FC<StockCountsProps> = ({ user }) => {
+  const [counts, setCounts] = useState<StockCount[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Counted quantities typed in but not saved yet, by countLineKey
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [scopeType, setScopeType] = useState<StockCountScope['type']>('location');
+  const [prefix, setPrefix] = useState('');
+  const [category, setCategory] = useState('');
+  const [sampleSizes, setSampleSizes] = useState(DEFAULT_SAMPLE);
+  const [blind, setBlind] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const canCount = permissionService.can(user, 'count.perform');
+  const canApprove = permissionService.can(user, 'count.approve');
+
+  useEffect(() => {
+    fetchCounts();
+  }, []);
+
+  useDataRefresh(['stock_count', 'product'], () => fetchCounts());
+
+  const fetchCounts = async () => {
+    try {
+      const [countData, products] = await Promise.all([stockCountService.getAll(), productService.getAll()]);
+      setCounts(countData);
+      setCategories(Array.from(new Set(products.map(p => p.category))).sort());
+    } catch (error) {
+      console.error('Error fetching stock counts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Resolves to the action's result, or null if it failed
+  const runAction = async <T,>(action: () => Promise<T>, successText: string): Promise<T | null> => {
+    setBusy(true);
+    setMessage(null);
+
+    try {
+      const result = await action();
+      await fetchCounts();
+      setMessage({ type: 'success', text: successText });
+      return result;
+    } catch (error: unknown) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Something went wrong. Please try again.',
+      });
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const openCount = (id: string | null) => {
+    setSelectedId(id);
+    setDrafts({});
+    setMessage(null);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const scope: StockCountScope =
+      scopeType === 'location' ? { type: 'location', prefix }
+      : scopeType === 'category' ? { type: 'category', category }
+      : { type: 'abc_sample', sample: sampleSizes };
+
+    const created = await runAction(() => stockCountService.create(scope, blind, user), 'Stock count started.');
+    if (created) setSelectedId(created.id);
+  };
+
+  // Blank inputs clear a count; anything else must be a whole number
+  const draftQuantities = (): Record<string, number | null> =>
+    Object.fromEntries(Object.entries(drafts).map(([key, value]) => [key, value.trim() === '' ? null : Number(value)]));
+
+  const handleSave = (count: StockCount, submit: boolean) =>
+    runAction(async () => {
+      await stockCountService.saveCounts(count.id, draftQuantities(), user);
+      setDrafts({});
+      if (submit) await stockCountService.submit(count.id, user);
+    }, submit ? `${count.count_number} submitted for approval.` : 'Counts saved.');
+
+  if (!canCount && !canApprove) {
+    return (
+      <div className="space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Stock Counts</h1>
+        </div>
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+          <p className="text-yellow-800">You don't have permission to count stock. Please contact your admin if you need access.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
+      </div>
+    );
+  }
+
+  const messageBanner = message && (
+    <div className={`p-4 rounded-lg ${
+      message.type === 'success' ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'
+    }`}>
+      <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>{message.text}</p>
+    </div>
+  );
+
+  const selected = counts.find(c => c.id === selectedId);
+
+  if (selected) {
+    const status = STATUS_STYLES[selected.status];
+    const counting = selected.status === 'open' && canCount;
+    // Counters on a blind count never see what the records say
+    const showExpected = !selected.blind || canApprove;
+    const report = countVarianceReport(selected);
+    const unsaved = Object.keys(drafts).length > 0;
+
+    return (
+      <div className="space-y-8">
+        <div className="flex items-start justify-between">
+          <div>
+            <button
+              onClick={() => openCount(null)}
+              className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900 mb-2"
+            >
+              <ArrowLeft size={16} />
+              <span>All stock counts</span>
+            </button>
+            <div className="flex items-center space-x-3 mb-1">
+              <h1 className="text-3xl font-bold text-gray-900">{selected.count_number}</h1>
+              <span className={`px-2 py-1 rounded-full text-xs font-medium ${status.color}`}>{status.label}</span>
+            </div>
+            <p className="text-gray-600">
+              {describeCountScope(selected.scope)}{selected.blind && ' | Blind count'} | Started {new Date(selected.created_at).toLocaleDateString()}
+              {selected.approved_at && ` | Approved ${new Date(selected.approved_at).toLocaleDateString()}`}
+            </p>
+          </div>
+          <button
+            onClick={() => window.print()}
+            className="flex items-center space-x-2 bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition duration-200"
+          >
+            <Printer size={16} />
+            <span>Print Count Sheet</span>
+          </button>
+        </div>
+
+        {messageBanner}
+
+        <div className="bg-white rounded-xl shadow-md p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Count Sheet</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2">Location</th>
+                <th className="py-2">Product</th>
+                {showExpected && <th className="py-2 text-right">Expected</th>}
+                <th className="py-2 text-right">Counted</th>
+                {showExpected && <th className="py-2 text-right">Variance</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {selected.lines.map(line => {
+                const key = countLineKey(line);
+                const variance = line.counted === null ? null : line.counted - line.expected;
+
+                return (
+                  <tr key={key} className="border-b border-gray-100">
+                    <td className="py-2 font-medium text-gray-900">{line.location}</td>
+                    <td className="py-2">
+                      <p className="text-gray-900">{line.name}</p>
+                      <p className="text-xs text-gray-500">SKU: {line.sku}</p>
+                    </td>
+                    {showExpected && <td className="py-2 text-right">{line.expected}</td>}
+                    <td className="py-2 text-right">
+                      {counting ? (
+                        <input
+                          type="number"
+                          min="0"
+                          value={drafts[key] ?? (line.counted === null ? '' : String(line.counted))}
+                          onChange={(e) => setDrafts({ ...drafts, [key]: e.target.value })}
+                          className="w-20 px-2 py-1 border border-gray-300 rounded text-center"
+                          disabled={busy}
+                        />
+                      ) : (
+                        line.counted ?? '-'
+                      )}
+                    </td>
+                    {showExpected && (
+                      <td className={`py-2 text-right ${variance ? (variance < 0 ? 'text-red-600' : 'text-green-600') : 'text-gray-500'}`}>
+                        {variance === null ? '-' : formatSigned(variance)}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {counting && (
+            <div className="flex justify-end space-x-3 mt-4">
+              <button
+                onClick={() => handleSave(selected, false)}
+                disabled={busy || !unsaved}
+                className="flex items-center space-x-2 bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+              >
+                <Save size={16} />
+                <span>Save Counts</span>
+              </button>
+              <button
+                onClick={() => handleSave(selected, true)}
+                disabled={busy}
+                className="flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+              >
+                <Send size={16} />
+                <span>Submit for Approval</span>
+              </button>
+            </div>
+          )}
+        </div>
+
+        {selected.status !== 'open' && showExpected && (
+          <div className="bg-white rounded-xl shadow-md p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Variance Report</h3>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-sm text-gray-600">Lines counted</p>
+                <p className="text-xl font-bold text-gray-900">
+                  {report.countedLines}
+                  {report.uncountedLines > 0 && <span className="text-sm font-normal text-gray-500"> ({report.uncountedLines} skipped)</span>}
+                </p>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-sm text-gray-600">Accuracy</p>
+                <p className="text-xl font-bold text-gray-900">{report.accuracy === null ? '-' : `${report.accuracy.toFixed(1)}%`}</p>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-sm text-gray-600">Net variance</p>
+                <p className="text-xl font-bold text-gray-900">
+                  {formatSigned(report.netUnits)} units | {formatSigned(report.netCost, '$')}
+                </p>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <p className="text-sm text-gray-600">Total overs and shorts</p>
+                <p className="text-xl font-bold text-gray-900">${report.absoluteCost.toFixed(2)}</p>
+              </div>
+            </div>
+
+            {report.linesWithVariance === 0 ? (
+              <p className="text-gray-500">Every counted line matched the records.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-600 border-b">
+                    <th className="py-2">Product</th>
+                    <th className="py-2">Location</th>
+                    <th className="py-2 text-right">Units</th>
+                    <th className="py-2 text-right">Unit Cost</th>
+                    <th className="py-2 text-right">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.lines.filter(v => v.units !== 0).map(v => (
+                    <tr key={countLineKey(v.line)} className="border-b border-gray-100">
+                      <td className="py-2 text-gray-900">{v.line.name}</td>
+                      <td className="py-2">{v.line.location}</td>
+                      <td className={`py-2 text-right ${v.units < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatSigned(v.units)}</td>
+                      <td className="py-2 text-right">${v.line.unit_cost.toFixed(2)}</td>
+                      <td className={`py-2 text-right ${v.cost < 0 ? 'text-red-600' : 'text-green-600'}`}>{formatSigned(v.cost, '$')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        {selected.status === 'submitted' && !canApprove && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+            <p className="text-yellow-800">This count is waiting for an admin to review and approve it.</p>
+          </div>
+        )}
+
+        {canApprove && (selected.status === 'open' || selected.status === 'submitted') && (
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={() => {
+                if (window.confirm(`Cancel ${selected.count_number}? Its counts will not be applied.`)) {
+                  runAction(() => stockCountService.cancel(selected.id, user), `${selected.count_number} cancelled.`);
+                }
+              }}
+              disabled={busy}
+              className="flex items-center space-x-2 bg-gray-100 hover:bg-gray-200 text-gray-700 px-4 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+            >
+              <XCircle size={16} />
+              <span>Cancel Count</span>
+            </button>
+            {selected.status === 'submitted' && (
+              <>
+                <button
+                  onClick={() => runAction(() => stockCountService.reopen(selected.id, user), `${selected.count_number} sent back for recounting.`)}
+                  disabled={busy}
+                  className="flex items-center space-x-2 bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+                >
+                  <RotateCcw size={16} />
+                  <span>Send Back for Recount</span>
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(`Approve ${selected.count_number}? Stock will be corrected for ${report.linesWithVariance} line(s).`)) {
+                      runAction(() => stockCountService.approve(selected.id, user), `${selected.count_number} approved and stock corrected.`);
+                    }
+                  }}
+                  disabled={busy}
+                  className="flex items-center space-x-2 bg-green-500 hover:bg-green-600 text-white px-4 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+                >
+                  <Check size={16} />
+                  <span>Approve and Correct Stock</span>
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Paper count sheet in shelf order; only shown when printing (see index.css) */}
+        <div className="print-area hidden print:block bg-white text-black text-sm p-8" style={{ width: '8.5in' }}>
+          <h2 className="text-xl font-bold mb-1">{selected.count_number}</h2>
+          <p className="mb-4">{describeCountScope(selected.scope)}</p>
+          <table className="w-full">
+            <thead>
+              <tr className="text-left border-b border-black">
+                <th className="py-1">Location</th>
+                <th className="py-1">Product</th>
+                <th className="py-1">SKU</th>
+                {!selected.blind && <th className="py-1 text-right">Expected</th>}
+                <th className="py-1 text-right w-32">Counted</th>
+              </tr>
+            </thead>
+            <tbody>
+              {selected.lines.map(line => (
+                <tr key={countLineKey(line)} className="border-b border-gray-400">
+                  <td className="py-2">{line.location}</td>
+                  <td className="py-2">{line.name}</td>
+                  <td className="py-2">{line.sku}</td>
+                  {!selected.blind && <td className="py-2 text-right">{line.expected}</td>}
+                  <td className="py-2"></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Stock Counts</h1>
+        <p className="text-gray-600">
+          Count shelves against the records. Stock is only corrected once an admin approves the count.
+        </p>
+      </div>
+
+      {messageBanner}
+
+      {canCount && (
+        <form onSubmit={handleCreate} className="bg-white rounded-xl shadow-md p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">Start a Count</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Count by</label>
+              <select
+                value={scopeType}
+                onChange={(e) => setScopeType(e.target.value as StockCountScope['type'])}
+                className={inputClass}
+              >
+                <option value="location">Location</option>
+                <option value="category">Category</option>
+                <option value="abc_sample">ABC sample</option>
+              </select>
+            </div>
+
+            {scopeType === 'location' && (
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Locations starting with</label>
+                <input
+                  type="text"
+                  value={prefix}
+                  onChange={(e) => setPrefix(e.target.value)}
+                  placeholder="e.g. A1"
+                  className={inputClass}
+                />
+              </div>
+            )}
+
+            {scopeType === 'category' && (
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
+                <select value={category} onChange={(e) => setCategory(e.target.value)} className={inputClass}>
+                  <option value="">Choose a category</option>
+                  {categories.map(c => (
+                    <option key={c} value={c}>{c}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {scopeType === 'abc_sample' && (
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-2">Products to count from each class</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {ABC_CLASSES.map(abcClass => (
+                    <div key={abcClass} className="flex items-center space-x-2">
+                      <span className="text-sm font-medium text-gray-700">{abcClass}</span>
+                      <input
+                        type="number"
+                        min="0"
+                        value={sampleSizes[abcClass]}
+                        onChange={(e) => setSampleSizes({ ...sampleSizes, [abcClass]: Math.max(parseInt(e.target.value) || 0, 0) })}
+                        className={inputClass}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  A items make up most of the last year's cost of sales; products that haven't sold are C items.
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={blind}
+                onChange={(e) => setBlind(e.target.checked)}
+                className="rounded text-orange-500 focus:ring-orange-500"
+              />
+              <span>Blind count (hide expected quantities from counters)</span>
+            </label>
+            <button
+              type="submit"
+              disabled={busy}
+              className="flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+            >
+              <ClipboardCheck size={16} />
+              <span>Start Count</span>
+            </button>
+          </div>
+        </form>
+      )}
+
+      {counts.length === 0 ? (
+        <div className="text-center py-12">
+          <ClipboardCheck size={48} className="mx-auto text-gray-400 mb-4" />
+          <p className="text-gray-500 text-lg">No stock counts yet.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-md p-6">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2">Count</th>
+                <th className="py-2">Scope</th>
+                <th className="py-2 text-right">Lines</th>
+                <th className="py-2">Status</th>
+                <th className="py-2">Started</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {counts.map(count => {
+                const status = STATUS_STYLES[count.status];
+                const counted = count.lines.filter(l => l.counted !== null).length;
+
+                return (
+                  <tr key={count.id} className="border-b border-gray-100">
+                    <td className="py-2 font-medium text-gray-900">{count.count_number}</td>
+                    <td className="py-2">{describeCountScope(count.scope)}{count.blind && ' (blind)'}</td>
+                    <td className="py-2 text-right">{counted} / {count.lines.length}</td>
+                    <td className="py-2">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${status.color}`}>{status.label}</span>
+                    </td>
+                    <td className="py-2">{new Date(count.created_at).toLocaleDateString()}</td>
+                    <td className="py-2 text-right">
+                      <button onClick={() => openCount(count.id)} className="text-orange-600 hover:text-orange-800 font-medium">
+                        Open
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StockCounts;
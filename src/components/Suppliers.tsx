@@ -0,0 +1,303 @@
+import React, { useState, useEffect } from 'react';
+import { Truck, Plus, Edit, Trash2, Save, X, Mail, Phone } from 'lucide-react';
+import { supplierService, productService, permissionService } from '../lib/localStorage';
+import { useDataRefresh } from '../hooks/useDataRefresh';
+import { User, Supplier } from '../App';
+
+interface SuppliersProps {
+  user: User;
+}
+
+type SupplierFormData = Omit<Supplier, 'id' | 'created_at' | 'updated_at'>;
+
+const emptySupplierForm: SupplierFormData = {
+  name: '',
+  contact_name: '',
+  email: '',
+  phone: '',
+  address: '',
+  lead_time_days: 0,
+  minimum_order_value: 0,
+  payment_terms: '',
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent';
+
+const Suppliers: React.FC<SuppliersProps> = ({ user }) => {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [productCounts, setProductCounts] = useState<Map<string, number>>(new Map());
+  const [loading, setLoading] = useState(true);
+  // null = form closed, '' = adding a new supplier, otherwise the id being edited
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<SupplierFormData>(emptySupplierForm);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const canManage = permissionService.can(user, 'supplier.manage');
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, []);
+
+  useDataRefresh(['supplier', 'product'], () => fetchSuppliers());
+
+  const fetchSuppliers = async () => {
+    try {
+      const [supplierData, products] = await Promise.all([
+        supplierService.getAll(),
+        productService.getAll(),
+      ]);
+      const counts = new Map<string, number>();
+      products.forEach(p => counts.set(p.supplier_id, (counts.get(p.supplier_id) || 0) + 1));
+
+      setSuppliers(supplierData);
+      setProductCounts(counts);
+    } catch (error) {
+      console.error('Error fetching suppliers:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      [name]: ['lead_time_days', 'minimum_order_value'].includes(name) ? parseFloat(value) || 0 : value
+    }));
+  };
+
+  const openForm = (supplier?: Supplier) => {
+    if (supplier) {
+      setEditingId(supplier.id);
+      setFormData({
+        name: supplier.name,
+        contact_name: supplier.contact_name,
+        email: supplier.email,
+        phone: supplier.phone,
+        address: supplier.address,
+        lead_time_days: supplier.lead_time_days,
+        minimum_order_value: supplier.minimum_order_value,
+        payment_terms: supplier.payment_terms,
+      });
+    } else {
+      setEditingId('');
+      setFormData(emptySupplierForm);
+    }
+    setMessage(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!formData.name.trim()) {
+      setMessage({ type: 'error', text: 'Supplier name is required.' });
+      return;
+    }
+    if (formData.lead_time_days < 0 || formData.minimum_order_value < 0) {
+      setMessage({ type: 'error', text: 'Lead time and minimum order value cannot be negative.' });
+      return;
+    }
+
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      if (editingId) {
+        await supplierService.update(editingId, formData, user);
+      } else {
+        await supplierService.create(formData, user);
+      }
+      setEditingId(null);
+      await fetchSuppliers();
+      setMessage({ type: 'success', text: 'Supplier saved successfully!' });
+    } catch (error: unknown) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to save supplier. Please try again.',
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!window.confirm(`Are you sure you want to delete ${supplier.name}?`)) {
+      return;
+    }
+
+    try {
+      await supplierService.delete(supplier.id, user);
+      setSuppliers(suppliers.filter(s => s.id !== supplier.id));
+    } catch (error: unknown) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Failed to delete supplier.',
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Suppliers</h1>
+          <p className="text-gray-600">Contacts, lead times and ordering terms for your vendors.</p>
+        </div>
+        {canManage && editingId === null && (
+          <button
+            onClick={() => openForm()}
+            className="flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg transition duration-200"
+          >
+            <Plus size={16} />
+            <span>Add Supplier</span>
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-lg ${
+          message.type === 'success' ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'
+        }`}>
+          <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {message.text}
+          </p>
+        </div>
+      )}
+
+      {editingId !== null && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-md p-8 space-y-6">
+          <h3 className="text-lg font-semibold text-gray-900 border-b pb-2">
+            {editingId ? 'Edit Supplier' : 'New Supplier'}
+          </h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Name *</label>
+              <input type="text" name="name" value={formData.name} onChange={handleInputChange} className={inputClass} required />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Contact Name</label>
+              <input type="text" name="contact_name" value={formData.contact_name} onChange={handleInputChange} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Email</label>
+              <input type="email" name="email" value={formData.email} onChange={handleInputChange} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Phone</label>
+              <input type="tel" name="phone" value={formData.phone} onChange={handleInputChange} className={inputClass} />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Address</label>
+              <textarea name="address" value={formData.address} onChange={handleInputChange} rows={2} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Lead Time (days)</label>
+              <input type="number" name="lead_time_days" value={formData.lead_time_days} onChange={handleInputChange} className={inputClass} min="0" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Minimum Order Value</label>
+              <input type="number" name="minimum_order_value" value={formData.minimum_order_value} onChange={handleInputChange} className={inputClass} step="0.01" min="0" />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Payment Terms</label>
+              <input type="text" name="payment_terms" value={formData.payment_terms} onChange={handleInputChange} className={inputClass} placeholder="e.g., Net 30" />
+            </div>
+          </div>
+
+          <div className="flex space-x-4 pt-6 border-t">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-6 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+            >
+              <Save size={20} />
+              <span>{saving ? 'Saving...' : 'Save Supplier'}</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditingId(null)}
+              className="flex items-center space-x-2 bg-gray-500 hover:bg-gray-600 text-white px-6 py-2 rounded-lg transition duration-200"
+            >
+              <X size={20} />
+              <span>Cancel</span>
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {suppliers.map((supplier) => (
+          <div key={supplier.id} className="bg-white rounded-xl shadow-md p-6">
+            <div className="flex items-start justify-between mb-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 mb-1">{supplier.name}</h3>
+                <p className="text-sm text-gray-600">{supplier.contact_name || 'No contact name'}</p>
+              </div>
+              <span className="px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                {productCounts.get(supplier.id) || 0} products
+              </span>
+            </div>
+
+            <div className="space-y-2 text-sm">
+              {supplier.email && (
+                <p className="flex items-center text-gray-600"><Mail size={14} className="mr-2" />{supplier.email}</p>
+              )}
+              {supplier.phone && (
+                <p className="flex items-center text-gray-600"><Phone size={14} className="mr-2" />{supplier.phone}</p>
+              )}
+              <div className="flex justify-between pt-2 border-t">
+                <span className="text-gray-600">Lead Time:</span>
+                <span>{supplier.lead_time_days} days</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Minimum Order:</span>
+                <span>${supplier.minimum_order_value.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Payment Terms:</span>
+                <span>{supplier.payment_terms || '-'}</span>
+              </div>
+            </div>
+
+            {canManage && (
+              <div className="flex space-x-2 mt-4">
+                <button
+                  onClick={() => openForm(supplier)}
+                  className="flex-1 flex items-center justify-center space-x-1 bg-orange-500 hover:bg-orange-600 text-white py-2 px-3 rounded-lg text-sm transition-colors"
+                >
+                  <Edit size={16} />
+                  <span>Edit</span>
+                </button>
+                <button
+                  onClick={() => handleDelete(supplier)}
+                  className="flex items-center justify-center bg-red-500 hover:bg-red-600 text-white py-2 px-3 rounded-lg text-sm transition-colors"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {suppliers.length === 0 && (
+        <div className="text-center py-12">
+          <Truck size={48} className="mx-auto text-gray-400 mb-4" />
+          <p className="text-gray-500 text-lg">No suppliers yet.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Suppliers;
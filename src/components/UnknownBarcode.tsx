@@ -0,0 +1,44 @@
+import React from 'react';
+import { ScanLine, Plus, X } from 'lucide-react';
+
+interface UnknownBarcodeProps {
+  code: string;
+  // Set when the code is a known product that isn't on the list being scanned
+  // into, e.g. "this order"
+  notOn?: { productName: string; list: string };
+  // Left out when the user can't create products
+  onCreate?: () => void;
+  onDismiss: () => void;
+}
+
+// Shown when a scanned code doesn't match any product, or matches one that
+// the current screen can't take
+const UnknownBarcode: React.FC<UnknownBarcodeProps> = ({ code, notOn, onCreate, onDismiss }) => (
+  <div className="fixed bottom-6 right-6 z-50 bg-white rounded-xl shadow-2xl border border-gray-200 p-4 w-80">
+    <div className="flex items-start space-x-3">
+      <div className="bg-orange-100 p-2 rounded-full">
+        <ScanLine size={20} className="text-orange-500" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium text-gray-900">{notOn ? `Not on ${notOn.list}` : 'Unknown barcode'}</p>
+        <p className="text-sm text-gray-600 break-all">
+          {notOn ? `${notOn.productName} (${code}) is not on ${notOn.list}.` : `No product has the barcode or SKU ${code}.`}
+        </p>
+      </div>
+      <button onClick={onDismiss} className="text-gray-400 hover:text-gray-600" aria-label="Dismiss">
+        <X size={16} />
+      </button>
+    </div>
+    {onCreate && (
+      <button
+        onClick={onCreate}
+        className="mt-3 w-full flex items-center justify-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg text-sm transition duration-200"
+      >
+        <Plus size={16} />
+        <span>Create Product</span>
+      </button>
+    )}
+  </div>
+);
+
+export default UnknownBarcode;
@@ -0,0 +1,484 @@
+import React, { useState, useEffect } from 'react';
+import { UserCog, UserPlus, UserX, UserCheck, KeyRound, Trash2, Save, X, Clock, ShieldCheck } from 'lucide-react';
+import { userService, sessionSettingsService, permissionService } from '../lib/localStorage';
+import { useDataRefresh } from '../hooks/useDataRefresh';
+import { MIN_PASSWORD_LENGTH } from '../lib/password';
+import { MAX_SESSION_HOURS, SessionPolicies } from '../lib/session';
+import { PERMISSIONS, ROLES, Permission, RolePermissions, getRoleLabel } from '../lib/permissions';
+import { Role, User, UserAccount } from '../App';
+
+interface UsersProps {
+  user: User;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent';
+
+const emptyUserForm = { email: '', password: '', role: 'associate' as Role };
+
+const Users: React.FC<UsersProps> = ({ user }) => {
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState(emptyUserForm);
+  const [saving, setSaving] = useState(false);
+  // Id of the user whose password is being reset, with the new password
+  const [resetting, setResetting] = useState<{ id: string; password: string } | null>(null);
+  const [sessionPolicies, setSessionPolicies] = useState<SessionPolicies>(sessionSettingsService.get);
+  const [rolePermissions, setRolePermissions] = useState<RolePermissions>(permissionService.getMatrix);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  // Only the account list; the settings cards below may hold unsaved edits
+  useDataRefresh(['user'], () => fetchUsers());
+
+  const fetchUsers = async () => {
+    try {
+      setUsers(await userService.getAll());
+    } catch (error) {
+      console.error('Error fetching users:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Runs a userService call and reports the outcome in the message banner
+  const runAction = async (action: () => Promise<unknown>, success: string) => {
+    setSaving(true);
+    setMessage(null);
+
+    try {
+      await action();
+      await fetchUsers();
+      setMessage({ type: 'success', text: success });
+      return true;
+    } catch (error: unknown) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'Something went wrong. Please try again.',
+      });
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const created = await runAction(
+      () => userService.create(formData, user),
+      `User ${formData.email.trim().toLowerCase()} created.`
+    );
+    if (created) {
+      setShowForm(false);
+      setFormData(emptyUserForm);
+    }
+  };
+
+  const handleResetPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!resetting) return;
+
+    const target = users.find(u => u.id === resetting.id);
+    const reset = await runAction(
+      () => userService.resetPassword(resetting.id, resetting.password, user),
+      `Password reset for ${target?.email}.`
+    );
+    if (reset) setResetting(null);
+  };
+
+  const handlePolicyChange = (role: Role, field: keyof SessionPolicies[Role], value: string) => {
+    setSessionPolicies(prev => ({
+      ...prev,
+      [role]: { ...prev[role], [field]: parseFloat(value) || 0 },
+    }));
+  };
+
+  const handleSaveSessionPolicies = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await runAction(
+      () => sessionSettingsService.update(sessionPolicies, user),
+      'Session timeouts saved. They apply to active sessions straight away.'
+    );
+  };
+
+  const togglePermission = (role: Role, permission: Permission) => {
+    setRolePermissions(prev => ({
+      ...prev,
+      [role]: prev[role].includes(permission)
+        ? prev[role].filter(p => p !== permission)
+        : [...prev[role], permission],
+    }));
+  };
+
+  const handleSavePermissions = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await runAction(
+      async () => setRolePermissions(await permissionService.update(rolePermissions, user)),
+      'Role permissions saved.'
+    );
+  };
+
+  const handleDelete = async (account: UserAccount) => {
+    if (!window.confirm(`Are you sure you want to delete ${account.email}?`)) {
+      return;
+    }
+    await runAction(() => userService.delete(account.id, user), `User ${account.email} deleted.`);
+  };
+
+  if (!permissionService.can(user, 'users.manage')) {
+    return (
+      <div className="space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Users</h1>
+          <p className="text-gray-600">Manage staff accounts and roles.</p>
+        </div>
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-6">
+          <p className="text-yellow-800">You don't have permission to manage users.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Users</h1>
+          <p className="text-gray-600">Manage staff accounts and roles.</p>
+        </div>
+        {!showForm && (
+          <button
+            onClick={() => { setShowForm(true); setMessage(null); }}
+            className="flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg transition duration-200"
+          >
+            <UserPlus size={16} />
+            <span>Add User</span>
+          </button>
+        )}
+      </div>
+
+      {message && (
+        <div className={`p-4 rounded-lg ${
+          message.type === 'success' ? 'bg-green-50 border border-green-200' : 'bg-red-50 border border-red-200'
+        }`}>
+          <p className={`text-sm ${message.type === 'success' ? 'text-green-600' : 'text-red-600'}`}>
+            {message.text}
+          </p>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="bg-white rounded-xl shadow-md p-8 space-y-6">
+          <h3 className="text-lg font-semibold text-gray-900 border-b pb-2">New User</h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Email *</label>
+              <input
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                className={inputClass}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Password *</label>
+              <input
+                type="password"
+                value={formData.password}
+                onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                className={inputClass}
+                minLength={MIN_PASSWORD_LENGTH}
+                autoComplete="new-password"
+                required
+              />
+              <p className="mt-1 text-xs text-gray-500">At least {MIN_PASSWORD_LENGTH} characters</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Role</label>
+              <select
+                value={formData.role}
+                onChange={(e) => setFormData({ ...formData, role: e.target.value as Role })}
+                className={inputClass}
+              >
+                {ROLES.map(({ role, label }) => (
+                  <option key={role} value={role}>{label}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="flex space-x-4 pt-6 border-t">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-6 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+            >
+              <Save size={20} />
+              <span>{saving ? 'Saving...' : 'Create User'}</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => { setShowForm(false); setFormData(emptyUserForm); }}
+              className="flex items-center space-x-2 bg-gray-500 hover:bg-gray-600 text-white px-6 py-2 rounded-lg transition duration-200"
+            >
+              <X size={20} />
+              <span>Cancel</span>
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-white rounded-xl shadow-md p-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-2">Email</th>
+              <th className="py-2">Role</th>
+              <th className="py-2">Status</th>
+              <th className="py-2">Created</th>
+              <th className="py-2 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {users.map((account) => {
+              const isSelf = account.id === user.id;
+
+              return (
+                <React.Fragment key={account.id}>
+                  <tr className="border-b border-gray-100">
+                    <td className="py-3">
+                      {account.email}
+                      {isSelf && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                    </td>
+                    <td className="py-3">
+                      <select
+                        value={account.role}
+                        disabled={isSelf || saving}
+                        onChange={(e) => runAction(
+                          () => userService.update(account.id, { role: e.target.value as Role }, user),
+                          `${account.email} is now ${getRoleLabel(e.target.value as Role)}.`
+                        )}
+                        className="px-2 py-1 border border-gray-300 rounded-lg disabled:bg-gray-100 disabled:text-gray-500"
+                      >
+                        {ROLES.map(({ role, label }) => (
+                          <option key={role} value={role}>{label}</option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-3">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                        account.disabled ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'
+                      }`}>
+                        {account.disabled ? 'Disabled' : 'Active'}
+                      </span>
+                    </td>
+                    <td className="py-3 text-gray-600">{new Date(account.created_at).toLocaleDateString()}</td>
+                    <td className="py-3">
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          onClick={() => setResetting({ id: account.id, password: '' })}
+                          title="Reset password"
+                          className="flex items-center justify-center bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 px-3 rounded-lg transition-colors"
+                        >
+                          <KeyRound size={16} />
+                        </button>
+                        {!isSelf && (
+                          <>
+                            <button
+                              onClick={() => runAction(
+                                () => userService.update(account.id, { disabled: !account.disabled }, user),
+                                `${account.email} ${account.disabled ? 'enabled' : 'disabled'}.`
+                              )}
+                              disabled={saving}
+                              title={account.disabled ? 'Enable user' : 'Disable user'}
+                              className="flex items-center justify-center bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 px-3 rounded-lg transition-colors disabled:opacity-50"
+                            >
+                              {account.disabled ? <UserCheck size={16} /> : <UserX size={16} />}
+                            </button>
+                            <button
+                              onClick={() => handleDelete(account)}
+                              disabled={saving}
+                              title="Delete user"
+                              className="flex items-center justify-center bg-red-500 hover:bg-red-600 text-white py-2 px-3 rounded-lg transition-colors disabled:opacity-50"
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+
+                  {resetting?.id === account.id && (
+                    <tr className="border-b border-gray-100 bg-gray-50">
+                      <td colSpan={5} className="py-3 px-2">
+                        <form onSubmit={handleResetPassword} className="flex items-center space-x-2">
+                          <span className="text-gray-600">New password for {account.email}:</span>
+                          <input
+                            type="password"
+                            value={resetting.password}
+                            onChange={(e) => setResetting({ ...resetting, password: e.target.value })}
+                            className="px-3 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+                            minLength={MIN_PASSWORD_LENGTH}
+                            autoComplete="new-password"
+                            required
+                          />
+                          <button
+                            type="submit"
+                            disabled={saving}
+                            className="bg-orange-500 hover:bg-orange-600 text-white px-3 py-1 rounded-lg disabled:opacity-50"
+                          >
+                            Reset
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setResetting(null)}
+                            className="bg-gray-500 hover:bg-gray-600 text-white px-3 py-1 rounded-lg"
+                          >
+                            Cancel
+                          </button>
+                        </form>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {users.length === 0 && (
+          <div className="text-center py-12">
+            <UserCog size={48} className="mx-auto text-gray-400 mb-4" />
+            <p className="text-gray-500 text-lg">No users found.</p>
+          </div>
+        )}
+      </div>
+
+      {/* Session Timeouts */}
+      <form onSubmit={handleSaveSessionPolicies} className="bg-white rounded-xl shadow-md p-6">
+        <h3 className="flex items-center text-lg font-semibold text-gray-900 mb-1">
+          <Clock size={20} className="mr-2 text-orange-500" />
+          Session Timeouts
+        </h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Users are signed out after the idle timeout or the maximum session length, whichever comes first.
+        </p>
+
+        <table className="w-full text-sm max-w-2xl">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-2">Role</th>
+              <th className="py-2">Idle Timeout (minutes)</th>
+              <th className="py-2">Maximum Session (hours)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ROLES.map(({ role, label }) => (
+              <tr key={role} className="border-b border-gray-100">
+                <td className="py-2">{label}</td>
+                <td className="py-2">
+                  <input
+                    type="number"
+                    value={sessionPolicies[role].idle_timeout_minutes}
+                    onChange={(e) => handlePolicyChange(role, 'idle_timeout_minutes', e.target.value)}
+                    className="w-28 px-2 py-1 border border-gray-300 rounded-lg"
+                    min="2"
+                  />
+                </td>
+                <td className="py-2">
+                  <input
+                    type="number"
+                    value={sessionPolicies[role].max_session_hours}
+                    onChange={(e) => handlePolicyChange(role, 'max_session_hours', e.target.value)}
+                    className="w-28 px-2 py-1 border border-gray-300 rounded-lg"
+                    step="0.5"
+                    min="0.5"
+                    max={MAX_SESSION_HOURS}
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="mt-4 flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-6 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+        >
+          <Save size={20} />
+          <span>Save Timeouts</span>
+        </button>
+      </form>
+
+      {/* Role Permissions */}
+      <form onSubmit={handleSavePermissions} className="bg-white rounded-xl shadow-md p-6">
+        <h3 className="flex items-center text-lg font-semibold text-gray-900 mb-1">
+          <ShieldCheck size={20} className="mr-2 text-orange-500" />
+          Role Permissions
+        </h3>
+        <p className="text-sm text-gray-600 mb-4">
+          What each role is allowed to do. Admins always have every permission.
+        </p>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600 border-b">
+              <th className="py-2">Permission</th>
+              {ROLES.map(({ role, label }) => (
+                <th key={role} className="py-2 text-center">{label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {PERMISSIONS.map(({ permission, label, description }) => (
+              <tr key={permission} className="border-b border-gray-100">
+                <td className="py-2">
+                  <p className="font-medium text-gray-900">{label}</p>
+                  <p className="text-xs text-gray-500">{description}</p>
+                </td>
+                {ROLES.map(({ role }) => (
+                  <td key={role} className="py-2 text-center">
+                    <input
+                      type="checkbox"
+                      checked={rolePermissions[role].includes(permission)}
+                      onChange={() => togglePermission(role, permission)}
+                      disabled={role === 'admin' || saving}
+                      className="h-4 w-4 accent-orange-500"
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="mt-4 flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-6 py-2 rounded-lg transition duration-200 disabled:opacity-50"
+        >
+          <Save size={20} />
+          <span>Save Permissions</span>
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default Users;
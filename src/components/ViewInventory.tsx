@@ -1,38 +1,56 @@
 import React, { useState, useEffect } from 'react';
-import { Search, Package, Edit, Trash2, Eye, AlertTriangle } from 'lucide-react';
-import { productService } from '../lib/localStorage';
-import { User, Product } from '../App';
+import { Search, Package, Edit, Trash2, Eye, AlertTriangle, Download, Tag } from 'lucide-react';
+import { productService, supplierService, permissionService } from '../lib/localStorage';
+import { useDataRefresh } from '../hooks/useDataRefresh';
+import { PRODUCT_CATEGORIES } from '../lib/productForm';
+import { LowStockMode, isLowStock, sortLocations, getLowStockLocations } from '../lib/stock';
+import { CatalogExportFormat, catalogToCSV, catalogToJSON } from '../lib/catalogExport';
+import { downloadFile, dateStamp } from '../lib/download';
+import { LabelRequest } from '../lib/labels';
+import { User, Product, Supplier } from '../App';
 
 interface ViewInventoryProps {
   user: User;
+  onViewProduct: (productId: string) => void;
+  onEditProduct: (productId: string) => void;
+  onPrintLabels: (requests: LabelRequest[]) => void;
 }
 
-const ViewInventory: React.FC<ViewInventoryProps> = ({ user }) => {
+const ViewInventory: React.FC<ViewInventoryProps> = ({ user, onViewProduct, onEditProduct, onPrintLabels }) => {
   const [products, setProducts] = useState<Product[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedCategory, setSelectedCategory] = useState('');
   const [stockFilter, setStockFilter] = useState<'all' | 'low' | 'out'>('all');
+  const [lowStockMode, setLowStockMode] = useState<LowStockMode>('total');
+  const [exportScope, setExportScope] = useState<'filtered' | 'all'>('filtered');
+  // Products picked for label printing
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
-  const categories = [
-    'Hardware', 'Tools', 'Electrical', 'Plumbing', 'Paint & Supplies',
-    'Fasteners', 'Building Materials', 'Safety Equipment', 'Garden & Outdoor', 'Other'
-  ];
+  const canEditProducts = permissionService.can(user, 'product.edit');
+  const canDeleteProducts = permissionService.can(user, 'product.delete');
 
   useEffect(() => {
     fetchProducts();
   }, []);
 
+  useDataRefresh(['product', 'stock_movement', 'supplier'], () => fetchProducts());
+
   useEffect(() => {
     applyFilters();
-  }, [products, searchTerm, selectedCategory, stockFilter]);
+  }, [products, searchTerm, selectedCategory, stockFilter, lowStockMode]);
 
   const fetchProducts = async () => {
     try {
       setLoading(true);
-      const data = await productService.getAll();
+      const [data, supplierData] = await Promise.all([
+        productService.getAll(),
+        supplierService.getAll(),
+      ]);
       setProducts(data);
+      setSuppliers(supplierData);
     } catch (error) {
       console.error('Error fetching products:', error);
     } finally {
@@ -60,7 +78,7 @@ const ViewInventory: React.FC<ViewInventoryProps> = ({ user }) => {
     // Stock filter
     if (stockFilter === 'low') {
       filtered = filtered.filter(product => 
-        product.current_stock <= product.min_stock_level && product.current_stock > 0
+        isLowStock(product, lowStockMode) && product.current_stock > 0
       );
     } else if (stockFilter === 'out') {
       filtered = filtered.filter(product => product.current_stock === 0);
@@ -72,28 +90,61 @@ const ViewInventory: React.FC<ViewInventoryProps> = ({ user }) => {
   const getStockStatus = (product: Product) => {
     if (product.current_stock === 0) {
       return { status: 'out', color: 'bg-red-100 text-red-800', label: 'Out of Stock' };
-    } else if (product.current_stock <= product.min_stock_level) {
+    } else if (isLowStock(product, lowStockMode)) {
       return { status: 'low', color: 'bg-yellow-100 text-yellow-800', label: 'Low Stock' };
     } else {
       return { status: 'good', color: 'bg-green-100 text-green-800', label: 'In Stock' };
     }
   };
 
-  const handleDelete = async (productId: string) => {
-    if (user.role !== 'admin') {
-      alert('Only administrators can delete products.');
-      return;
+  const handleExport = (format: CatalogExportFormat) => {
+    const exported = exportScope === 'all' ? products : filteredProducts;
+    const filename = `catalog-${exportScope === 'all' ? 'all' : 'filtered'}-${dateStamp()}.${format}`;
+
+    if (format === 'csv') {
+      downloadFile(catalogToCSV(exported, suppliers), filename, 'text/csv;charset=utf-8');
+    } else {
+      downloadFile(catalogToJSON(exported, suppliers), filename, 'application/json');
     }
+  };
+
+  const toggleSelected = (productId: string) => {
+    setSelectedIds(ids => {
+      const next = new Set(ids);
+      if (next.has(productId)) {
+        next.delete(productId);
+      } else {
+        next.add(productId);
+      }
+      return next;
+    });
+  };
 
+  const allShownSelected = filteredProducts.length > 0 && filteredProducts.every(p => selectedIds.has(p.id));
+
+  const handleSelectAllShown = () => {
+    setSelectedIds(allShownSelected ? new Set() : new Set(filteredProducts.map(p => p.id)));
+  };
+
+  const handlePrintLabels = () => {
+    // Deleted products drop out of the selection
+    const requests = products
+      .filter(p => selectedIds.has(p.id))
+      .map(p => ({ product_id: p.id, copies: 1 }));
+    onPrintLabels(requests);
+  };
+
+  const handleDelete = async (productId: string) => {
     if (!window.confirm('Are you sure you want to delete this product?')) {
       return;
     }
 
     try {
-      await productService.delete(productId);
+      await productService.delete(productId, user);
       setProducts(products.filter(p => p.id !== productId));
     } catch (error) {
       console.error('Error deleting product:', error);
+      alert(error instanceof Error ? error.message : 'Failed to delete product.');
     }
   };
 
@@ -107,14 +158,48 @@ const ViewInventory: React.FC<ViewInventoryProps> = ({ user }) => {
 
   return (
     <div className="space-y-8">
-      <div>
-        <h1 className="text-3xl font-bold text-gray-900 mb-2">Inventory Overview</h1>
-        <p className="text-gray-600">View and manage all products in your inventory.</p>
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Inventory Overview</h1>
+          <p className="text-gray-600">View and manage all products in your inventory.</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <select
+            value={exportScope}
+            onChange={(e) => setExportScope(e.target.value as 'filtered' | 'all')}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+          >
+            <option value="filtered">Current view ({filteredProducts.length})</option>
+            <option value="all">All products ({products.length})</option>
+          </select>
+          <button
+            onClick={() => handleExport('csv')}
+            className="flex items-center space-x-2 bg-orange-500 hover:bg-orange-600 text-white px-4 py-2 rounded-lg transition duration-200"
+          >
+            <Download size={16} />
+            <span>Export CSV</span>
+          </button>
+          <button
+            onClick={() => handleExport('json')}
+            className="flex items-center space-x-2 bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition duration-200"
+          >
+            <Download size={16} />
+            <span>Export JSON</span>
+          </button>
+          <button
+            onClick={handlePrintLabels}
+            disabled={selectedIds.size === 0}
+            className="flex items-center space-x-2 bg-gray-500 hover:bg-gray-600 text-white px-4 py-2 rounded-lg transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Tag size={16} />
+            <span>Print Labels ({selectedIds.size})</span>
+          </button>
+        </div>
       </div>
 
       {/* Filters */}
       <div className="bg-white rounded-xl shadow-md p-6">
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
             <input
@@ -132,7 +217,7 @@ const ViewInventory: React.FC<ViewInventoryProps> = ({ user }) => {
             className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
           >
             <option value="">All Categories</option>
-            {categories.map(cat => (
+            {PRODUCT_CATEGORIES.map(cat => (
               <option key={cat} value={cat}>{cat}</option>
             ))}
           </select>
@@ -147,9 +232,25 @@ const ViewInventory: React.FC<ViewInventoryProps> = ({ user }) => {
             <option value="out">Out of Stock</option>
           </select>
 
-          <div className="text-sm text-gray-600 flex items-center">
-            <Package size={16} className="mr-2" />
-            {filteredProducts.length} products found
+          <select
+            value={lowStockMode}
+            onChange={(e) => setLowStockMode(e.target.value as LowStockMode)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-transparent"
+          >
+            <option value="total">Low Stock by Total</option>
+            <option value="location">Low Stock per Location</option>
+          </select>
+
+          <div className="text-sm text-gray-600 flex items-center justify-between">
+            <span className="flex items-center">
+              <Package size={16} className="mr-2" />
+              {filteredProducts.length} products found
+            </span>
+            {filteredProducts.length > 0 && (
+              <button onClick={handleSelectAllShown} className="text-orange-600 hover:text-orange-700">
+                {allShownSelected ? 'Clear selection' : 'Select all'}
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -158,11 +259,19 @@ const ViewInventory: React.FC<ViewInventoryProps> = ({ user }) => {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {filteredProducts.map((product) => {
           const stockStatus = getStockStatus(product);
+          const lowLocations = new Set(getLowStockLocations(product).map(l => l.location));
           
           return (
             <div key={product.id} className="bg-white rounded-xl shadow-md overflow-hidden hover:shadow-lg transition-shadow">
               <div className="p-6">
                 <div className="flex items-start justify-between mb-4">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(product.id)}
+                    onChange={() => toggleSelected(product.id)}
+                    className="mt-1.5 mr-3 h-4 w-4 accent-orange-500"
+                    aria-label={`Select ${product.name} for labels`}
+                  />
                   <div className="flex-1">
                     <h3 className="text-lg font-semibold text-gray-900 mb-1">{product.name}</h3>
                     <p className="text-sm text-gray-600 mb-2">{product.brand}</p>
@@ -184,9 +293,24 @@ const ViewInventory: React.FC<ViewInventoryProps> = ({ user }) => {
                     <span className="text-sm">{product.min_stock_level}</span>
                   </div>
                   
-                  <div className="flex justify-between items-center">
-                    <span className="text-sm text-gray-600">Location:</span>
-                    <span className="text-sm">{product.location}</span>
+                  <div className="flex justify-between items-start">
+                    <span className="text-sm text-gray-600">
+                      {product.stock_locations.length > 1 ? 'Locations:' : 'Location:'}
+                    </span>
+                    {product.stock_locations.length > 1 ? (
+                      <div className="text-sm text-right">
+                        {sortLocations(product).map(l => (
+                          <p
+                            key={l.location}
+                            className={lowStockMode === 'location' && lowLocations.has(l.location) ? 'text-yellow-600' : ''}
+                          >
+                            {l.location}: {l.quantity}
+                          </p>
+                        ))}
+                      </div>
+                    ) : (
+                      <span className="text-sm">{product.location}</span>
+                    )}
                   </div>
                   
                   <div className="flex justify-between items-center pt-2 border-t">
@@ -196,25 +320,31 @@ const ViewInventory: React.FC<ViewInventoryProps> = ({ user }) => {
                 </div>
 
                 <div className="flex space-x-2 mt-4">
-                  <button className="flex-1 flex items-center justify-center space-x-1 bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 px-3 rounded-lg text-sm transition-colors">
+                  <button
+                    onClick={() => onViewProduct(product.id)}
+                    className="flex-1 flex items-center justify-center space-x-1 bg-gray-100 hover:bg-gray-200 text-gray-700 py-2 px-3 rounded-lg text-sm transition-colors"
+                  >
                     <Eye size={16} />
                     <span>View</span>
                   </button>
                   
-                  {user.role === 'admin' && (
-                    <>
-                      <button className="flex-1 flex items-center justify-center space-x-1 bg-orange-500 hover:bg-orange-600 text-white py-2 px-3 rounded-lg text-sm transition-colors">
-                        <Edit size={16} />
-                        <span>Edit</span>
-                      </button>
-                      
-                      <button
-                        onClick={() => handleDelete(product.id)}
-                        className="flex items-center justify-center bg-red-500 hover:bg-red-600 text-white py-2 px-3 rounded-lg text-sm transition-colors"
-                      >
-                        <Trash2 size={16} />
-                      </button>
-                    </>
+                  {canEditProducts && (
+                    <button
+                      onClick={() => onEditProduct(product.id)}
+                      className="flex-1 flex items-center justify-center space-x-1 bg-orange-500 hover:bg-orange-600 text-white py-2 px-3 rounded-lg text-sm transition-colors"
+                    >
+                      <Edit size={16} />
+                      <span>Edit</span>
+                    </button>
+                  )}
+
+                  {canDeleteProducts && (
+                    <button
+                      onClick={() => handleDelete(product.id)}
+                      className="flex items-center justify-center bg-red-500 hover:bg-red-600 text-white py-2 px-3 rounded-lg text-sm transition-colors"
+                    >
+                      <Trash2 size={16} />
+                    </button>
                   )}
                 </div>
 
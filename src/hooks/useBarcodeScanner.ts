@@ -0,0 +1,14 @@
+import { useEffect, useRef } from 'react';
+import { subscribeScans } from '../lib/scanner';
+
+// Calls onScan with each code read by a keyboard-wedge scanner while enabled.
+// The most recently enabled scanner hook gets the scans (see scanner.ts).
+export const useBarcodeScanner = (onScan: (code: string) => void, enabled = true) => {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribeScans(code => onScanRef.current(code));
+  }, [enabled]);
+};
@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react';
+import { AuditEntityType } from '../App';
+import { subscribe } from '../lib/sync';
+
+// One change often touches several kinds of data (a receipt books a movement
+// and updates its purchase order), so refreshes within this window are merged
+const REFRESH_DELAY_MS = 100;
+
+// Calls refresh whenever another tab changes one of the given kinds of data,
+// so screens don't keep showing stale copies
+export const useDataRefresh = (entities: AuditEntityType[], refresh: () => void) => {
+  const refreshRef = useRef(refresh);
+  refreshRef.current = refresh;
+  const watched = entities.join(',');
+
+  useEffect(() => {
+    const entityList = watched.split(',');
+    let timer: number | undefined;
+
+    const unsubscribe = subscribe(message => {
+      if (message.type !== 'changed' || !entityList.includes(message.entity)) return;
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => refreshRef.current(), REFRESH_DELAY_MS);
+    });
+
+    return () => {
+      window.clearTimeout(timer);
+      unsubscribe();
+    };
+  }, [watched]);
+};
@@ -0,0 +1,125 @@
+// src/lib/adjustments.ts
+import { Product, StockMovement } from '../App';
+import { roundCents } from './sales';
+
+// Which way a reason code moves stock; 'either' allows both
+export type AdjustmentDirection = 'in' | 'out' | 'either';
+
+export interface AdjustmentReason {
+  code: string;
+  label: string;
+  direction: AdjustmentDirection;
+  // Counted in the shrinkage summary; stock found offsets stock lost
+  shrinkage: boolean;
+}
+
+export interface AdjustmentSettings {
+  reasons: AdjustmentReason[];
+  // Adjustments worth more than this at cost wait for approval
+  approval_threshold: number;
+}
+
+export const DEFAULT_ADJUSTMENT_SETTINGS: AdjustmentSettings = {
+  reasons: [
+    { code: 'damaged', label: 'Damaged', direction: 'out', shrinkage: true },
+    { code: 'theft', label: 'Theft', direction: 'out', shrinkage: true },
+    { code: 'expired', label: 'Expired', direction: 'out', shrinkage: true },
+    { code: 'found', label: 'Found', direction: 'in', shrinkage: true },
+    { code: 'customer_return', label: 'Customer return', direction: 'in', shrinkage: false },
+    { code: 'internal_use', label: 'Internal use', direction: 'out', shrinkage: false },
+  ],
+  approval_threshold: 250,
+};
+
+// Marks the count_correction movements booked from approved stock counts,
+// as opposed to opening balances
+export const STOCK_COUNT_REASON_CODE = 'stock_count';
+
+export const DIRECTION_LABELS: Record<AdjustmentDirection, string> = {
+  in: 'Adds stock',
+  out: 'Removes stock',
+  either: 'Adds or removes stock',
+};
+
+// Lower-case words joined by underscores, e.g. "Customer return" -> customer_return
+export const toReasonCode = (label: string) =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+
+export const validateAdjustmentSettings = (settings: AdjustmentSettings): string | null => {
+  if (settings.reasons.length === 0) return 'Keep at least one reason code';
+  const codes = new Set<string>();
+  for (const reason of settings.reasons) {
+    if (!reason.label.trim() || !reason.code) return 'Every reason code needs a name';
+    if (codes.has(reason.code)) return `There is more than one "${reason.label}" reason`;
+    codes.add(reason.code);
+  }
+  if (!(settings.approval_threshold >= 0)) return 'The approval limit must be $0 or more';
+  return null;
+};
+
+// Null when the quantity suits the reason
+export const validateAdjustment = (reason: AdjustmentReason | undefined, quantity: number): string | null => {
+  if (!reason) return 'Choose a reason for the adjustment';
+  if (!Number.isInteger(quantity) || quantity === 0) return 'Adjustment quantity must be a non-zero whole number';
+  if (reason.direction === 'in' && quantity < 0) return `${reason.label} can only add stock`;
+  if (reason.direction === 'out' && quantity > 0) return `${reason.label} can only remove stock`;
+  return null;
+};
+
+export const adjustmentValue = (quantity: number, unitCost: number) => roundCents(Math.abs(quantity) * unitCost);
+
+export interface ShrinkageLine {
+  // Reason code, or STOCK_COUNT_REASON_CODE for stock count variances
+  code: string;
+  label: string;
+  units: number;
+  cost: number;
+}
+
+export interface ShrinkageSummary {
+  lines: ShrinkageLine[];
+  // Net stock lost, as positive numbers
+  units: number;
+  cost: number;
+}
+
+// Stock lost to shrinkage reasons and stock count corrections since `since`,
+// valued at each product's current cost. Losses are positive.
+export const summarizeShrinkage = (
+  movements: StockMovement[],
+  products: Product[],
+  reasons: AdjustmentReason[],
+  since = ''
+): ShrinkageSummary => {
+  const costs = new Map(products.map(p => [p.id, p.cost_price]));
+  const labels = new Map(reasons.filter(r => r.shrinkage).map(r => [r.code, r.label]));
+  const byCode = new Map<string, ShrinkageLine>();
+
+  movements
+    .filter(m => m.created_at >= since)
+    .forEach(movement => {
+      const code = movement.type === 'count_correction'
+        ? movement.reason_code === STOCK_COUNT_REASON_CODE ? STOCK_COUNT_REASON_CODE : null
+        : movement.type === 'adjustment' && movement.reason_code && labels.has(movement.reason_code)
+          ? movement.reason_code
+          : null;
+      if (!code) return;
+
+      const line = byCode.get(code) || {
+        code,
+        label: code === STOCK_COUNT_REASON_CODE ? 'Stock count corrections' : labels.get(code) || code,
+        units: 0,
+        cost: 0,
+      };
+      line.units -= movement.quantity;
+      line.cost = roundCents(line.cost - movement.quantity * (costs.get(movement.product_id) || 0));
+      byCode.set(code, line);
+    });
+
+  const lines = Array.from(byCode.values()).sort((a, b) => b.cost - a.cost);
+  return {
+    lines,
+    units: lines.reduce((sum, l) => sum + l.units, 0),
+    cost: roundCents(lines.reduce((sum, l) => sum + l.cost, 0)),
+  };
+};
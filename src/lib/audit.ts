@@ -0,0 +1,26 @@
+// src/lib/audit.ts
+import { AuditChange } from '../App';
+
+// Bookkeeping fields that change on every write and would only add noise
+const IGNORED_FIELDS = ['id', 'version', 'created_at', 'updated_at'];
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Field-level diff of two versions of a record. Pass undefined for `before` on
+// create and for `after` on delete to list every field.
+export const diffRecords = (before?: object, after?: object): AuditChange[] => {
+  const beforeFields = (before || {}) as Record<string, unknown>;
+  const afterFields = (after || {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]));
+
+  return fields
+    .filter(field => !IGNORED_FIELDS.includes(field))
+    .filter(field => !isEqual(beforeFields[field], afterFields[field]))
+    .map(field => ({ field, before: beforeFields[field], after: afterFields[field] }));
+};
+
+export const formatAuditValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '-';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
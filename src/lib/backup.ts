@@ -0,0 +1,262 @@
+// src/lib/backup.ts
+import { AuditEntry, Product, PurchaseOrder, Sale, StockAdjustment, StockCount, StockMovement, Supplier } from '../App';
+import { AdjustmentSettings } from './adjustments';
+import { RolePermissions } from './permissions';
+import { ReorderSettings } from './reorder';
+import { SessionPolicies } from './session';
+import { StoredUser } from './storage';
+
+export const BACKUP_FORMAT = 'stockpile-backup';
+// Bumped when the file layout itself changes; record shapes follow schema_version
+export const BACKUP_FORMAT_VERSION = 1;
+
+export interface BackupCollections {
+  products: Product[];
+  users: StoredUser[];
+  suppliers: Supplier[];
+  stock_movements: StockMovement[];
+  purchase_orders: PurchaseOrder[];
+  sales: Sale[];
+  stock_counts: StockCount[];
+  stock_adjustments: StockAdjustment[];
+  audit_log: AuditEntry[];
+}
+
+export type BackupCollection = keyof BackupCollections;
+
+// Fields every record must have for the file to be accepted, besides `id`.
+// Collections added after the first backups were made are optional, and
+// count as empty in files that don't have them.
+export const BACKUP_COLLECTIONS: { collection: BackupCollection; label: string; required: string[]; optional?: boolean }[] = [
+  { collection: 'products', label: 'Products', required: ['name', 'sku'] },
+  { collection: 'users', label: 'Users', required: ['email', 'role', 'password_hash'] },
+  { collection: 'suppliers', label: 'Suppliers', required: ['name'] },
+  { collection: 'stock_movements', label: 'Stock movements', required: ['product_id', 'type', 'quantity'] },
+  { collection: 'purchase_orders', label: 'Purchase orders', required: ['po_number', 'status', 'lines'] },
+  { collection: 'sales', label: 'Sales', required: ['sale_number', 'lines'], optional: true },
+  { collection: 'stock_counts', label: 'Stock counts', required: ['count_number', 'status', 'lines'], optional: true },
+  { collection: 'stock_adjustments', label: 'Stock adjustments', required: ['product_id', 'quantity', 'status'], optional: true },
+  { collection: 'audit_log', label: 'Audit log entries', required: ['action', 'entity_type'] },
+];
+
+// Admin-edited settings, stored as they are saved
+export interface BackupSettings {
+  role_permissions?: Partial<RolePermissions>;
+  session_settings?: Partial<SessionPolicies>;
+  adjustment_settings?: Partial<AdjustmentSettings>;
+  reorder_settings?: Partial<ReorderSettings>;
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  format_version: number;
+  // Schema version of the data (see migrations.ts)
+  schema_version: number;
+  created_at: string;
+  created_by: string;
+  collections: BackupCollections;
+  settings: BackupSettings;
+}
+
+// Replace makes the data exactly what is in the file. Merge adds records that
+// are missing and takes the backup's copy of a record only when it is newer.
+export type RestoreMode = 'merge' | 'replace';
+
+export interface CollectionDiff {
+  collection: BackupCollection;
+  label: string;
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+}
+
+export interface RestorePlan {
+  collections: BackupCollections;
+  diffs: CollectionDiff[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const validateBackup = (
+  value: unknown,
+  currentSchemaVersion: number
+): { backup: BackupFile | null; errors: string[] } => {
+  if (!isRecord(value) || value.format !== BACKUP_FORMAT) {
+    return { backup: null, errors: ['This is not a Stockpile backup file'] };
+  }
+  if (value.format_version !== BACKUP_FORMAT_VERSION) {
+    return { backup: null, errors: [`Backup format version ${value.format_version} is not supported`] };
+  }
+
+  const errors: string[] = [];
+  if (typeof value.schema_version !== 'number') {
+    errors.push('Missing schema version');
+  } else if (value.schema_version > currentSchemaVersion) {
+    errors.push('This backup was made by a newer version of Stockpile. Update the app before restoring it.');
+  }
+  if (!isRecord(value.settings)) errors.push('Missing settings');
+
+  const collections = isRecord(value.collections) ? value.collections : {};
+  BACKUP_COLLECTIONS.forEach(({ collection, label, required, optional }) => {
+    if (optional && collections[collection] === undefined) collections[collection] = [];
+    const records = collections[collection];
+    if (!Array.isArray(records)) {
+      errors.push(`${label}: missing from the file`);
+      return;
+    }
+
+    const ids = new Set<string>();
+    records.forEach((record, index) => {
+      if (!isRecord(record) || typeof record.id !== 'string' || !record.id) {
+        errors.push(`${label} #${index + 1}: missing id`);
+        return;
+      }
+      if (ids.has(record.id)) errors.push(`${label} #${index + 1}: duplicate id ${record.id}`);
+      ids.add(record.id);
+
+      const missing = required.filter(field => record[field] === undefined || record[field] === null);
+      if (missing.length > 0) errors.push(`${label} #${index + 1}: missing ${missing.join(', ')}`);
+    });
+  });
+
+  // Long lists of broken records aren't useful; the first few show what's wrong
+  return errors.length > 0
+    ? { backup: null, errors: errors.slice(0, 20) }
+    : { backup: value as unknown as BackupFile, errors: [] };
+};
+
+// Older backups hold records in an older shape. Replacing lets the startup
+// migrations bring them up to date; merging them into current data can't.
+export const validateRestoreMode = (backup: BackupFile, mode: RestoreMode, currentSchemaVersion: number) =>
+  mode === 'merge' && backup.schema_version !== currentSchemaVersion
+    ? 'This backup is from an older version of Stockpile and can only be restored with Replace'
+    : null;
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const planCollection = <T extends { id: string; updated_at?: string }>(
+  current: T[],
+  incoming: T[],
+  mode: RestoreMode
+) => {
+  const currentById = new Map(current.map(r => [r.id, r]));
+  const incomingIds = new Set(incoming.map(r => r.id));
+  const diff = { added: 0, updated: 0, removed: 0, unchanged: 0 };
+  const result = new Map<string, T>(mode === 'merge' ? currentById : []);
+
+  incoming.forEach(record => {
+    const existing = currentById.get(record.id);
+    if (!existing) {
+      diff.added++;
+      result.set(record.id, record);
+    } else if (isEqual(existing, record)) {
+      diff.unchanged++;
+      result.set(record.id, record);
+    } else if (mode === 'replace' || !existing.updated_at || !record.updated_at || record.updated_at > existing.updated_at) {
+      diff.updated++;
+      result.set(record.id, record);
+    } else {
+      diff.unchanged++;
+    }
+  });
+
+  current
+    .filter(r => !incomingIds.has(r.id))
+    .forEach(() => (mode === 'replace' ? diff.removed++ : diff.unchanged++));
+
+  return { records: Array.from(result.values()), diff };
+};
+
+// A merge can keep one side's copy of a product while taking stock movements
+// from both, so each product's stock is worked out again from the merged
+// ledger, bin by bin. Movements without a location count towards the primary
+// location, and products without any movements are left as they are.
+export const rebalanceStock = (products: Product[], movements: StockMovement[], now = new Date()): Product[] => {
+  const movementsByProduct = new Map<string, StockMovement[]>();
+  movements.forEach(m => movementsByProduct.set(m.product_id, [...(movementsByProduct.get(m.product_id) || []), m]));
+
+  return products.map(product => {
+    const ledger = movementsByProduct.get(product.id);
+    if (!ledger) return product;
+
+    const quantities = new Map<string, number>(product.stock_locations.map(l => [l.location, 0]));
+    ledger.forEach(m => {
+      const location = m.location || product.location;
+      quantities.set(location, (quantities.get(location) || 0) + m.quantity);
+    });
+    const stockLocations = Array.from(quantities, ([location, quantity]) => ({
+      ...product.stock_locations.find(l => l.location === location),
+      location,
+      quantity,
+    }));
+    const currentStock = ledger.reduce((sum, m) => sum + m.quantity, 0);
+    if (currentStock === product.current_stock && isEqual(stockLocations, product.stock_locations)) return product;
+
+    return {
+      ...product,
+      current_stock: currentStock,
+      stock_locations: stockLocations,
+      version: product.version + 1,
+      updated_at: now.toISOString(),
+    };
+  });
+};
+
+// Works out the data a restore would leave behind and how it differs from
+// now. The same plan backs the preview and the restore, so they always agree.
+export const planRestore = (current: BackupCollections, backup: BackupFile, mode: RestoreMode): RestorePlan => {
+  const collections = {} as Record<BackupCollection, unknown[]>;
+  const diffs = BACKUP_COLLECTIONS.map(({ collection, label }) => {
+    const { records, diff } = planCollection<{ id: string; updated_at?: string }>(
+      current[collection],
+      backup.collections[collection],
+      mode
+    );
+    collections[collection] = records;
+    return { collection, label, ...diff };
+  });
+
+  const planned = collections as unknown as BackupCollections;
+  if (mode === 'merge') {
+    const merged = planned.products;
+    planned.products = rebalanceStock(merged, planned.stock_movements);
+
+    // Products whose stock changed only through the rebalance are updates too
+    const currentById = new Map(current.products.map(p => [p.id, p]));
+    const productDiff = diffs.find(d => d.collection === 'products');
+    planned.products.forEach((product, index) => {
+      const existing = currentById.get(product.id);
+      if (productDiff && existing && product !== merged[index] && isEqual(existing, merged[index])) {
+        productDiff.unchanged--;
+        productDiff.updated++;
+      }
+    });
+  }
+
+  return { collections: planned, diffs };
+};
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+export const encodeBackup = async (backup: BackupFile, compress: boolean): Promise<Blob> => {
+  const json = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  if (!compress) return json;
+  return new Response(json.stream().pipeThrough(new CompressionStream('gzip'))).blob();
+};
+
+// Accepts plain or gzip-compressed JSON, detected from the file contents
+export const decodeBackup = async (file: Blob): Promise<unknown> => {
+  const header = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  const compressed = GZIP_MAGIC.every((byte, i) => header[i] === byte);
+  const text = compressed
+    ? await new Response(file.stream().pipeThrough(new DecompressionStream('gzip'))).text()
+    : await file.text();
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+};
@@ -0,0 +1,92 @@
+// src/lib/barcode.ts
+import { Product } from '../App';
+import { gtinFormat, isValidGtin } from './validation';
+
+export type Symbology = 'code128' | 'ean13' | 'upca';
+
+// A barcode as a run of modules (the narrowest bar width): '1' is a bar and
+// '0' a space. Quiet zones are left to the renderer.
+export interface EncodedBarcode {
+  symbology: Symbology;
+  // Printed under the bars
+  text: string;
+  modules: string;
+}
+
+// Code 128 symbols by value: widths of bar, space, bar, space, bar, space
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232',
+];
+const CODE128_START_B = 104;
+// The stop symbol has a seventh, terminating bar
+const CODE128_STOP = '2331112';
+
+const widthsToModules = (widths: string) =>
+  widths
+    .split('')
+    .map((width, i) => (i % 2 === 0 ? '1' : '0').repeat(Number(width)))
+    .join('');
+
+// Code set B covers printable ASCII, which is enough for SKUs and in-house codes
+export const encodeCode128 = (text: string): EncodedBarcode => {
+  if (!text) throw new Error('Nothing to encode');
+
+  const values = text.split('').map(char => {
+    const code = char.charCodeAt(0);
+    if (code < 32 || code > 126) throw new Error(`"${char}" can't be printed in a Code 128 barcode`);
+    return code - 32;
+  });
+
+  const checksum = values.reduce((sum, value, i) => sum + value * (i + 1), CODE128_START_B) % 103;
+  const modules = [CODE128_START_B, ...values, checksum]
+    .map(value => widthsToModules(CODE128_PATTERNS[value]))
+    .join('') + widthsToModules(CODE128_STOP);
+
+  return { symbology: 'code128', text, modules };
+};
+
+// EAN digit encodings. Right-hand digits are the L codes inverted, and the
+// G codes are the right-hand codes reversed.
+const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const EAN_R = EAN_L.map(code => code.replace(/./g, bit => (bit === '1' ? '0' : '1')));
+const EAN_G = EAN_R.map(code => code.split('').reverse().join(''));
+// Which left-hand digits use G codes; this is how the first digit is encoded
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+// UPC-A is EAN-13 with a leading zero, so both print the same bars
+export const encodeEAN13 = (code: string): EncodedBarcode => {
+  if (!isValidGtin(code) || (code.length !== 12 && code.length !== 13)) {
+    throw new Error(`${code} is not a valid UPC-A or EAN-13 barcode`);
+  }
+
+  const digits = (code.length === 12 ? `0${code}` : code).split('').map(Number);
+  const parity = EAN_PARITY[digits[0]];
+  const left = digits.slice(1, 7).map((digit, i) => (parity[i] === 'G' ? EAN_G : EAN_L)[digit]).join('');
+  const right = digits.slice(7).map(digit => EAN_R[digit]).join('');
+
+  return {
+    symbology: code.length === 12 ? 'upca' : 'ean13',
+    text: code,
+    modules: `101${left}01010${right}101`,
+  };
+};
+
+// The barcode printed on a product's label: its UPC or EAN barcode as is,
+// any other barcode as Code 128, and the SKU when it has no barcode
+export const productBarcode = (product: Pick<Product, 'barcode' | 'sku'>): EncodedBarcode => {
+  const barcode = product.barcode?.trim();
+  if (barcode && isValidGtin(barcode) && ['UPC-A', 'EAN-13'].includes(gtinFormat(barcode) || '')) {
+    return encodeEAN13(barcode);
+  }
+  return encodeCode128(barcode || product.sku);
+};
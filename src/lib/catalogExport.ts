@@ -0,0 +1,58 @@
+// src/lib/catalogExport.ts
+import { Product, Supplier } from '../App';
+import { toCSV, CSVValue } from './csv';
+import { sortLocations } from './stock';
+
+export type CatalogExportFormat = 'csv' | 'json';
+
+// Column order for the CSV export. Headers use the Product field names so the
+// file can be fed straight back into the product import.
+const CSV_COLUMNS: { header: string; value: (product: Product, supplier?: Supplier) => CSVValue }[] = [
+  { header: 'id', value: p => p.id },
+  { header: 'sku', value: p => p.sku },
+  { header: 'name', value: p => p.name },
+  { header: 'description', value: p => p.description },
+  { header: 'category', value: p => p.category },
+  { header: 'brand', value: p => p.brand },
+  { header: 'barcode', value: p => p.barcode },
+  { header: 'current_stock', value: p => p.current_stock },
+  { header: 'min_stock_level', value: p => p.min_stock_level },
+  { header: 'max_stock_level', value: p => p.max_stock_level },
+  { header: 'cost_price', value: p => p.cost_price.toFixed(2) },
+  { header: 'selling_price', value: p => p.selling_price.toFixed(2) },
+  { header: 'supplier_id', value: p => p.supplier_id },
+  { header: 'supplier_name', value: (_p, s) => s?.name },
+  { header: 'location', value: p => p.location },
+  // Every bin as "location:quantity", primary first, separated by semicolons
+  {
+    header: 'stock_locations',
+    value: p => sortLocations(p).map(l => `${l.location}:${l.quantity}`).join('; '),
+  },
+  { header: 'created_at', value: p => p.created_at },
+  { header: 'updated_at', value: p => p.updated_at },
+];
+
+export const catalogToCSV = (products: Product[], suppliers: Supplier[]): string => {
+  const suppliersById = new Map(suppliers.map(s => [s.id, s]));
+
+  return toCSV([
+    CSV_COLUMNS.map(c => c.header),
+    ...products.map(product =>
+      CSV_COLUMNS.map(c => c.value(product, suppliersById.get(product.supplier_id)))
+    ),
+  ]);
+};
+
+// JSON keeps the full Product records, with the supplier name alongside the id
+export const catalogToJSON = (products: Product[], suppliers: Supplier[]): string => {
+  const suppliersById = new Map(suppliers.map(s => [s.id, s]));
+
+  return JSON.stringify(
+    products.map(product => ({
+      ...product,
+      supplier_name: suppliersById.get(product.supplier_id)?.name || '',
+    })),
+    null,
+    2
+  );
+};
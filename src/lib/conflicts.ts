@@ -0,0 +1,40 @@
+// src/lib/conflicts.ts
+import { Product } from '../App';
+
+// Thrown when a product edit was based on a version someone else has since
+// replaced. `current` is the product as it is now stored.
+export class ConflictError extends Error {
+  current: Product;
+
+  constructor(current: Product) {
+    super(`${current.name} was changed by someone else while you were editing it`);
+    this.name = 'ConflictError';
+    this.current = current;
+  }
+}
+
+export interface FieldConflict<T> {
+  field: keyof T;
+  mine: T[keyof T];
+  theirs: T[keyof T];
+}
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Three-way comparison of an edit against the record it started from and the
+// record someone else saved meanwhile. `changes` holds every field the edit
+// touched; a field conflicts when both sides changed it to different values.
+export const mergeEdits = <T extends object>(base: T, mine: T, theirs: T) => {
+  const fields = (Object.keys(mine) as (keyof T)[]).filter(field => !isEqual(mine[field], base[field]));
+
+  const changes: Partial<T> = {};
+  fields.forEach(field => {
+    changes[field] = mine[field];
+  });
+
+  const conflicts: FieldConflict<T>[] = fields
+    .filter(field => !isEqual(theirs[field], base[field]) && !isEqual(theirs[field], mine[field]))
+    .map(field => ({ field, mine: mine[field], theirs: theirs[field] }));
+
+  return { changes, conflicts };
+};
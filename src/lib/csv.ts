@@ -0,0 +1,78 @@
+// src/lib/csv.ts
+
+// RFC 4180 parser: quoted fields may contain commas, doubled quotes and line breaks.
+// Blank lines are skipped.
+export const parseCSV = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+};
+
+export type CSVValue = string | number | boolean | null | undefined;
+
+// Spreadsheets run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMERIC = /^-?\d+(\.\d+)?$/;
+// One or more apostrophes in front of a formula character
+const GUARDED = /^'+[=+\-@\t\r]/;
+
+// Text that a spreadsheet would treat as a formula gets a leading
+// apostrophe, which shows it as plain text. Negative numbers are left alone.
+// Text that already looks guarded gets a second one so unguardFormula
+// gives it back as it was.
+export const guardFormula = (text: string): string =>
+  (FORMULA_PREFIX.test(text) && !NUMERIC.test(text)) || GUARDED.test(text) ? `'${text}` : text;
+
+// Undoes guardFormula, so exported files can be imported again unchanged
+export const unguardFormula = (text: string): string => (GUARDED.test(text) ? text.slice(1) : text);
+
+// Quotes a field only when it has to: commas, quotes, line breaks or
+// surrounding whitespace. Embedded quotes are doubled, so `PVC Pipe 2"`
+// round-trips through parseCSV unchanged.
+export const escapeCSVField = (value: CSVValue): string => {
+  if (value === null || value === undefined) return '';
+  const text = guardFormula(String(value));
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCSV = (rows: CSVValue[][]): string =>
+  rows.map(row => row.map(escapeCSVField).join(',')).join('\r\n') + '\r\n';
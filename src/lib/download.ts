@@ -0,0 +1,14 @@
+// src/lib/download.ts
+
+// Saves generated content through a temporary object URL
+export const downloadFile = (content: string | Blob, filename: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
+
+export const dateStamp = () => new Date().toISOString().split('T')[0];
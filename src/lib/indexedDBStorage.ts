@@ -0,0 +1,107 @@
+// src/lib/indexedDBStorage.ts
+import { Product } from '../App';
+import { ProductIndex, RecordCollections, StorageAdapter, StorageCollection, StoredUser } from './storage';
+
+const DB_NAME = 'stockpile';
+const DB_VERSION = 1;
+
+const PRODUCT_INDEXES: ProductIndex[] = ['sku', 'barcode', 'category'];
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const products = db.createObjectStore('products', { keyPath: 'id' });
+      PRODUCT_INDEXES.forEach(index => products.createIndex(index, index));
+      db.createObjectStore('users', { keyPath: 'id' });
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // Lets a tab running a newer version upgrade the database; this tab
+      // needs reloading to use it again
+      db.onversionchange = () => {
+        db.close();
+        console.warn('Stockpile was updated in another tab. Reload this tab to keep working.');
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+    // Another tab still has the old version open. The upgrade goes ahead, and
+    // onsuccess fires, as soon as that tab closes its connection.
+    request.onblocked = () => console.warn('Waiting for other Stockpile tabs to close so the database can be updated');
+  });
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Writes resolve once the transaction commits, not when the request succeeds
+const runWrite = (db: IDBDatabase, storeName: string, write: (store: IDBObjectStore) => void) =>
+  new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    write(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const collection = <T extends { id: string }>(db: IDBDatabase, storeName: string): StorageCollection<T> => {
+  const readStore = () => db.transaction(storeName).objectStore(storeName);
+
+  return {
+    getAll: () => requestResult(readStore().getAll() as IDBRequest<T[]>),
+
+    getById: async (id) => (await requestResult(readStore().get(id) as IDBRequest<T | undefined>)) || null,
+
+    put: (record) => runWrite(db, storeName, store => store.put(record)),
+
+    putMany: (records) => runWrite(db, storeName, store => records.forEach(r => store.put(r))),
+
+    delete: (id) => runWrite(db, storeName, store => store.delete(id)),
+
+    clear: () => runWrite(db, storeName, store => store.clear()),
+  };
+};
+
+// The version check and the write share one readwrite transaction, which
+// IndexedDB runs to completion before any other write to the store
+const putProductIfVersion = (db: IDBDatabase, product: Product, expectedVersion: number) =>
+  new Promise<boolean>((resolve, reject) => {
+    const transaction = db.transaction('products', 'readwrite');
+    const store = transaction.objectStore('products');
+    let written = false;
+
+    const request = store.get(product.id) as IDBRequest<Product | undefined>;
+    request.onsuccess = () => {
+      if (request.result?.version !== expectedVersion) return;
+      store.put(product);
+      written = true;
+    };
+
+    transaction.oncomplete = () => resolve(written);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+// Products and users move into IndexedDB; the other collections are passed in
+// and stay where they were
+export const openIndexedDBAdapter = async (records: RecordCollections): Promise<StorageAdapter> => {
+  const db = await openDatabase();
+
+  return {
+    ...records,
+    backend: 'indexedDB',
+    products: {
+      ...collection<Product>(db, 'products'),
+      findBy: (index, value) =>
+        requestResult(db.transaction('products').objectStore('products').index(index).getAll(value) as IDBRequest<Product[]>),
+      putIfVersion: (product, expectedVersion) => putProductIfVersion(db, product, expectedVersion),
+    },
+    users: collection<StoredUser>(db, 'users'),
+  };
+};
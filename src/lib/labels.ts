@@ -0,0 +1,124 @@
+// src/lib/labels.ts
+import { Product } from '../App';
+
+// Sheet layouts, in inches, from the manufacturers' template specs
+export interface LabelTemplate {
+  id: string;
+  name: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  // Offset of the top-left label from the page corner
+  marginTop: number;
+  marginLeft: number;
+  // Distance from one label to the next, including the gap between them
+  pitchX: number;
+  pitchY: number;
+}
+
+export const LABEL_TEMPLATES: LabelTemplate[] = [
+  {
+    id: 'avery-5160',
+    name: 'Avery 5160 / 8160 (1" x 2 5/8", 30 per sheet)',
+    pageWidth: 8.5,
+    pageHeight: 11,
+    columns: 3,
+    rows: 10,
+    labelWidth: 2.625,
+    labelHeight: 1,
+    marginTop: 0.5,
+    marginLeft: 0.1875,
+    pitchX: 2.75,
+    pitchY: 1,
+  },
+  {
+    id: 'avery-5163',
+    name: 'Avery 5163 / 8163 (2" x 4", 10 per sheet)',
+    pageWidth: 8.5,
+    pageHeight: 11,
+    columns: 2,
+    rows: 5,
+    labelWidth: 4,
+    labelHeight: 2,
+    marginTop: 0.5,
+    marginLeft: 0.15625,
+    pitchX: 4.1875,
+    pitchY: 2,
+  },
+  {
+    id: 'avery-5167',
+    name: 'Avery 5167 / 8167 (1/2" x 1 3/4", 80 per sheet)',
+    pageWidth: 8.5,
+    pageHeight: 11,
+    columns: 4,
+    rows: 20,
+    labelWidth: 1.75,
+    labelHeight: 0.5,
+    marginTop: 0.5,
+    marginLeft: 0.28125,
+    pitchX: 2.0625,
+    pitchY: 0.5,
+  },
+];
+
+// What the label designer prints on each label
+export interface LabelFields {
+  name: boolean;
+  sku: boolean;
+  price: boolean;
+  location: boolean;
+  barcode: boolean;
+}
+
+export const DEFAULT_LABEL_FIELDS: LabelFields = {
+  name: true,
+  sku: true,
+  price: true,
+  location: false,
+  barcode: true,
+};
+
+// A product and how many labels to print for it
+export interface LabelRequest {
+  product_id: string;
+  copies: number;
+}
+
+export interface PlacedLabel {
+  product: Product;
+  // Position on the page, in inches
+  x: number;
+  y: number;
+}
+
+// Lays the labels out in reading order, one copy after another, filling each
+// sheet before starting the next. `skip` leaves positions on the first sheet
+// empty so a partly used sheet can go back in the printer.
+export const layoutLabelSheets = (
+  template: LabelTemplate,
+  labels: { product: Product; copies: number }[],
+  skip = 0
+): PlacedLabel[][] => {
+  const perSheet = template.columns * template.rows;
+  const sheets: PlacedLabel[][] = [];
+  let position = Math.min(Math.max(skip, 0), perSheet - 1);
+
+  labels.forEach(({ product, copies }) => {
+    for (let copy = 0; copy < copies; copy++) {
+      const sheet = Math.floor(position / perSheet);
+      const slot = position % perSheet;
+      if (!sheets[sheet]) sheets[sheet] = [];
+      sheets[sheet].push({
+        product,
+        x: template.marginLeft + (slot % template.columns) * template.pitchX,
+        y: template.marginTop + Math.floor(slot / template.columns) * template.pitchY,
+      });
+      position++;
+    }
+  });
+
+  return sheets;
+};
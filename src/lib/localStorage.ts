@@ -1,215 +1,2078 @@
 // src/lib/localStorage.ts
-import { User, Product } from '../App';
+import {
+  User,
+  UserAccount,
+  Role,
+  Product,
+  Supplier,
+  StockMovement,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+  Sale,
+  SaleLine,
+  StockCount,
+  StockCountScope,
+  StockAdjustment,
+  AuditAction,
+  AuditChange,
+  AuditEntityType,
+  AuditEntry
+} from '../App';
+import { getLocationQuantity } from './stock';
+import { diffRecords } from './audit';
+import { broadcast } from './sync';
+import { ConflictError } from './conflicts';
+import { CartItem, addToCart, saleTotals } from './sales';
+import {
+  AdjustmentSettings,
+  DEFAULT_ADJUSTMENT_SETTINGS,
+  STOCK_COUNT_REASON_CODE,
+  adjustmentValue,
+  validateAdjustment,
+  validateAdjustmentSettings
+} from './adjustments';
+import { DEFAULT_REORDER_SETTINGS, ReorderParameters, ReorderSettings, validateReorderOverrides } from './reorder';
+import { ABC_CLASSES, buildCountLines, classifyAbc, countLineKey, countVarianceReport } from './stockCount';
+import { ProductDraft, ProductValidation, ValidationError, hasFieldErrors, validateProduct } from './validation';
+import {
+  DocumentSeries,
+  ProductIndex,
+  RECORD_COLLECTIONS,
+  SignInResult,
+  StorageCollection,
+  StoredUser,
+  VersionedCollection,
+  getStorage,
+  getSchemaVersion,
+  loadSharedSettings,
+  readRecords,
+  restoreSnapshot,
+  saveSetting,
+  setSchemaVersion,
+  takeSnapshot
+} from './storage';
+import { Migration, runMigrations } from './migrations';
+import {
+  BACKUP_FORMAT,
+  BACKUP_FORMAT_VERSION,
+  BackupCollections,
+  BackupFile,
+  CollectionDiff,
+  RestoreMode,
+  planRestore,
+  validateRestoreMode
+} from './backup';
+import { hashPassword, verifyPassword, validatePassword } from './password';
+import {
+  Session,
+  SessionPolicies,
+  DEFAULT_SESSION_POLICIES,
+  isSessionExpired,
+  validateSessionPolicy
+} from './session';
+import {
+  Permission,
+  PermissionError,
+  RolePermissions,
+  DEFAULT_ROLE_PERMISSIONS,
+  getRoleLabel
+} from './permissions';
 
+// Records live behind the storage adapter (see storage.ts). Only the session
+// and the settings are kept here; with a shared backend the settings are a
+// copy of the shared ones, loaded when the app starts.
 const STORAGE_KEYS = {
-  USERS: 'stockpile_users',
-  PRODUCTS: 'stockpile_products',
-  CURRENT_USER: 'stockpile_current_user',
+  SESSION: 'stockpile_session',
+  SESSION_SETTINGS: 'stockpile_session_settings',
+  ADJUSTMENT_SETTINGS: 'stockpile_adjustment_settings',
+  REORDER_SETTINGS: 'stockpile_reorder_settings',
+  ROLE_PERMISSIONS: 'stockpile_role_permissions',
 };
 
+const SETTING_KEYS = [
+  STORAGE_KEYS.SESSION_SETTINGS,
+  STORAGE_KEYS.ADJUSTMENT_SETTINGS,
+  STORAGE_KEYS.REORDER_SETTINGS,
+  STORAGE_KEYS.ROLE_PERMISSIONS,
+];
+
+// Timestamp plus a random suffix so records created in the same millisecond don't collide
+const generateId = () => `${Date.now()}${Math.random().toString(36).slice(2, 8)}`;
+
+// The next document number in a series, e.g. PO-0004. Shared storage hands
+// numbers out itself, since terminals only see each other's documents once
+// saved; otherwise it follows the highest number in use, which stays unique
+// after documents are deleted or merged in from a backup.
+const nextDocumentNumber = async (
+  series: DocumentSeries,
+  digits: number,
+  numbersInUse: () => Promise<string[]>
+): Promise<string> => {
+  const { documentNumbers } = await getStorage();
+  const next = documentNumbers
+    ? await documentNumbers.next(series)
+    : (await numbersInUse()).reduce((highest, number) => Math.max(highest, Number(number.match(/\d+$/)?.[0] || 0)), 0) + 1;
+  return `${series}-${String(next).padStart(digits, '0')}`;
+};
+
+// Suppliers used to be free text on products and purchase orders. Legacy names
+// are matched case- and suffix-insensitively, so "Stanley Tools Inc" and
+// "Stanley Tools" become one supplier record.
+export const normalizeSupplierName = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\b(inc|incorporated|co|corp|corporation|company|llc|ltd|limited)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const migrateSupplierNames = async () => {
+  type LegacyRecord = { supplier?: string; supplier_id?: string };
+
+  const storage = await getStorage();
+  const suppliers = await storage.suppliers.getAll();
+  const products = (await storage.products.getAll()) as (Product & LegacyRecord)[];
+  const orders = (await storage.purchase_orders.getAll()) as (PurchaseOrder & LegacyRecord)[];
+
+  const legacyProducts = products.filter(p => p.supplier !== undefined);
+  const legacyOrders = orders.filter(o => o.supplier !== undefined);
+  const legacyRecords = [...legacyProducts, ...legacyOrders];
+  if (legacyRecords.length === 0) return;
+
+  const supplierIdFor = (name: string) => {
+    const normalized = normalizeSupplierName(name);
+    if (!normalized) return '';
+
+    let supplier = suppliers.find(s => normalizeSupplierName(s.name) === normalized);
+    if (!supplier) {
+      const now = new Date().toISOString();
+      supplier = {
+        id: generateId(),
+        name: name.trim(),
+        contact_name: '',
+        email: '',
+        phone: '',
+        address: '',
+        lead_time_days: 0,
+        minimum_order_value: 0,
+        payment_terms: '',
+        created_at: now,
+        updated_at: now,
+      };
+      suppliers.push(supplier);
+    }
+    return supplier.id;
+  };
+
+  legacyRecords.forEach(record => {
+    record.supplier_id = record.supplier_id || supplierIdFor(record.supplier || '');
+    delete record.supplier;
+  });
+
+  await storage.suppliers.putMany(suppliers);
+  await storage.products.putMany(legacyProducts);
+  await storage.purchase_orders.putMany(legacyOrders);
+};
+
+// Products from before multi-location tracking keep all their stock in their primary location
+const addStockLocations = async () => {
+  const storage = await getStorage();
+  const products = await storage.products.getAll();
+  await storage.products.putMany(products
+    .filter(p => !p.stock_locations)
+    .map(p => ({ ...p, stock_locations: [{ location: p.location, quantity: p.current_stock }] })));
+};
+
+// Give every product without ledger history an opening balance so the
+// movement ledger always reconciles with current_stock
+const addOpeningBalances = async () => {
+  const storage = await getStorage();
+  const products = await storage.products.getAll();
+  const movements = await storage.stock_movements.getAll();
+  const productsWithHistory = new Set(movements.map(m => m.product_id));
+  const openingBalances: StockMovement[] = products
+    .filter(p => !productsWithHistory.has(p.id))
+    .flatMap(p => p.stock_locations
+      .filter(l => l.quantity !== 0)
+      .map(l => ({
+        id: generateId(),
+        product_id: p.id,
+        type: 'count_correction' as const,
+        quantity: l.quantity,
+        user_id: 'system',
+        reason: 'Opening balance',
+        location: l.location,
+        created_at: p.created_at,
+      })));
+
+  await storage.stock_movements.putMany(openingBalances);
+};
+
+// Sign-in matches emails lower-cased, so stored ones must be too. Where two
+// accounts differ only in case, the one already lower-case (or else the
+// oldest) keeps the address and the others are disabled as they are, for an
+// admin to sort out. Returns only the users that changed.
+const normalizeAccountEmails = (users: StoredUser[]): StoredUser[] => {
+  const isNormalized = (user: StoredUser) => user.email === normalizeEmail(user.email);
+  const owners = new Map<string, string>();
+  [...users]
+    .sort((a, b) =>
+      Number(isNormalized(b)) - Number(isNormalized(a)) ||
+      (a.created_at || '').localeCompare(b.created_at || '') ||
+      a.id.localeCompare(b.id))
+    .forEach(user => {
+      if (!owners.has(normalizeEmail(user.email))) owners.set(normalizeEmail(user.email), user.id);
+    });
+
+  return users.flatMap(user => {
+    const email = normalizeEmail(user.email);
+    if (owners.get(email) === user.id) return isNormalized(user) ? [] : [{ ...user, email }];
+    if (user.disabled) return [];
+    console.warn(`Disabled ${user.email}: another account already uses ${email}`);
+    return [{ ...user, disabled: true }];
+  });
+};
+
+// Older user records kept a plaintext `password`, lacked the account fields
+// and could have mixed-case emails
+const hashLegacyPasswords = async () => {
+  const now = new Date().toISOString();
+  const storage = await getStorage();
+  const users = await storage.users.getAll();
+
+  const legacy = users.filter(u => u.password !== undefined || !u.created_at);
+  const migrated = await Promise.all(legacy.map(async ({ password, ...user }) => ({
+    ...user,
+    password_hash: password !== undefined ? await hashPassword(password) : user.password_hash,
+    disabled: user.disabled ?? false,
+    created_at: user.created_at || now,
+    updated_at: user.updated_at || now,
+  })));
+  const migratedById = new Map<string, StoredUser>(migrated.map(u => [u.id, u]));
+  const current = users.map(u => migratedById.get(u.id) || u);
+  normalizeAccountEmails(current).forEach(u => migratedById.set(u.id, u));
+  await storage.users.putMany(Array.from(migratedById.values()));
+};
+
+// Stores that hashed their passwords before emails were normalized in that step
+const lowerCaseAccountEmails = async () => {
+  const storage = await getStorage();
+  await storage.users.putMany(normalizeAccountEmails(await storage.users.getAll()));
+};
+
+// Sessions used to be a bare user under this key with no expiry. They are
+// dropped so everyone signs in again under the session policy.
+const dropLegacySessions = async () => {
+  localStorage.removeItem('stockpile_current_user');
+};
+
+// Products saved before edits were version-checked start at version 1
+const addProductVersions = async () => {
+  const storage = await getStorage();
+  const products = await storage.products.getAll();
+  await storage.products.putMany(products
+    .filter(p => p.version === undefined)
+    .map(p => ({ ...p, version: 1 })));
+};
+
+// Purchase orders saved before their writes were version-checked start at version 1
+const addPurchaseOrderVersions = async () => {
+  const storage = await getStorage();
+  const orders = await storage.purchase_orders.getAll();
+  await storage.purchase_orders.putMany(orders
+    .filter(o => o.version === undefined)
+    .map(o => ({ ...o, version: 1 })));
+};
+
+// Adjustments saved before their writes were version-checked start at version 1
+const addStockAdjustmentVersions = async () => {
+  const storage = await getStorage();
+  const adjustments = await storage.stock_adjustments.getAll();
+  await storage.stock_adjustments.putMany(adjustments
+    .filter(a => a.version === undefined)
+    .map(a => ({ ...a, version: 1 })));
+};
+
+// Counts saved before their writes were version-checked start at version 1
+const addStockCountVersions = async () => {
+  const storage = await getStorage();
+  const counts = await storage.stock_counts.getAll();
+  await storage.stock_counts.putMany(counts
+    .filter(c => c.version === undefined)
+    .map(c => ({ ...c, version: 1 })));
+};
+
+// Append new steps with the next version number; never reorder or edit
+// migrations that have shipped.
+const MIGRATIONS: Migration[] = [
+  { version: 1, description: 'Link products and purchase orders to supplier records', up: migrateSupplierNames },
+  { version: 2, description: 'Track stock per location', up: addStockLocations },
+  { version: 3, description: 'Record opening balances in the stock ledger', up: addOpeningBalances },
+  { version: 4, description: 'Hash stored passwords', up: hashLegacyPasswords },
+  { version: 5, description: 'Sign out sessions without a timeout', up: dropLegacySessions },
+  { version: 6, description: 'Track product versions', up: addProductVersions },
+  { version: 7, description: 'Lower-case account emails', up: lowerCaseAccountEmails },
+  { version: 8, description: 'Track purchase order versions', up: addPurchaseOrderVersions },
+  { version: 9, description: 'Track stock adjustment versions', up: addStockAdjustmentVersions },
+  { version: 10, description: 'Track stock count versions', up: addStockCountVersions },
+];
+
+// A fresh install has no schema version yet and no products. Products are
+// checked in the active backend, since once moved there they are no longer in
+// localStorage.
+const isFreshInstall = async () =>
+  getSchemaVersion() === 0 && (await (await getStorage()).products.getAll()).length === 0;
+
 // Initialize with default data
-const initializeData = () => {
-  // Check if data already exists
-  const existingUsers = localStorage.getItem(STORAGE_KEYS.USERS);
-  const existingProducts = localStorage.getItem(STORAGE_KEYS.PRODUCTS);
-
-  // Initialize users if not exists
-  if (!existingUsers) {
-    const defaultUsers = [
+const initializeData = async () => {
+  if (!(await isFreshInstall())) return;
+  const storage = await getStorage();
+
+  // Initialize suppliers alongside the default products they supply
+  if ((await storage.suppliers.getAll()).length === 0) {
+    const defaultSuppliers: Supplier[] = [
+      { id: '1', name: 'Stanley Tools Inc', lead_time_days: 14, payment_terms: 'Net 30' },
+      { id: '2', name: 'Craftsman Supply', lead_time_days: 10, payment_terms: 'Net 30' },
+      { id: '3', name: 'Philips Lighting', lead_time_days: 7, payment_terms: 'Net 45' },
+      { id: '4', name: 'Charlotte Pipe Co', lead_time_days: 21, payment_terms: 'Net 30' },
+      { id: '5', name: 'Purdy Corp', lead_time_days: 10, payment_terms: 'Net 15' },
+    ].map(supplier => ({
+      contact_name: '',
+      email: '',
+      phone: '',
+      address: '',
+      minimum_order_value: 0,
+      ...supplier,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    }));
+    await storage.suppliers.putMany(defaultSuppliers);
+  }
+
+  const defaultProducts: Product[] = [
+    {
+      id: '1',
+      name: 'Hammer - Claw 16oz',
+      description: 'Standard claw hammer with rubber grip',
+      category: 'Tools',
+      brand: 'Stanley',
+      sku: 'TOO-001',
+      barcode: '123456789',
+      current_stock: 25,
+      min_stock_level: 10,
+      max_stock_level: 50,
+      cost_price: 12.50,
+      selling_price: 24.99,
+      supplier_id: '1',
+      location: 'A1-B2',
+      stock_locations: [{ location: 'A1-B2', quantity: 25 }],
+      version: 1,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    },
+    {
+      id: '2',
+      name: 'Screwdriver Set',
+      description: '6-piece precision screwdriver set',
+      category: 'Tools',
+      brand: 'Craftsman',
+      sku: 'TOO-002',
+      barcode: '234567890',
+      current_stock: 5,
+      min_stock_level: 15,
+      max_stock_level: 40,
+      cost_price: 8.00,
+      selling_price: 15.99,
+      supplier_id: '2',
+      location: 'A1-B3',
+      stock_locations: [{ location: 'A1-B3', quantity: 5 }],
+      version: 1,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    },
+    {
+      id: '3',
+      name: 'LED Bulb 60W',
+      description: 'Energy efficient LED bulb, warm white',
+      category: 'Electrical',
+      brand: 'Philips',
+      sku: 'ELE-001',
+      barcode: '345678901',
+      current_stock: 0,
+      min_stock_level: 20,
+      max_stock_level: 100,
+      cost_price: 3.50,
+      selling_price: 7.99,
+      supplier_id: '3',
+      location: 'C2-D1',
+      stock_locations: [{ location: 'C2-D1', quantity: 0 }],
+      version: 1,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    },
+    {
+      id: '4',
+      name: 'PVC Pipe 2"',
+      description: '2 inch PVC pipe, 10ft length',
+      category: 'Plumbing',
+      brand: 'Charlotte',
+      sku: 'PLU-001',
+      barcode: '456789012',
+      current_stock: 8,
+      min_stock_level: 10,
+      max_stock_level: 30,
+      cost_price: 15.00,
+      selling_price: 28.99,
+      supplier_id: '4',
+      location: 'E3-F2',
+      stock_locations: [{ location: 'E3-F2', quantity: 8 }],
+      version: 1,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    },
+    {
+      id: '5',
+      name: 'Paint Brush Set',
+      description: 'Professional paint brush set, 5 pieces',
+      category: 'Paint & Supplies',
+      brand: 'Purdy',
+      sku: 'PAI-001',
+      barcode: '567890123',
+      current_stock: 35,
+      min_stock_level: 20,
+      max_stock_level: 60,
+      cost_price: 18.00,
+      selling_price: 34.99,
+      supplier_id: '5',
+      location: 'D2-E1',
+      stock_locations: [
+        { location: 'D2-E1', quantity: 20 },
+        { location: 'Back Room', quantity: 15 },
+      ],
+      version: 1,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    },
+  ];
+  await storage.products.putMany(defaultProducts);
+};
+
+const getStoredUsers = async (): Promise<StoredUser[]> => (await getStorage()).users.getAll();
+
+const toUserAccount = (user: StoredUser): UserAccount => ({
+  id: user.id,
+  email: user.email,
+  role: user.role,
+  disabled: user.disabled,
+  created_at: user.created_at,
+  updated_at: user.updated_at,
+});
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+// Sign-in against the stored hashes, for backends without their own accounts
+const checkStoredPassword = async (email: string, password: string): Promise<SignInResult | null> => {
+  const user = (await getStoredUsers()).find(u => u.email === email);
+  return user && await verifyPassword(password, user.password_hash) ? { account: toUserAccount(user) } : null;
+};
+
+// Hashing is async (Web Crypto), so users are seeded separately from initializeData
+const initializeUsers = async () => {
+  const now = new Date().toISOString();
+  const storage = await getStorage();
+  const hasUsers = storage.accounts
+    ? await storage.accounts.hasUsers()
+    : (await storage.users.getAll()).length > 0;
+
+  if (!hasUsers) {
+    await storage.users.putMany([
       {
         id: '1',
         email: 'admin@stockpile.com',
-        password: 'admin123', // In real app, this would be hashed
-        role: 'admin' as const,
+        password_hash: await hashPassword('admin123'),
+        role: 'admin',
+        disabled: false,
+        created_at: now,
+        updated_at: now,
       },
       {
         id: '2',
         email: 'user@stockpile.com',
-        password: 'user123',
-        role: 'associate' as const,
+        password_hash: await hashPassword('user123'),
+        role: 'associate',
+        disabled: false,
+        created_at: now,
+        updated_at: now,
       },
-    ];
-    localStorage.setItem(STORAGE_KEYS.USERS, JSON.stringify(defaultUsers));
+    ]);
   }
+};
 
-  // Initialize products if not exists
-  if (!existingProducts) {
-    const defaultProducts: Product[] = [
-      {
-        id: '1',
-        name: 'Hammer - Claw 16oz',
-        description: 'Standard claw hammer with rubber grip',
-        category: 'Tools',
-        brand: 'Stanley',
-        sku: 'TOO-001',
-        barcode: '123456789',
-        current_stock: 25,
-        min_stock_level: 10,
-        max_stock_level: 50,
-        cost_price: 12.50,
-        selling_price: 24.99,
-        supplier: 'Stanley Tools Inc',
-        location: 'A1-B2',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      },
-      {
-        id: '2',
-        name: 'Screwdriver Set',
-        description: '6-piece precision screwdriver set',
-        category: 'Tools',
-        brand: 'Craftsman',
-        sku: 'TOO-002',
-        barcode: '234567890',
-        current_stock: 5,
-        min_stock_level: 15,
-        max_stock_level: 40,
-        cost_price: 8.00,
-        selling_price: 15.99,
-        supplier: 'Craftsman Supply',
-        location: 'A1-B3',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      },
-      {
-        id: '3',
-        name: 'LED Bulb 60W',
-        description: 'Energy efficient LED bulb, warm white',
-        category: 'Electrical',
-        brand: 'Philips',
-        sku: 'ELE-001',
-        barcode: '345678901',
-        current_stock: 0,
-        min_stock_level: 20,
-        max_stock_level: 100,
-        cost_price: 3.50,
-        selling_price: 7.99,
-        supplier: 'Philips Lighting',
-        location: 'C2-D1',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      },
-      {
-        id: '4',
-        name: 'PVC Pipe 2"',
-        description: '2 inch PVC pipe, 10ft length',
-        category: 'Plumbing',
-        brand: 'Charlotte',
-        sku: 'PLU-001',
-        barcode: '456789012',
-        current_stock: 8,
-        min_stock_level: 10,
-        max_stock_level: 30,
-        cost_price: 15.00,
-        selling_price: 28.99,
-        supplier: 'Charlotte Pipe Co',
-        location: 'E3-F2',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      },
-      {
-        id: '5',
-        name: 'Paint Brush Set',
-        description: 'Professional paint brush set, 5 pieces',
-        category: 'Paint & Supplies',
-        brand: 'Purdy',
-        sku: 'PAI-001',
-        barcode: '567890123',
-        current_stock: 35,
-        min_stock_level: 20,
-        max_stock_level: 60,
-        cost_price: 18.00,
-        selling_price: 34.99,
-        supplier: 'Purdy Corp',
-        location: 'D2-E1',
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-      },
-    ];
-    localStorage.setItem(STORAGE_KEYS.PRODUCTS, JSON.stringify(defaultProducts));
-  }
+// Seeds a fresh install and brings stored data up to the current schema.
+// Everything that reads credentials awaits usersReady; the app waits on
+// schemaService.ready() before showing any data.
+const dataReady = (async () => {
+  await loadSharedSettings(SETTING_KEYS);
+  await initializeData();
+  await runMigrations(MIGRATIONS);
+  await initializeUsers();
+})();
+
+const usersReady = dataReady.catch(error => {
+  console.error('Error initializing data:', error);
+});
+
+export const schemaService = {
+  // Rejects with a MigrationError if the stored data could not be migrated
+  ready: (): Promise<void> => dataReady,
 };
 
-// Initialize on module load
-initializeData();
+// Appends an audit entry for a mutation. Updates that changed nothing are skipped.
+const recordAudit = async (
+  actor: Pick<User, 'id' | 'email'>,
+  action: AuditAction,
+  entityType: AuditEntityType,
+  entity: { id: string; label: string; product_id?: string },
+  changes: AuditChange[]
+) => {
+  if (action === 'update' && changes.length === 0) return;
+
+  const entry: AuditEntry = {
+    id: generateId(),
+    user_id: actor.id,
+    user_email: actor.email,
+    action,
+    entity_type: entityType,
+    entity_id: entity.id,
+    entity_label: entity.label,
+    product_id: entity.product_id,
+    changes,
+    created_at: new Date().toISOString(),
+  };
+
+  await (await getStorage()).audit_log.put(entry);
+
+  // Every mutation passes through here, so this is also where other open tabs
+  // are told to refresh
+  broadcast({ type: 'changed', entity: entityType });
+};
+
+const productLabel = (product: Product) => `${product.name} (${product.sku})`;
+
+// Read access to the audit log
+export const auditService = {
+  // Newest first. Entries are appended in order, so reversing first keeps
+  // same-millisecond entries (e.g. a receipt and its PO update) in sequence.
+  getAll: async (user: User): Promise<AuditEntry[]> => {
+    permissionService.assert(user, 'audit.view');
+    const log = await (await getStorage()).audit_log.getAll();
+    return log.reverse().sort((a, b) => b.created_at.localeCompare(a.created_at));
+  },
+};
 
 // User management
 export const authService = {
   signIn: async (email: string, password: string): Promise<{ user: User | null; error: string | null }> => {
-    const users = JSON.parse(localStorage.getItem(STORAGE_KEYS.USERS) || '[]');
-    const user = users.find((u: unknown) => u.email === email && u.password === password);
-    
-    if (user) {
-      const userData: User = { id: user.id, email: user.email, role: user.role };
-      localStorage.setItem(STORAGE_KEYS.CURRENT_USER, JSON.stringify(userData));
+    await usersReady;
+    const { accounts } = await getStorage();
+    const result = accounts
+      ? await accounts.signIn(normalizeEmail(email), password)
+      : await checkStoredPassword(normalizeEmail(email), password);
+
+    if (result) {
+      const { account, token } = result;
+      if (account.disabled) {
+        return { user: null, error: 'This account has been disabled. Please contact your admin.' };
+      }
+
+      const userData: User = { id: account.id, email: account.email, role: account.role };
+      const now = new Date().toISOString();
+      const session: Session = { user: userData, issued_at: now, last_active_at: now, token };
+      localStorage.setItem(STORAGE_KEYS.SESSION, JSON.stringify(session));
       return { user: userData, error: null };
     }
     
     return { user: null, error: 'Invalid email or password' };
   },
 
+  // Signs out every open tab, since they share the session
   signOut: async (): Promise<void> => {
-    localStorage.removeItem(STORAGE_KEYS.CURRENT_USER);
+    const session: Session | null = JSON.parse(localStorage.getItem(STORAGE_KEYS.SESSION) || 'null');
+    localStorage.removeItem(STORAGE_KEYS.SESSION);
+    broadcast({ type: 'signed_out' });
+    if (session?.token) await (await getStorage()).accounts?.signOut(session.token);
+  },
+
+  // The live session, or null once it has expired under its role's policy
+  getSession: (): Session | null => {
+    const sessionStr = localStorage.getItem(STORAGE_KEYS.SESSION);
+    if (!sessionStr) return null;
+
+    const session: Session = JSON.parse(sessionStr);
+    const policy = sessionSettingsService.get()[session.user.role];
+    if (isSessionExpired(session, policy)) {
+      localStorage.removeItem(STORAGE_KEYS.SESSION);
+      return null;
+    }
+    return session;
+  },
+
+  // Re-reads the account so role changes apply and disabled or deleted users are signed out
+  getCurrentUser: async (): Promise<User | null> => {
+    const session = authService.getSession();
+    if (!session) return null;
+
+    await usersReady;
+    const account = await (await getStorage()).users.getById(session.user.id);
+    if (!account || account.disabled) {
+      localStorage.removeItem(STORAGE_KEYS.SESSION);
+      return null;
+    }
+    return { id: account.id, email: account.email, role: account.role };
+  },
+
+  // Records user activity, restarting the idle timeout. Expired sessions stay expired.
+  touchSession: (): Session | null => {
+    const session = authService.getSession();
+    if (!session) return null;
+
+    const touched = { ...session, last_active_at: new Date().toISOString() };
+    localStorage.setItem(STORAGE_KEYS.SESSION, JSON.stringify(touched));
+    return touched;
+  },
+
+  // Public profile of every user, without credentials
+  getAllUsers: async (): Promise<User[]> => {
+    await usersReady;
+    return (await getStoredUsers()).map(u => ({ id: u.id, email: u.email, role: u.role }));
+  },
+};
+
+// Per-role session timeouts, editable by admins on the Users screen
+export const sessionSettingsService = {
+  get: (): SessionPolicies => {
+    const stored: Partial<SessionPolicies> = JSON.parse(localStorage.getItem(STORAGE_KEYS.SESSION_SETTINGS) || '{}');
+    return { ...DEFAULT_SESSION_POLICIES, ...stored };
+  },
+
+  update: async (policies: SessionPolicies, actingUser: User): Promise<SessionPolicies> => {
+    permissionService.assert(actingUser, 'users.manage');
+
+    for (const [role, policy] of Object.entries(policies)) {
+      const error = validateSessionPolicy(policy);
+      if (error) throw new Error(`${getRoleLabel(role as Role)}: ${error}`);
+    }
+
+    const before = sessionSettingsService.get();
+    await saveSetting(STORAGE_KEYS.SESSION_SETTINGS, JSON.stringify(policies));
+    await recordAudit(actingUser, 'update', 'settings', { id: 'session_policies', label: 'Session timeouts' }, diffRecords(before, policies));
+    return policies;
+  },
+};
+
+// Which role may do what. Every mutating service method checks it, and the UI
+// uses can() to hide or disable what the user isn't allowed to do.
+export const permissionService = {
+  getMatrix: (): RolePermissions => {
+    const stored: Partial<RolePermissions> = JSON.parse(localStorage.getItem(STORAGE_KEYS.ROLE_PERMISSIONS) || '{}');
+    return { ...DEFAULT_ROLE_PERMISSIONS, ...stored, admin: DEFAULT_ROLE_PERMISSIONS.admin };
+  },
+
+  can: (user: User, permission: Permission): boolean =>
+    permissionService.getMatrix()[user.role]?.includes(permission) ?? false,
+
+  // Throws a PermissionError unless the user's role has the permission
+  assert: (user: User, permission: Permission): void => {
+    if (!permissionService.can(user, permission)) throw new PermissionError(permission);
+  },
+
+  update: async (matrix: RolePermissions, actingUser: User): Promise<RolePermissions> => {
+    permissionService.assert(actingUser, 'users.manage');
+
+    const before = permissionService.getMatrix();
+    const editable: Partial<RolePermissions> = { ...matrix };
+    delete editable.admin;
+    await saveSetting(STORAGE_KEYS.ROLE_PERMISSIONS, JSON.stringify(editable));
+
+    const after = permissionService.getMatrix();
+    await recordAudit(actingUser, 'update', 'settings', { id: 'role_permissions', label: 'Role permissions' }, diffRecords(before, after));
+    return after;
+  },
+};
+
+// Admin management of user accounts. The acting user is passed in so admins
+// can't lock themselves out.
+export const userService = {
+  getAll: async (): Promise<UserAccount[]> => {
+    await usersReady;
+    return (await getStoredUsers())
+      .map(toUserAccount)
+      .sort((a, b) => a.email.localeCompare(b.email));
+  },
+
+  create: async (
+    account: { email: string; password: string; role: Role },
+    actingUser: User
+  ): Promise<UserAccount> => {
+    permissionService.assert(actingUser, 'users.manage');
+    await usersReady;
+
+    const email = normalizeEmail(account.email);
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) throw new Error('Enter a valid email address');
+
+    const passwordError = validatePassword(account.password);
+    if (passwordError) throw new Error(passwordError);
+
+    const users = await getStoredUsers();
+    if (users.some(u => u.email === email)) {
+      throw new Error(`A user with the email ${email} already exists`);
+    }
+
+    const now = new Date().toISOString();
+    const user: StoredUser = {
+      id: generateId(),
+      email,
+      role: account.role,
+      password_hash: await hashPassword(account.password),
+      disabled: false,
+      created_at: now,
+      updated_at: now,
+    };
+    await (await getStorage()).users.put(user);
+    await recordAudit(actingUser, 'create', 'user', { id: user.id, label: email }, diffRecords(undefined, toUserAccount(user)));
+    return toUserAccount(user);
+  },
+
+  update: async (
+    id: string,
+    updates: Partial<Pick<UserAccount, 'role' | 'disabled'>>,
+    actingUser: User
+  ): Promise<UserAccount> => {
+    permissionService.assert(actingUser, 'users.manage');
+    await usersReady;
+
+    const users = await getStoredUsers();
+    const index = users.findIndex(u => u.id === id);
+    if (index === -1) throw new Error('User not found');
+
+    if (id === actingUser.id && (updates.disabled || (updates.role && updates.role !== users[index].role))) {
+      throw new Error('You cannot disable your own account or change your own role');
+    }
+
+    const updated: StoredUser = { ...users[index], ...updates, updated_at: new Date().toISOString() };
+    const remaining = users.map(u => (u.id === id ? updated : u));
+    if (!remaining.some(u => u.role === 'admin' && !u.disabled)) {
+      throw new Error('At least one active administrator is required');
+    }
+
+    await (await getStorage()).users.put(updated);
+    await recordAudit(
+      actingUser,
+      'update',
+      'user',
+      { id, label: updated.email },
+      diffRecords(toUserAccount(users[index]), toUserAccount(updated))
+    );
+    return toUserAccount(updated);
+  },
+
+  resetPassword: async (id: string, password: string, actingUser: User): Promise<void> => {
+    permissionService.assert(actingUser, 'users.manage');
+    await usersReady;
+
+    const passwordError = validatePassword(password);
+    if (passwordError) throw new Error(passwordError);
+
+    const storage = await getStorage();
+    const user = await storage.users.getById(id);
+    if (!user) throw new Error('User not found');
+
+    user.password_hash = await hashPassword(password);
+    user.updated_at = new Date().toISOString();
+    await storage.users.put(user);
+    // The hash itself never goes into the log
+    await recordAudit(actingUser, 'update', 'user', { id, label: user.email }, [
+      { field: 'password', before: '[hidden]', after: '[reset]' },
+    ]);
   },
 
-  getCurrentUser: (): User | null => {
-    const userStr = localStorage.getItem(STORAGE_KEYS.CURRENT_USER);
-    return userStr ? JSON.parse(userStr) : null;
+  delete: async (id: string, actingUser: User): Promise<void> => {
+    permissionService.assert(actingUser, 'users.manage');
+    await usersReady;
+
+    if (id === actingUser.id) throw new Error('You cannot delete your own account');
+
+    const users = await getStoredUsers();
+    const deleted = users.find(u => u.id === id);
+    if (!deleted) throw new Error('User not found');
+
+    const remaining = users.filter(u => u.id !== id);
+    if (!remaining.some(u => u.role === 'admin' && !u.disabled)) {
+      throw new Error('At least one active administrator is required');
+    }
+    await (await getStorage()).users.delete(id);
+    await recordAudit(actingUser, 'delete', 'user', { id, label: deleted.email }, diffRecords(toUserAccount(deleted), undefined));
   },
 };
 
+// How many times a versioned write is retried when other writes keep landing first
+const MAX_WRITE_ATTEMPTS = 5;
+
+// Applies `change` to the stored record and writes the result, starting over
+// from a fresh read whenever another tab or terminal saved the record in
+// between. Meant for changes worked out from the current state (stock deltas,
+// bin settings, status changes), which stay correct however many times they
+// are re-applied. `change` may throw to refuse. Resolves null if the record
+// doesn't exist.
+const modifyRecord = async <T extends { id: string; version: number; updated_at: string }>(
+  collection: VersionedCollection<T>,
+  id: string,
+  change: (record: T) => T,
+  conflictMessage: string
+): Promise<{ before: T; after: T } | null> => {
+  for (let attempt = 0; attempt < MAX_WRITE_ATTEMPTS; attempt++) {
+    const before = await collection.getById(id);
+    if (!before) return null;
+
+    const after: T = {
+      ...change(before),
+      id,
+      version: before.version + 1,
+      updated_at: new Date().toISOString(),
+    };
+    if (await collection.putIfVersion(after, before.version)) {
+      return { before, after };
+    }
+  }
+
+  throw new Error(conflictMessage);
+};
+
+const modifyProduct = async (id: string, change: (product: Product) => Product) =>
+  modifyRecord(
+    (await getStorage()).products,
+    id,
+    change,
+    'This product is being changed in several places at once. Please try again.'
+  );
+
 // Product management
 export const productService = {
   getAll: async (): Promise<Product[]> => {
-    const products = localStorage.getItem(STORAGE_KEYS.PRODUCTS);
-    return products ? JSON.parse(products) : [];
+    return (await getStorage()).products.getAll();
   },
 
   getById: async (id: string): Promise<Product | null> => {
-    const products = await productService.getAll();
-    return products.find(p => p.id === id) || null;
+    return (await getStorage()).products.getById(id);
   },
 
-  create: async (product: Omit<Product, 'id' | 'created_at' | 'updated_at'>): Promise<Product> => {
-    const products = await productService.getAll();
+  // Exact-match lookup by SKU, barcode or category, served from an index where the backend has one
+  findBy: async (index: ProductIndex, value: string): Promise<Product[]> => {
+    return (await getStorage()).products.findBy(index, value);
+  },
+
+  // The product a scanned code belongs to: a barcode match, otherwise an exact SKU
+  findByCode: async (code: string): Promise<Product | null> => {
+    const [byBarcode] = await productService.findBy('barcode', code);
+    if (byBarcode) return byBarcode;
+    const [bySku] = await productService.findBy('sku', code);
+    return bySku || null;
+  },
+
+  // Checks a new product, or the edited form of product `id`, against the
+  // rules in validation.ts and the rest of the catalog
+  validate: async (product: ProductDraft, id?: string): Promise<ProductValidation> => {
+    const others = (await productService.getAll()).filter(p => p.id !== id);
+    return validateProduct(product, others);
+  },
+
+  // Throws a ValidationError listing every field that breaks a rule
+  create: async (product: ProductDraft, user: User): Promise<Product> => {
+    permissionService.assert(user, 'product.create');
+    const { errors } = await productService.validate(product);
+    if (hasFieldErrors(errors)) throw new ValidationError(errors);
+
     const newProduct: Product = {
       ...product,
-      id: Date.now().toString(),
+      current_stock: 0,
+      stock_locations: [{ location: product.location, quantity: 0 }],
+      version: 1,
+      id: generateId(),
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
     };
-    
-    products.push(newProduct);
-    localStorage.setItem(STORAGE_KEYS.PRODUCTS, JSON.stringify(products));
-    return newProduct;
+
+    await (await getStorage()).products.put(newProduct);
+
+    // Initial stock goes through the ledger like every other stock change
+    if (product.current_stock !== 0) {
+      await applyMovement({
+        product_id: newProduct.id,
+        type: 'count_correction',
+        quantity: product.current_stock,
+        user_id: user.id,
+        reason: 'Opening balance',
+      });
+    }
+
+    const created = (await productService.getById(newProduct.id)) || newProduct;
+    await recordAudit(user, 'create', 'product', { id: created.id, label: productLabel(created), product_id: created.id }, diffRecords(undefined, created));
+    return created;
   },
 
-  update: async (id: string, updates: Partial<Product>): Promise<Product | null> => {
-    const products = await productService.getAll();
-    const index = products.findIndex(p => p.id === id);
+  // current_stock and the per-location quantities are owned by the movement
+  // ledger and cannot be set here; use stockMovementService to change them.
+  // expectedVersion is the version the edit started from. If the product has
+  // been saved since, nothing is written and a ConflictError is thrown.
+  // Edits that break a validation rule throw a ValidationError.
+  update: async (
+    id: string,
+    updates: Partial<Omit<Product, 'current_stock' | 'stock_locations' | 'version'>>,
+    expectedVersion: number,
+    user: User
+  ): Promise<Product | null> => {
+    permissionService.assert(user, 'product.edit');
+    const storage = await getStorage();
+    const before = await storage.products.getById(id);
+    if (!before) return null;
+    if (before.version !== expectedVersion) throw new ConflictError(before);
+
+    const fields: Partial<Product> = { ...updates };
+    delete fields.current_stock;
+    delete fields.stock_locations;
+    delete fields.version;
+
+    // A new primary location starts out as an empty bin; existing stock stays
+    // where it is until it is transferred
+    const stockLocations = [...before.stock_locations];
+    if (fields.location && !stockLocations.some(l => l.location === fields.location)) {
+      stockLocations.push({ location: fields.location, quantity: 0 });
+    }
+
+    const updated: Product = {
+      ...before,
+      ...fields,
+      id,
+      stock_locations: stockLocations,
+      version: before.version + 1,
+      updated_at: new Date().toISOString(),
+    };
+
+    const { errors } = await productService.validate(updated, id);
+    if (hasFieldErrors(errors)) throw new ValidationError(errors);
+
+    // Another write can still land between the read above and this one
+    if (!(await storage.products.putIfVersion(updated, expectedVersion))) {
+      const current = await storage.products.getById(id);
+      if (!current) return null;
+      throw new ConflictError(current);
+    }
+
+    await recordAudit(user, 'update', 'product', { id, label: productLabel(before), product_id: id }, diffRecords(before, updated));
+    return updated;
+  },
+
+  delete: async (id: string, user: User): Promise<boolean> => {
+    permissionService.assert(user, 'product.delete');
+    const storage = await getStorage();
+    const deleted = await storage.products.getById(id);
     
-    if (index !== -1) {
-      products[index] = {
-        ...products[index],
-        ...updates,
-        updated_at: new Date().toISOString(),
-      };
-      localStorage.setItem(STORAGE_KEYS.PRODUCTS, JSON.stringify(products));
-      return products[index];
+    if (deleted) {
+      await storage.products.delete(id);
+      await recordAudit(user, 'delete', 'product', { id, label: productLabel(deleted), product_id: id }, diffRecords(deleted, undefined));
+      return true;
     }
     
-    return null;
+    return false;
+  },
+
+  // Sets or clears (undefined) the minimum for a single bin
+  setLocationMinimum: async (
+    id: string,
+    location: string,
+    minimum: number | undefined,
+    user: User
+  ): Promise<Product | null> => {
+    permissionService.assert(user, 'product.edit');
+    const result = await modifyProduct(id, product => {
+      const hasLocation = product.stock_locations.some(l => l.location === location);
+      const stockLocations = hasLocation
+        ? product.stock_locations.map(l => (l.location === location ? { ...l, min_stock_level: minimum } : l))
+        : [...product.stock_locations, { location, quantity: 0, min_stock_level: minimum }];
+      return { ...product, stock_locations: stockLocations };
+    });
+    if (!result) return null;
+
+    const { before, after } = result;
+    await recordAudit(user, 'update', 'product', { id, label: productLabel(before), product_id: id }, diffRecords(before, after));
+    return after;
+  },
+
+  // Drops an empty bin that is not the primary location
+  removeLocation: async (id: string, location: string, user: User): Promise<Product | null> => {
+    permissionService.assert(user, 'product.edit');
+    const result = await modifyProduct(id, product => {
+      if (location === product.location) throw new Error('The primary location cannot be removed');
+      if (getLocationQuantity(product, location) !== 0) throw new Error('Only empty locations can be removed');
+      return { ...product, stock_locations: product.stock_locations.filter(l => l.location !== location) };
+    });
+    if (!result) return null;
+
+    const { before, after } = result;
+    await recordAudit(user, 'update', 'product', { id, label: productLabel(before), product_id: id }, diffRecords(before, after));
+    return after;
+  },
+};
+
+export interface StockDiscrepancy {
+  product: Product;
+  ledgerBalance: number;
+}
+
+// Supplier management
+export const supplierService = {
+  getAll: async (): Promise<Supplier[]> => {
+    const suppliers = await (await getStorage()).suppliers.getAll();
+    return suppliers.sort((a, b) => a.name.localeCompare(b.name));
+  },
+
+  getById: async (id: string): Promise<Supplier | null> => (await getStorage()).suppliers.getById(id),
+
+  create: async (supplier: Omit<Supplier, 'id' | 'created_at' | 'updated_at'>, user: User): Promise<Supplier> => {
+    permissionService.assert(user, 'supplier.manage');
+    const suppliers = await supplierService.getAll();
+    const normalized = normalizeSupplierName(supplier.name);
+    if (suppliers.some(s => normalizeSupplierName(s.name) === normalized)) {
+      throw new Error(`A supplier named "${supplier.name}" already exists`);
+    }
+
+    const newSupplier: Supplier = {
+      ...supplier,
+      name: supplier.name.trim(),
+      id: generateId(),
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    };
+
+    await (await getStorage()).suppliers.put(newSupplier);
+    await recordAudit(user, 'create', 'supplier', { id: newSupplier.id, label: newSupplier.name }, diffRecords(undefined, newSupplier));
+    return newSupplier;
   },
 
-  delete: async (id: string): Promise<boolean> => {
+  update: async (id: string, updates: Partial<Supplier>, user: User): Promise<Supplier | null> => {
+    permissionService.assert(user, 'supplier.manage');
+    const suppliers = await supplierService.getAll();
+    const index = suppliers.findIndex(s => s.id === id);
+    if (index === -1) return null;
+
+    if (updates.name !== undefined) {
+      const normalized = normalizeSupplierName(updates.name);
+      if (suppliers.some(s => s.id !== id && normalizeSupplierName(s.name) === normalized)) {
+        throw new Error(`A supplier named "${updates.name}" already exists`);
+      }
+    }
+
+    const before = suppliers[index];
+    suppliers[index] = {
+      ...before,
+      ...updates,
+      id,
+      updated_at: new Date().toISOString(),
+    };
+    await (await getStorage()).suppliers.put(suppliers[index]);
+    await recordAudit(user, 'update', 'supplier', { id, label: before.name }, diffRecords(before, suppliers[index]));
+    return suppliers[index];
+  },
+
+  // Suppliers still referenced by products cannot be removed
+  delete: async (id: string, user: User): Promise<boolean> => {
+    permissionService.assert(user, 'supplier.manage');
     const products = await productService.getAll();
-    const filtered = products.filter(p => p.id !== id);
-    
-    if (filtered.length !== products.length) {
-      localStorage.setItem(STORAGE_KEYS.PRODUCTS, JSON.stringify(filtered));
+    if (products.some(p => p.supplier_id === id)) {
+      throw new Error('This supplier is still assigned to products');
+    }
+
+    const suppliers = await supplierService.getAll();
+    const deleted = suppliers.find(s => s.id === id);
+    if (deleted) {
+      await (await getStorage()).suppliers.delete(id);
+      await recordAudit(user, 'delete', 'supplier', { id, label: deleted.name }, diffRecords(deleted, undefined));
       return true;
     }
-    
+
     return false;
   },
 };
+
+// Permission needed to record each kind of movement directly
+const MOVEMENT_PERMISSIONS: Record<StockMovement['type'], Permission> = {
+  receipt: 'stock.receive',
+  sale: 'sales.record',
+  adjustment: 'stock.adjust',
+  transfer: 'stock.transfer',
+  count_correction: 'stock.adjust',
+};
+
+// Appends a movement and applies its delta to the product's current_stock
+// and to one bin. Receipts without a location go to the primary location;
+// outflows without one draw from the primary location if it has enough,
+// otherwise from the fullest bin.
+// Entries are never edited or removed; mistakes are fixed with a new movement.
+// Callers check permissions first: record() does, and so do the services that
+// book stock as part of a larger action (product creation, transfers, PO receipts).
+const applyMovement = async (movement: Omit<StockMovement, 'id' | 'created_at'>): Promise<StockMovement> => {
+  if (!Number.isInteger(movement.quantity) || movement.quantity === 0) {
+    throw new Error('Movement quantity must be a non-zero whole number');
+  }
+
+  // The delta is applied to the stock as stored at the moment of writing, so
+  // movements booked at the same time from different tabs all count
+  let location = '';
+  const result = await modifyProduct(movement.product_id, product => {
+    const newStock = product.current_stock + movement.quantity;
+    if (newStock < 0) {
+      throw new Error(`Insufficient stock: only ${product.current_stock} units on hand`);
+    }
+
+    location = movement.location?.trim() || '';
+    if (!location) {
+      const primaryQuantity = getLocationQuantity(product, product.location);
+      location = movement.quantity > 0 || primaryQuantity + movement.quantity >= 0
+        ? product.location
+        : [...product.stock_locations].sort((a, b) => b.quantity - a.quantity)[0]?.location || product.location;
+    }
+
+    const locationStock = getLocationQuantity(product, location) + movement.quantity;
+    if (locationStock < 0) {
+      throw new Error(
+        `Insufficient stock at ${location}: only ${getLocationQuantity(product, location)} units there. Transfer stock first.`
+      );
+    }
+
+    const stockLocations = product.stock_locations.some(l => l.location === location)
+      ? product.stock_locations.map(l => (l.location === location ? { ...l, quantity: locationStock } : l))
+      : [...product.stock_locations, { location, quantity: locationStock }];
+
+    return { ...product, current_stock: newStock, stock_locations: stockLocations };
+  });
+  if (!result) {
+    throw new Error('Product not found');
+  }
+
+  const newMovement: StockMovement = {
+    ...movement,
+    location,
+    id: generateId(),
+    created_at: result.after.updated_at,
+  };
+
+  const storage = await getStorage();
+  await storage.stock_movements.put(newMovement);
+
+  // Movements booked by the system (e.g. "system") have no account to look up
+  const actor = await storage.users.getById(movement.user_id);
+  await recordAudit(
+    { id: movement.user_id, email: actor?.email || movement.user_id },
+    'create',
+    'stock_movement',
+    { id: newMovement.id, label: productLabel(result.before), product_id: result.before.id },
+    diffRecords(undefined, newMovement)
+  );
+
+  return newMovement;
+};
+
+// Stock movement ledger
+export const stockMovementService = {
+  getAll: async (): Promise<StockMovement[]> => (await getStorage()).stock_movements.getAll(),
+
+  // Newest first
+  getByProduct: async (productId: string): Promise<StockMovement[]> => {
+    const movements = await stockMovementService.getAll();
+    return movements
+      .filter(m => m.product_id === productId)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at));
+  },
+
+  // Records a stock change made by the user; see applyMovement for how it is
+  // booked. Adjustments go through stockAdjustmentService instead.
+  record: async (
+    movement: Omit<StockMovement, 'id' | 'created_at' | 'user_id'>,
+    user: User
+  ): Promise<StockMovement> => {
+    permissionService.assert(user, MOVEMENT_PERMISSIONS[movement.type]);
+    // Adjustments carry a reason code and may need approval
+    if (movement.type === 'adjustment') throw new Error('Record adjustments with Adjust Stock so they get a reason code');
+    return applyMovement({ ...movement, user_id: user.id });
+  },
+
+  // Moves stock between two bins as a pair of transfer movements; the product total is unchanged
+  transfer: async (
+    productId: string,
+    fromLocation: string,
+    toLocation: string,
+    quantity: number,
+    user: User
+  ): Promise<StockMovement[]> => {
+    permissionService.assert(user, 'stock.transfer');
+    const from = fromLocation.trim();
+    const to = toLocation.trim();
+    if (!from || !to || from === to) {
+      throw new Error('Choose two different locations');
+    }
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new Error('Transfer quantity must be a positive whole number');
+    }
+
+    const product = await productService.getById(productId);
+    if (!product) throw new Error('Product not found');
+    if (getLocationQuantity(product, from) < quantity) {
+      throw new Error(`Insufficient stock at ${from}: only ${getLocationQuantity(product, from)} units there`);
+    }
+
+    const outbound = await applyMovement({
+      product_id: productId,
+      type: 'transfer',
+      quantity: -quantity,
+      user_id: user.id,
+      reason: `Transfer to ${to}`,
+      location: from,
+    });
+    const inbound = await applyMovement({
+      product_id: productId,
+      type: 'transfer',
+      quantity,
+      user_id: user.id,
+      reason: `Transfer from ${from}`,
+      location: to,
+    });
+
+    return [outbound, inbound];
+  },
+
+  getBalance: async (productId: string): Promise<number> => {
+    const movements = await stockMovementService.getByProduct(productId);
+    return movements.reduce((sum, m) => sum + m.quantity, 0);
+  },
+
+  // Products whose current_stock no longer matches the sum of their movements
+  reconcile: async (): Promise<StockDiscrepancy[]> => {
+    const [products, movements] = await Promise.all([
+      productService.getAll(),
+      stockMovementService.getAll(),
+    ]);
+
+    const balances = new Map<string, number>();
+    movements.forEach(m => balances.set(m.product_id, (balances.get(m.product_id) || 0) + m.quantity));
+
+    return products
+      .map(product => ({ product, ledgerBalance: balances.get(product.id) || 0 }))
+      .filter(({ product, ledgerBalance }) => product.current_stock !== ledgerBalance);
+  },
+};
+
+export interface OnOrderSummary {
+  quantity: number;
+  poNumbers: string[];
+}
+
+// Statuses whose outstanding lines still count as "on order"
+const OPEN_PO_STATUSES: PurchaseOrderStatus[] = ['draft', 'sent', 'partially_received'];
+
+// Every change to a purchase order goes through here, so two terminals acting
+// on the same order at once (e.g. both receiving it) can't overwrite each other
+const modifyPurchaseOrder = async (id: string, change: (order: PurchaseOrder) => PurchaseOrder) => {
+  const result = await modifyRecord(
+    (await getStorage()).purchase_orders,
+    id,
+    change,
+    'This purchase order is being changed in several places at once. Please try again.'
+  );
+  if (!result) throw new Error('Purchase order not found');
+  return result;
+};
+
+// Adds received quantities (keyed by product id; negative to take them off
+// again) and works out the status they leave the order in
+const addReceived = (order: PurchaseOrder, received: Record<string, number>): PurchaseOrder => {
+  const lines = order.lines.map(l => ({ ...l, quantity_received: l.quantity_received + (received[l.product_id] || 0) }));
+  const fullyReceived = lines.every(l => l.quantity_received >= l.quantity_ordered);
+
+  return {
+    ...order,
+    lines,
+    status: fullyReceived ? 'received' : lines.some(l => l.quantity_received > 0) ? 'partially_received' : 'sent',
+    received_at: fullyReceived ? order.received_at || new Date().toISOString() : undefined,
+  };
+};
+
+// Adds each item to the draft's lines, or to the line already ordering it
+const addDraftLines = (lines: PurchaseOrderLine[], items: { product: Product; quantity: number }[]) =>
+  items.reduce<PurchaseOrderLine[]>((result, { product, quantity }) =>
+    result.some(l => l.product_id === product.id)
+      ? result.map(l => (l.product_id === product.id ? { ...l, quantity_ordered: l.quantity_ordered + quantity } : l))
+      : [...result, { product_id: product.id, quantity_ordered: quantity, quantity_received: 0, cost_price: product.cost_price }],
+    lines);
+
+// Purchase order management
+export const purchaseOrderService = {
+  getAll: async (): Promise<PurchaseOrder[]> => (await getStorage()).purchase_orders.getAll(),
+
+  getById: async (id: string): Promise<PurchaseOrder | null> => (await getStorage()).purchase_orders.getById(id),
+
+  // Groups the requested items into one draft PO per supplier, adding to an
+  // existing draft for that supplier when there is one
+  createDrafts: async (items: { product: Product; quantity: number }[], user: User): Promise<PurchaseOrder[]> => {
+    permissionService.assert(user, 'po.create');
+    const storage = await getStorage();
+    const orders = await purchaseOrderService.getAll();
+    const bySupplier = new Map<string, { product: Product; quantity: number }[]>();
+    items.filter(item => item.quantity > 0).forEach(item => {
+      bySupplier.set(item.product.supplier_id, [...(bySupplier.get(item.product.supplier_id) || []), item]);
+    });
+
+    const touched: PurchaseOrder[] = [];
+    for (const [supplierId, supplierItems] of bySupplier) {
+      const draft = orders.find(o => o.status === 'draft' && o.supplier_id === supplierId);
+
+      if (draft) {
+        const { before, after } = await modifyPurchaseOrder(draft.id, order => {
+          if (order.status !== 'draft') {
+            throw new Error(`${order.po_number} was sent before the items could be added to it. Please try again.`);
+          }
+          return { ...order, lines: addDraftLines(order.lines, supplierItems) };
+        });
+        await recordAudit(user, 'update', 'purchase_order', { id: after.id, label: after.po_number }, diffRecords(before, after));
+        touched.push(after);
+      } else {
+        const poNumber = await nextDocumentNumber('PO', 4, async () => orders.map(o => o.po_number));
+        const now = new Date().toISOString();
+        const order: PurchaseOrder = {
+          id: generateId(),
+          po_number: poNumber,
+          supplier_id: supplierId,
+          status: 'draft',
+          lines: addDraftLines([], supplierItems),
+          version: 1,
+          created_by: user.id,
+          created_at: now,
+          updated_at: now,
+        };
+        orders.push(order);
+        await storage.purchase_orders.put(order);
+        await recordAudit(user, 'create', 'purchase_order', { id: order.id, label: order.po_number }, diffRecords(undefined, order));
+        touched.push(order);
+      }
+    }
+    return touched;
+  },
+
+  // Changes a draft line's quantity; a quantity of 0 removes the line
+  updateDraftLine: async (id: string, productId: string, quantity: number, user: User): Promise<PurchaseOrder> => {
+    permissionService.assert(user, 'po.create');
+    const { before, after } = await modifyPurchaseOrder(id, order => {
+      if (order.status !== 'draft') throw new Error('Only draft purchase orders can be edited');
+      return {
+        ...order,
+        lines: quantity > 0
+          ? order.lines.map(l => (l.product_id === productId ? { ...l, quantity_ordered: quantity } : l))
+          : order.lines.filter(l => l.product_id !== productId),
+      };
+    });
+
+    await recordAudit(user, 'update', 'purchase_order', { id, label: after.po_number }, diffRecords(before, after));
+    return after;
+  },
+
+  send: async (id: string, user: User): Promise<PurchaseOrder> => {
+    permissionService.assert(user, 'po.approve');
+    const { before, after } = await modifyPurchaseOrder(id, order => {
+      if (order.status !== 'draft') throw new Error('Only draft purchase orders can be sent');
+      if (order.lines.length === 0) throw new Error('Cannot send a purchase order without lines');
+      return { ...order, status: 'sent', sent_at: new Date().toISOString() };
+    });
+
+    await recordAudit(user, 'update', 'purchase_order', { id, label: after.po_number }, diffRecords(before, after));
+    return after;
+  },
+
+  // Cancels whatever has not been received yet; received stock stays in the ledger
+  cancel: async (id: string, user: User): Promise<PurchaseOrder> => {
+    permissionService.assert(user, 'po.approve');
+    const { before, after } = await modifyPurchaseOrder(id, order => {
+      if (!OPEN_PO_STATUSES.includes(order.status)) {
+        throw new Error('This purchase order can no longer be cancelled');
+      }
+      return { ...order, status: 'cancelled' };
+    });
+
+    await recordAudit(user, 'update', 'purchase_order', { id, label: after.po_number }, diffRecords(before, after));
+    return after;
+  },
+
+  // Books received quantities (keyed by product id) into stock as receipt
+  // movements. They are added to the order first, so two terminals receiving
+  // the same delivery can't both book it; any that then fail to book are
+  // taken off the order again.
+  receive: async (id: string, quantities: Record<string, number>, user: User): Promise<PurchaseOrder> => {
+    permissionService.assert(user, 'po.receive');
+    let receipts: Record<string, number> = {};
+
+    const { before, after } = await modifyPurchaseOrder(id, order => {
+      if (order.status !== 'sent' && order.status !== 'partially_received') {
+        throw new Error('Only sent purchase orders can be received');
+      }
+
+      const lines = order.lines.filter(line => (quantities[line.product_id] || 0) > 0);
+      if (lines.length === 0) throw new Error('Enter a quantity for at least one line');
+      lines.forEach(line => {
+        const quantity = quantities[line.product_id];
+        if (!Number.isInteger(quantity) || quantity > line.quantity_ordered - line.quantity_received) {
+          throw new Error('Cannot receive more than the outstanding quantity');
+        }
+      });
+
+      receipts = Object.fromEntries(lines.map(line => [line.product_id, quantities[line.product_id]]));
+      return addReceived(order, receipts);
+    });
+
+    const unbooked = { ...receipts };
+    try {
+      for (const [productId, quantity] of Object.entries(receipts)) {
+        await applyMovement({
+          product_id: productId,
+          type: 'receipt',
+          quantity,
+          user_id: user.id,
+          reason: `Received on ${after.po_number}`,
+        });
+        delete unbooked[productId];
+      }
+    } catch (error) {
+      try {
+        const negated = Object.fromEntries(Object.entries(unbooked).map(([productId, quantity]) => [productId, -quantity]));
+        const restored = await modifyPurchaseOrder(id, order => addReceived(order, negated));
+        if (Object.keys(unbooked).length < Object.keys(receipts).length) {
+          await recordAudit(user, 'update', 'purchase_order', { id, label: after.po_number }, diffRecords(before, restored.after));
+        }
+      } catch (restoreError) {
+        console.error('Error taking unbooked quantities off the purchase order:', restoreError);
+      }
+      throw error;
+    }
+
+    await recordAudit(user, 'update', 'purchase_order', { id, label: after.po_number }, diffRecords(before, after));
+    return after;
+  },
+
+  // Outstanding quantity per product across all open purchase orders
+  getOnOrder: async (): Promise<Record<string, OnOrderSummary>> => {
+    const orders = await purchaseOrderService.getAll();
+    const onOrder: Record<string, OnOrderSummary> = {};
+
+    orders
+      .filter(o => OPEN_PO_STATUSES.includes(o.status))
+      .forEach(order => {
+        order.lines.forEach(line => {
+          const outstanding = line.quantity_ordered - line.quantity_received;
+          if (outstanding <= 0) return;
+
+          const summary = onOrder[line.product_id] || { quantity: 0, poNumbers: [] };
+          summary.quantity += outstanding;
+          summary.poNumbers.push(order.po_number);
+          onOrder[line.product_id] = summary;
+        });
+      });
+
+    return onOrder;
+  },
+};
+
+// Point-of-sale sales
+export const saleService = {
+  // Newest first
+  getAll: async (): Promise<Sale[]> => {
+    const sales = await (await getStorage()).sales.getAll();
+    return sales.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  },
+
+  getById: async (id: string): Promise<Sale | null> => (await getStorage()).sales.getById(id),
+
+  // Takes the cart out of stock at the current selling prices, one sale
+  // movement per line. If a line can't be booked (e.g. another tab sold the
+  // last unit first), the lines already booked are put back and nothing is sold.
+  complete: async (cart: CartItem[], user: User): Promise<Sale> => {
+    permissionService.assert(user, 'sales.record');
+    const items = cart
+      .reduce<CartItem[]>((merged, item) => addToCart(merged, item.product_id, item.quantity), [])
+      .filter(item => item.quantity !== 0);
+    if (items.length === 0) throw new Error('Add at least one item to the sale');
+    items.forEach(item => {
+      if (!Number.isInteger(item.quantity) || item.quantity < 0) {
+        throw new Error('Sale quantities must be positive whole numbers');
+      }
+    });
+
+    const lines: SaleLine[] = [];
+    for (const item of items) {
+      const product = await productService.getById(item.product_id);
+      if (!product) throw new Error('A product in the sale no longer exists');
+      if (product.current_stock < item.quantity) {
+        throw new Error(`Insufficient stock for ${product.name}: only ${product.current_stock} units on hand`);
+      }
+      lines.push({
+        product_id: product.id,
+        name: product.name,
+        sku: product.sku,
+        quantity: item.quantity,
+        unit_price: product.selling_price,
+        unit_cost: product.cost_price,
+      });
+    }
+
+    const saleNumber = await nextDocumentNumber('SALE', 5, async () => (await saleService.getAll()).map(s => s.sale_number));
+    const booked: StockMovement[] = [];
+    try {
+      for (const line of lines) {
+        booked.push(await applyMovement({
+          product_id: line.product_id,
+          type: 'sale',
+          quantity: -line.quantity,
+          user_id: user.id,
+          reason: `Sold on ${saleNumber}`,
+        }));
+      }
+    } catch (error) {
+      for (const movement of booked) {
+        await applyMovement({
+          product_id: movement.product_id,
+          type: 'sale',
+          quantity: -movement.quantity,
+          user_id: user.id,
+          reason: `${saleNumber} not completed`,
+          location: movement.location,
+        });
+      }
+      throw error;
+    }
+
+    const { revenue, cost_of_goods } = saleTotals(lines);
+    const sale: Sale = {
+      id: generateId(),
+      sale_number: saleNumber,
+      lines,
+      revenue,
+      cost_of_goods,
+      user_id: user.id,
+      created_at: new Date().toISOString(),
+    };
+
+    await (await getStorage()).sales.put(sale);
+    await recordAudit(user, 'create', 'sale', { id: sale.id, label: sale.sale_number }, diffRecords(undefined, sale));
+    return sale;
+  },
+};
+
+// Reason codes and the approval limit, editable by admins on the Stock Adjustments screen
+export const adjustmentSettingsService = {
+  get: (): AdjustmentSettings => {
+    const stored: Partial<AdjustmentSettings> = JSON.parse(localStorage.getItem(STORAGE_KEYS.ADJUSTMENT_SETTINGS) || '{}');
+    return { ...DEFAULT_ADJUSTMENT_SETTINGS, ...stored };
+  },
+
+  update: async (settings: AdjustmentSettings, actingUser: User): Promise<AdjustmentSettings> => {
+    permissionService.assert(actingUser, 'adjustment.approve');
+    const error = validateAdjustmentSettings(settings);
+    if (error) throw new Error(error);
+
+    const before = adjustmentSettingsService.get();
+    await saveSetting(STORAGE_KEYS.ADJUSTMENT_SETTINGS, JSON.stringify(settings));
+    await recordAudit(actingUser, 'update', 'settings', { id: 'adjustment_settings', label: 'Adjustment reasons' }, diffRecords(before, settings));
+    return settings;
+  },
+};
+
+const saveStockAdjustment = async (adjustment: StockAdjustment) =>
+  (await getStorage()).stock_adjustments.put(adjustment);
+
+// Review decisions go through here, so an adjustment reviewed on two
+// terminals at once is only decided (and booked) once
+const modifyStockAdjustment = async (id: string, change: (adjustment: StockAdjustment) => StockAdjustment) => {
+  const result = await modifyRecord(
+    (await getStorage()).stock_adjustments,
+    id,
+    change,
+    'This adjustment is being reviewed in several places at once. Please try again.'
+  );
+  if (!result) throw new Error('Adjustment not found');
+  return result;
+};
+
+const auditAdjustmentReview = async (user: User, before: StockAdjustment, after: StockAdjustment) => {
+  const product = await productService.getById(after.product_id);
+  await recordAudit(user, 'update', 'stock_adjustment', {
+    id: after.id,
+    label: product ? productLabel(product) : after.product_id,
+    product_id: after.product_id,
+  }, diffRecords(before, after));
+};
+
+// Books an adjustment into stock, with its reason's name (and any note) as the movement reason
+const bookAdjustment = (adjustment: StockAdjustment, user: User) => {
+  const reason = adjustmentSettingsService.get().reasons.find(r => r.code === adjustment.reason_code);
+  const label = reason?.label || adjustment.reason_code;
+
+  return applyMovement({
+    product_id: adjustment.product_id,
+    type: 'adjustment',
+    quantity: adjustment.quantity,
+    user_id: user.id,
+    reason: adjustment.note ? `${label}: ${adjustment.note}` : label,
+    reason_code: adjustment.reason_code,
+    location: adjustment.location,
+  });
+};
+
+// Stock written up or down for a reason such as damage or theft
+export const stockAdjustmentService = {
+  // Newest first
+  getAll: async (): Promise<StockAdjustment[]> => {
+    const adjustments = await (await getStorage()).stock_adjustments.getAll();
+    return adjustments.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  },
+
+  // Applied straight away unless it is worth more than the approval limit
+  // and the user can't approve adjustments, in which case it stays pending
+  request: async (
+    adjustment: Pick<StockAdjustment, 'product_id' | 'quantity' | 'reason_code' | 'note' | 'location'>,
+    user: User
+  ): Promise<StockAdjustment> => {
+    permissionService.assert(user, 'stock.adjust');
+    const settings = adjustmentSettingsService.get();
+    const error = validateAdjustment(settings.reasons.find(r => r.code === adjustment.reason_code), adjustment.quantity);
+    if (error) throw new Error(error);
+
+    const product = await productService.getById(adjustment.product_id);
+    if (!product) throw new Error('Product not found');
+
+    const value = adjustmentValue(adjustment.quantity, product.cost_price);
+    const needsApproval = value > settings.approval_threshold && !permissionService.can(user, 'adjustment.approve');
+    const now = new Date().toISOString();
+    const record: StockAdjustment = {
+      id: generateId(),
+      product_id: adjustment.product_id,
+      quantity: adjustment.quantity,
+      reason_code: adjustment.reason_code,
+      note: adjustment.note.trim(),
+      location: adjustment.location?.trim() || undefined,
+      value,
+      status: needsApproval ? 'pending' : 'approved',
+      requested_by: user.id,
+      version: 1,
+      created_at: now,
+      updated_at: now,
+    };
+    if (!needsApproval) {
+      record.movement_id = (await bookAdjustment(record, user)).id;
+    }
+
+    await saveStockAdjustment(record);
+    await recordAudit(user, 'create', 'stock_adjustment', { id: record.id, label: productLabel(product), product_id: product.id }, diffRecords(undefined, record));
+    return record;
+  },
+
+  // The adjustment is marked approved before its movement is booked, so a
+  // second approver finds it already reviewed; if booking fails it goes back
+  // to pending
+  approve: async (id: string, user: User): Promise<StockAdjustment> => {
+    permissionService.assert(user, 'adjustment.approve');
+    const { before, after: approved } = await modifyStockAdjustment(id, adjustment => {
+      if (adjustment.status !== 'pending') throw new Error('This adjustment has already been reviewed');
+      return { ...adjustment, status: 'approved', reviewed_by: user.id, reviewed_at: new Date().toISOString() };
+    });
+
+    let movement: StockMovement;
+    try {
+      movement = await bookAdjustment(approved, user);
+    } catch (error) {
+      await modifyStockAdjustment(id, adjustment => ({
+        ...adjustment,
+        status: 'pending',
+        reviewed_by: undefined,
+        reviewed_at: undefined,
+      }));
+      throw error;
+    }
+
+    const { after } = await modifyStockAdjustment(id, adjustment => ({ ...adjustment, movement_id: movement.id }));
+    await auditAdjustmentReview(user, before, after);
+    return after;
+  },
+
+  reject: async (id: string, user: User): Promise<StockAdjustment> => {
+    permissionService.assert(user, 'adjustment.approve');
+    const { before, after } = await modifyStockAdjustment(id, adjustment => {
+      if (adjustment.status !== 'pending') throw new Error('This adjustment has already been reviewed');
+      return { ...adjustment, status: 'rejected', reviewed_by: user.id, reviewed_at: new Date().toISOString() };
+    });
+
+    await auditAdjustmentReview(user, before, after);
+    return after;
+  },
+};
+
+// Per-product overrides for the demand-based restock suggestions (see reorder.ts)
+export const reorderSettingsService = {
+  get: (): ReorderSettings => {
+    const stored: Partial<ReorderSettings> = JSON.parse(localStorage.getItem(STORAGE_KEYS.REORDER_SETTINGS) || '{}');
+    return { ...DEFAULT_REORDER_SETTINGS, ...stored };
+  },
+
+  // Parameters left undefined fall back to the defaults; none at all clears the override
+  setOverrides: async (productId: string, overrides: Partial<ReorderParameters>, actingUser: User): Promise<ReorderSettings> => {
+    permissionService.assert(actingUser, 'reorder.configure');
+    const product = await productService.getById(productId);
+    if (!product) throw new Error('Product not found');
+    const error = validateReorderOverrides(overrides);
+    if (error) throw new Error(error);
+
+    const kept = Object.fromEntries(Object.entries(overrides).filter(([, value]) => value !== undefined));
+    const settings = reorderSettingsService.get();
+    const before = settings.overrides[productId] || {};
+    const others = Object.fromEntries(Object.entries(settings.overrides).filter(([id]) => id !== productId));
+    const updated: ReorderSettings = {
+      ...settings,
+      overrides: Object.keys(kept).length > 0 ? { ...others, [productId]: kept } : others,
+    };
+
+    await saveSetting(STORAGE_KEYS.REORDER_SETTINGS, JSON.stringify(updated));
+    await recordAudit(
+      actingUser,
+      'update',
+      'settings',
+      { id: 'reorder_settings', label: `Reorder parameters for ${product.name}`, product_id: productId },
+      diffRecords(before, kept)
+    );
+    return updated;
+  },
+};
+
+// Every change to a count goes through here, so one approved on two
+// terminals at once is only booked into stock once
+const modifyStockCount = async (id: string, change: (count: StockCount) => StockCount) => {
+  const result = await modifyRecord(
+    (await getStorage()).stock_counts,
+    id,
+    change,
+    'This stock count is being changed in several places at once. Please try again.'
+  );
+  if (!result) throw new Error('Stock count not found');
+  return result;
+};
+
+// Cycle counts and stock-takes. Staff count the bins in scope, then an admin
+// reviews the variances and approves them into stock.
+export const stockCountService = {
+  // Newest first
+  getAll: async (): Promise<StockCount[]> => {
+    const counts = await (await getStorage()).stock_counts.getAll();
+    return counts.sort((a, b) => b.created_at.localeCompare(a.created_at));
+  },
+
+  getById: async (id: string): Promise<StockCount | null> => (await getStorage()).stock_counts.getById(id),
+
+  create: async (scope: StockCountScope, blind: boolean, user: User): Promise<StockCount> => {
+    permissionService.assert(user, 'count.perform');
+    if (scope.type === 'location' && !scope.prefix.trim()) throw new Error('Enter the start of the locations to count');
+    if (scope.type === 'category' && !scope.category) throw new Error('Choose a category to count');
+    if (scope.type === 'abc_sample') {
+      const sizes = ABC_CLASSES.map(c => scope.sample[c]);
+      if (sizes.some(size => !Number.isInteger(size) || size < 0) || sizes.every(size => size === 0)) {
+        throw new Error('Sample sizes must be whole numbers, with at least one above zero');
+      }
+    }
+
+    const products = await productService.getAll();
+    const abcClasses = scope.type === 'abc_sample' ? classifyAbc(products, await saleService.getAll()) : undefined;
+    const lines = buildCountLines(products, scope, abcClasses);
+    if (lines.length === 0) throw new Error('No stock matches this scope');
+
+    const countNumber = await nextDocumentNumber('CNT', 4, async () => (await stockCountService.getAll()).map(c => c.count_number));
+    const now = new Date().toISOString();
+    const count: StockCount = {
+      id: generateId(),
+      count_number: countNumber,
+      scope,
+      blind,
+      status: 'open',
+      lines,
+      version: 1,
+      created_by: user.id,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await (await getStorage()).stock_counts.put(count);
+    await recordAudit(user, 'create', 'stock_count', { id: count.id, label: count.count_number }, diffRecords(undefined, count));
+    return count;
+  },
+
+  // Records counted quantities, keyed by countLineKey; null clears a count.
+  // Each newly counted line takes the bin quantity on record at that moment
+  // as its expected quantity.
+  saveCounts: async (id: string, quantities: Record<string, number | null>, user: User): Promise<StockCount> => {
+    permissionService.assert(user, 'count.perform');
+    const products = new Map((await productService.getAll()).map(p => [p.id, p]));
+    const now = new Date().toISOString();
+
+    const { before, after } = await modifyStockCount(id, count => {
+      if (count.status !== 'open') throw new Error('Only open stock counts can be counted');
+
+      return {
+        ...count,
+        lines: count.lines.map(line => {
+          const key = countLineKey(line);
+          if (!(key in quantities) || quantities[key] === line.counted) return line;
+
+          const quantity = quantities[key];
+          if (quantity !== null && (!Number.isInteger(quantity) || quantity < 0)) {
+            throw new Error(`Counted quantity for ${line.name} at ${line.location} must be a whole number of 0 or more`);
+          }
+
+          const product = products.get(line.product_id);
+          return {
+            ...line,
+            ...(product && { expected: getLocationQuantity(product, line.location), unit_cost: product.cost_price }),
+            counted: quantity,
+            counted_at: quantity === null ? undefined : now,
+          };
+        }),
+      };
+    });
+
+    await recordAudit(user, 'update', 'stock_count', { id, label: after.count_number }, diffRecords(before, after));
+    return after;
+  },
+
+  submit: async (id: string, user: User): Promise<StockCount> => {
+    permissionService.assert(user, 'count.perform');
+    const { before, after } = await modifyStockCount(id, count => {
+      if (count.status !== 'open') throw new Error('Only open stock counts can be submitted');
+      if (count.lines.every(line => line.counted === null)) throw new Error('Count at least one line before submitting');
+      return { ...count, status: 'submitted', submitted_at: new Date().toISOString() };
+    });
+
+    await recordAudit(user, 'update', 'stock_count', { id, label: after.count_number }, diffRecords(before, after));
+    return after;
+  },
+
+  // Sends a submitted count back to be recounted
+  reopen: async (id: string, user: User): Promise<StockCount> => {
+    permissionService.assert(user, 'count.approve');
+    const { before, after } = await modifyStockCount(id, count => {
+      if (count.status !== 'submitted') throw new Error('Only submitted stock counts can be sent back');
+      return { ...count, status: 'open', submitted_at: undefined };
+    });
+
+    await recordAudit(user, 'update', 'stock_count', { id, label: after.count_number }, diffRecords(before, after));
+    return after;
+  },
+
+  cancel: async (id: string, user: User): Promise<StockCount> => {
+    permissionService.assert(user, 'count.approve');
+    const { before, after } = await modifyStockCount(id, count => {
+      if (count.status !== 'open' && count.status !== 'submitted') {
+        throw new Error('This stock count can no longer be cancelled');
+      }
+      return { ...count, status: 'cancelled' };
+    });
+
+    await recordAudit(user, 'update', 'stock_count', { id, label: after.count_number }, diffRecords(before, after));
+    return after;
+  },
+
+  // Books each counted variance into its bin as a count_correction movement.
+  // The count is marked approved first, so a second approver finds it already
+  // approved. Lines for products deleted since counting are skipped. If a
+  // correction can't be booked, the ones already booked are reversed and the
+  // count goes back to submitted.
+  approve: async (id: string, user: User): Promise<StockCount> => {
+    permissionService.assert(user, 'count.approve');
+    const { before, after } = await modifyStockCount(id, count => {
+      if (count.status !== 'submitted') throw new Error('Only submitted stock counts can be approved');
+      return { ...count, status: 'approved', approved_by: user.id, approved_at: new Date().toISOString() };
+    });
+
+    const booked: StockMovement[] = [];
+    try {
+      for (const variance of countVarianceReport(after).lines) {
+        if (variance.units === 0 || !(await productService.getById(variance.line.product_id))) continue;
+        booked.push(await applyMovement({
+          product_id: variance.line.product_id,
+          type: 'count_correction',
+          quantity: variance.units,
+          user_id: user.id,
+          reason: `Stock count ${after.count_number}`,
+          reason_code: STOCK_COUNT_REASON_CODE,
+          location: variance.line.location,
+        }));
+      }
+    } catch (error) {
+      for (const movement of booked) {
+        await applyMovement({
+          product_id: movement.product_id,
+          type: 'count_correction',
+          quantity: -movement.quantity,
+          user_id: user.id,
+          reason: `Stock count ${after.count_number} not approved`,
+          reason_code: STOCK_COUNT_REASON_CODE,
+          location: movement.location,
+        });
+      }
+      await modifyStockCount(id, count => ({ ...count, status: 'submitted', approved_by: undefined, approved_at: undefined }));
+      throw error;
+    }
+
+    await recordAudit(user, 'update', 'stock_count', { id, label: after.count_number }, diffRecords(before, after));
+    return after;
+  },
+};
+
+// Collections kept as JSON arrays directly in localStorage
+const readCollections = async (): Promise<BackupCollections> => {
+  const storage = await getStorage();
+  const [products, users, records] = await Promise.all([storage.products.getAll(), storage.users.getAll(), readRecords(storage)]);
+  return { products, users, ...records };
+};
+
+const readSetting = (key: string) => {
+  const value = localStorage.getItem(key);
+  return value ? JSON.parse(value) : undefined;
+};
+
+// Backups of shared storage carry no password hashes, so restoring one
+// anywhere else would leave accounts nobody can sign in to
+const lacksPasswords = async (backup: BackupFile) =>
+  !(await getStorage()).accounts && backup.collections.users.some(u => !u.password_hash);
+
+// Settings missing from a backup fall back to their defaults
+const writeSetting = (key: string, value: unknown) => saveSetting(key, value ? JSON.stringify(value) : null);
+
+// Full export and restore of every stored entity. Sessions are not included,
+// so restoring never signs anyone in or out by itself.
+export const backupService = {
+  create: async (user: User): Promise<BackupFile> => {
+    permissionService.assert(user, 'data.backup');
+    await usersReady;
+
+    return {
+      format: BACKUP_FORMAT,
+      format_version: BACKUP_FORMAT_VERSION,
+      schema_version: getSchemaVersion(),
+      created_at: new Date().toISOString(),
+      created_by: user.email,
+      collections: await readCollections(),
+      settings: {
+        role_permissions: readSetting(STORAGE_KEYS.ROLE_PERMISSIONS),
+        session_settings: readSetting(STORAGE_KEYS.SESSION_SETTINGS),
+        adjustment_settings: readSetting(STORAGE_KEYS.ADJUSTMENT_SETTINGS),
+        reorder_settings: readSetting(STORAGE_KEYS.REORDER_SETTINGS),
+      },
+    };
+  },
+
+  // What restoring would add, update and remove, without changing anything
+  preview: async (backup: BackupFile, mode: RestoreMode, user: User): Promise<CollectionDiff[]> => {
+    permissionService.assert(user, 'data.backup');
+    const modeError = validateRestoreMode(backup, mode, getSchemaVersion());
+    if (modeError) throw new Error(modeError);
+    if (await lacksPasswords(backup)) {
+      throw new Error('This backup was taken from shared storage, which keeps passwords to itself. Restore it to shared storage.');
+    }
+
+    return planRestore(await readCollections(), backup, mode).diffs;
+  },
+
+  // The backup must already have passed validateBackup. Reload the app
+  // afterwards so every screen, and any needed migrations, pick up the data.
+  restore: async (backup: BackupFile, mode: RestoreMode, user: User): Promise<void> => {
+    permissionService.assert(user, 'data.backup');
+    const modeError = validateRestoreMode(backup, mode, getSchemaVersion());
+    if (modeError) throw new Error(modeError);
+    if (await lacksPasswords(backup)) {
+      throw new Error('This backup was taken from shared storage, which keeps passwords to itself. Restore it to shared storage.');
+    }
+
+    const storage = await getStorage();
+    // Shared accounts can only be changed by a signed-in admin, so the one
+    // restoring has to stay one
+    if (mode === 'replace' && storage.accounts) {
+      const account = backup.collections.users.find(u => u.id === user.id);
+      if (!account || account.role !== 'admin' || account.disabled) {
+        throw new Error(
+          `This backup doesn't have ${user.email} as an active admin, so replacing shared storage with it would lock you out. ` +
+          'Restore it while signed in as one of its admins.'
+        );
+      }
+    }
+
+    const { collections } = planRestore(await readCollections(), backup, mode);
+    // Replacing clears each collection before refilling it, so if anything
+    // fails part way the data is put back as it was rather than left half wiped
+    const snapshot = mode === 'replace' ? await takeSnapshot() : null;
+    let accountsChanged = false;
+
+    try {
+      if (mode === 'replace') await storage.products.clear();
+      await storage.products.putMany(collections.products);
+
+      for (const collection of RECORD_COLLECTIONS) {
+        const records = storage[collection] as StorageCollection<{ id: string }>;
+        if (mode === 'replace') await records.clear();
+        await records.putMany(collections[collection]);
+      }
+
+      // Settings are single documents, so merging keeps the current ones
+      if (mode === 'replace') {
+        await writeSetting(STORAGE_KEYS.ROLE_PERMISSIONS, backup.settings.role_permissions);
+        await writeSetting(STORAGE_KEYS.SESSION_SETTINGS, backup.settings.session_settings);
+        await writeSetting(STORAGE_KEYS.ADJUSTMENT_SETTINGS, backup.settings.adjustment_settings);
+        await writeSetting(STORAGE_KEYS.REORDER_SETTINGS, backup.settings.reorder_settings);
+        await setSchemaVersion(backup.schema_version);
+      }
+
+      // Shared accounts are not in the snapshot, so they go last. They are
+      // written before any are removed, rather than cleared first, so a shared
+      // backend still knows the admin doing the restore.
+      accountsChanged = !!storage.accounts;
+      await storage.users.putMany(collections.users);
+      if (mode === 'replace') {
+        const restoredIds = new Set(collections.users.map(u => u.id));
+        for (const account of await storage.users.getAll()) {
+          if (!restoredIds.has(account.id)) await storage.users.delete(account.id);
+        }
+      }
+    } catch (error) {
+      if (!snapshot) throw error;
+      const reason = error instanceof Error ? error.message : String(error);
+      try {
+        await restoreSnapshot(snapshot);
+      } catch (restoreError) {
+        console.error('Error putting data back after a failed restore:', restoreError);
+        throw new Error(`Restoring failed (${reason}) and the data could not be put back as it was. Restore the backup again.`);
+      }
+      throw new Error(accountsChanged
+        ? `Restoring failed (${reason}). The data was put back as it was, but user accounts may be partly restored; check them on the Users screen.`
+        : `Restoring failed (${reason}). The data was put back as it was.`);
+    }
+
+    const restored: AuditEntityType[] = ['product', 'stock_movement', 'supplier', 'purchase_order', 'sale', 'stock_count', 'stock_adjustment', 'user'];
+    restored.forEach(entity => broadcast({ type: 'changed', entity }));
+    await recordAudit(user, 'update', 'settings', { id: 'backup_restore', label: 'Restore from backup' }, [
+      { field: 'mode', before: undefined, after: mode },
+      { field: 'backup_created_at', before: undefined, after: backup.created_at },
+      { field: 'backup_created_by', before: undefined, after: backup.created_by },
+    ]);
+  },
+};
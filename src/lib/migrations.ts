@@ -0,0 +1,141 @@
+// src/lib/migrations.ts
+import {
+  DataSnapshot,
+  MigrationLock,
+  getSchemaVersion,
+  getStorage,
+  refreshSchemaVersion,
+  restoreSnapshot,
+  setSchemaVersion,
+  takeSnapshot
+} from './storage';
+
+export interface Migration {
+  // Migrations run in ascending order; the stored schema version is the last one applied
+  version: number;
+  description: string;
+  up: () => Promise<void>;
+}
+
+// The last pre-migration snapshot is kept here until the next migration
+const BACKUP_KEY = 'stockpile_migration_backup';
+
+export class MigrationError extends Error {
+  migration: Migration;
+  backup: DataSnapshot | null;
+  // Whether the data was put back as it was before the migration started
+  rolledBack: boolean;
+
+  constructor(migration: Migration, reason: string, backup: DataSnapshot | null, rolledBack: boolean) {
+    super(`Updating your data failed at step ${migration.version} (${migration.description}): ${reason}`);
+    this.name = 'MigrationError';
+    this.migration = migration;
+    this.backup = backup;
+    this.rolledBack = rolledBack;
+  }
+}
+
+// How long a terminal waits for another to finish migrating shared storage
+const LOCK_WAIT_MS = 2 * 60 * 1000;
+const LOCK_POLL_MS = 2000;
+
+const reasonFor = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const pendingMigrations = (migrations: Migration[]) => {
+  const current = getSchemaVersion();
+  return migrations
+    .filter(m => m.version > current)
+    .sort((a, b) => a.version - b.version);
+};
+
+const keepBackup = (backup: DataSnapshot) => {
+  try {
+    localStorage.setItem(BACKUP_KEY, JSON.stringify(backup));
+  } catch (error) {
+    // Large datasets can exceed the localStorage quota. The in-memory copy
+    // still serves to roll back, or to download, if a step fails.
+    console.warn('Could not keep a copy of the pre-migration backup:', error);
+  }
+};
+
+// Shared storage is migrated by one terminal at a time, under a lock. Other
+// terminals keep writing while it runs, so a failed step is not rolled back
+// from a snapshot, which would overwrite their changes: the steps already
+// finished stay applied and the failed one runs again on the next start.
+// Steps must therefore be safe to run twice. The snapshot is still taken, to
+// offer as a download.
+const runSharedMigrations = async (migrations: Migration[], lock: MigrationLock): Promise<void> => {
+  const holder = `${Date.now()}${Math.random().toString(36).slice(2, 10)}`;
+  const deadline = Date.now() + LOCK_WAIT_MS;
+
+  while (!(await lock.claim(holder))) {
+    if (Date.now() > deadline) {
+      throw new MigrationError(pendingMigrations(migrations)[0], 'another terminal is still updating the shared data', null, true);
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_POLL_MS));
+    // The terminal holding the lock may have finished everything already
+    await refreshSchemaVersion();
+    if (pendingMigrations(migrations).length === 0) return;
+  }
+
+  try {
+    await refreshSchemaVersion();
+    const pending = pendingMigrations(migrations);
+    if (pending.length === 0) return;
+
+    let backup: DataSnapshot | null = null;
+    try {
+      backup = await takeSnapshot([BACKUP_KEY]);
+      keepBackup(backup);
+    } catch (error) {
+      console.warn('Could not back up the shared data before updating it:', error);
+    }
+
+    for (const migration of pending) {
+      try {
+        await migration.up();
+        await setSchemaVersion(migration.version, holder);
+      } catch (error) {
+        throw new MigrationError(migration, reasonFor(error), backup, false);
+      }
+    }
+  } finally {
+    await lock.release(holder).catch(error => console.error('Error releasing the migration lock:', error));
+  }
+};
+
+// Applies every migration newer than the stored schema version. The data is
+// snapshotted first; if any step fails it is restored and a MigrationError
+// thrown, so a half-migrated dataset is never left behind. Shared storage is
+// handled by runSharedMigrations instead.
+export const runMigrations = async (migrations: Migration[]): Promise<void> => {
+  const pending = pendingMigrations(migrations);
+  if (pending.length === 0) return;
+
+  const { migrationLock } = await getStorage();
+  if (migrationLock) return runSharedMigrations(migrations, migrationLock);
+
+  let backup: DataSnapshot;
+  try {
+    backup = await takeSnapshot([BACKUP_KEY]);
+  } catch (error) {
+    throw new MigrationError(pending[0], `could not back up your data first (${reasonFor(error)})`, null, true);
+  }
+  keepBackup(backup);
+
+  for (const migration of pending) {
+    try {
+      await migration.up();
+      await setSchemaVersion(migration.version);
+    } catch (error) {
+      let rolledBack = true;
+      try {
+        await restoreSnapshot(backup, [BACKUP_KEY]);
+      } catch (restoreError) {
+        console.error('Error restoring pre-migration backup:', restoreError);
+        rolledBack = false;
+      }
+      throw new MigrationError(migration, reasonFor(error), backup, rolledBack);
+    }
+  }
+};
@@ -0,0 +1,58 @@
+// src/lib/password.ts
+
+// Passwords are stored as "pbkdf2-sha512$<iterations>$<salt>$<hash>" with the
+// salt and hash base64-encoded, so the parameters can be raised later without
+// invalidating existing hashes.
+const ALGORITHM = 'pbkdf2-sha512';
+const ITERATIONS = 210000;
+const SALT_BYTES = 16;
+const HASH_BITS = 512;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+const derive = async (password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-512', salt, iterations },
+    key,
+    HASH_BITS
+  );
+  return new Uint8Array(bits);
+};
+
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const hash = await derive(password, salt, ITERATIONS);
+  return [ALGORITHM, ITERATIONS, toBase64(salt), toBase64(hash)].join('$');
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [algorithm, iterations, salt, hash] = stored.split('$');
+  if (algorithm !== ALGORITHM || !iterations || !salt || !hash) return false;
+
+  const expected = fromBase64(hash);
+  const actual = await derive(password, fromBase64(salt), Number(iterations));
+  if (actual.length !== expected.length) return false;
+
+  // Compare every byte so the time taken doesn't reveal where they differ
+  let diff = 0;
+  for (let i = 0; i < actual.length; i++) {
+    diff |= actual[i] ^ expected[i];
+  }
+  return diff === 0;
+};
+
+export const validatePassword = (password: string): string | null =>
+  password.length < MIN_PASSWORD_LENGTH
+    ? `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+    : null;
@@ -0,0 +1,92 @@
+// src/lib/permissions.ts
+import { Role } from '../App';
+
+export type Permission =
+  | 'product.create'
+  | 'product.edit'
+  | 'product.delete'
+  | 'product.import'
+  | 'stock.receive'
+  | 'stock.adjust'
+  | 'stock.transfer'
+  | 'adjustment.approve'
+  | 'sales.record'
+  | 'count.perform'
+  | 'count.approve'
+  | 'reorder.configure'
+  | 'po.create'
+  | 'po.approve'
+  | 'po.receive'
+  | 'supplier.manage'
+  | 'reports.view'
+  | 'users.manage'
+  | 'audit.view'
+  | 'data.backup';
+
+export const PERMISSIONS: { permission: Permission; label: string; description: string }[] = [
+  { permission: 'product.create', label: 'Create products', description: 'Add new products to the catalog' },
+  { permission: 'product.edit', label: 'Edit products', description: 'Change product details, bins and bin minimums' },
+  { permission: 'product.delete', label: 'Delete products', description: 'Remove products from the catalog' },
+  { permission: 'product.import', label: 'Import products', description: 'Bulk-load products from CSV' },
+  { permission: 'stock.receive', label: 'Receive stock', description: 'Book stock in outside of a purchase order' },
+  { permission: 'stock.adjust', label: 'Adjust stock', description: 'Record adjustments and count corrections' },
+  { permission: 'adjustment.approve', label: 'Approve stock adjustments', description: 'Approve adjustments over the approval limit and set the reason codes' },
+  { permission: 'stock.transfer', label: 'Transfer stock', description: 'Move stock between locations' },
+  { permission: 'sales.record', label: 'Record sales', description: 'Ring up sales, which takes the items out of stock' },
+  { permission: 'count.perform', label: 'Count stock', description: 'Start stock counts and enter counted quantities' },
+  { permission: 'count.approve', label: 'Approve stock counts', description: 'See count variances and correct stock from approved counts' },
+  { permission: 'reorder.configure', label: 'Set reorder parameters', description: 'Override the service level, lead time and order costs behind restock suggestions' },
+  { permission: 'po.create', label: 'Create purchase orders', description: 'Create and edit draft purchase orders' },
+  { permission: 'po.approve', label: 'Approve purchase orders', description: 'Send draft orders to suppliers or cancel them' },
+  { permission: 'po.receive', label: 'Receive purchase orders', description: 'Book deliveries against sent orders' },
+  { permission: 'supplier.manage', label: 'Manage suppliers', description: 'Add, edit and delete suppliers' },
+  { permission: 'reports.view', label: 'View reports', description: 'See inventory reports and exports' },
+  { permission: 'users.manage', label: 'Manage users', description: 'Manage accounts, roles, permissions and session timeouts' },
+  { permission: 'audit.view', label: 'View the audit log', description: 'See who changed what, with before and after values' },
+  { permission: 'data.backup', label: 'Back up and restore data', description: 'Download a full backup or overwrite data from one' },
+];
+
+export const ROLES: { role: Role; label: string }[] = [
+  { role: 'admin', label: 'Admin' },
+  { role: 'manager', label: 'Manager' },
+  { role: 'receiver', label: 'Receiver' },
+  { role: 'associate', label: 'Associate' },
+];
+
+export const getRoleLabel = (role: Role) => ROLES.find(r => r.role === role)?.label || role;
+
+export type RolePermissions = Record<Role, Permission[]>;
+
+const ALL_PERMISSIONS = PERMISSIONS.map(p => p.permission);
+
+// Kept from managers by default: the first three expose or replace every
+// account, the approvals are the sign-off on stock corrections staff make,
+// and reorder parameters drive every restock suggestion
+const ADMIN_ONLY_PERMISSIONS: Permission[] = [
+  'users.manage',
+  'audit.view',
+  'data.backup',
+  'count.approve',
+  'adjustment.approve',
+  'reorder.configure',
+];
+
+// Admins always hold every permission so the matrix can't lock everyone out;
+// the other roles can be edited on the Users screen.
+export const DEFAULT_ROLE_PERMISSIONS: RolePermissions = {
+  admin: ALL_PERMISSIONS,
+  manager: ALL_PERMISSIONS.filter(p => !ADMIN_ONLY_PERMISSIONS.includes(p)),
+  receiver: ['stock.receive', 'stock.transfer', 'count.perform', 'po.receive'],
+  associate: ['sales.record', 'count.perform', 'reports.view'],
+};
+
+export class PermissionError extends Error {
+  permission: Permission;
+
+  constructor(permission: Permission) {
+    const label = PERMISSIONS.find(p => p.permission === permission)?.label.toLowerCase() || permission;
+    super(`You don't have permission to ${label}`);
+    this.name = 'PermissionError';
+    this.permission = permission;
+  }
+}
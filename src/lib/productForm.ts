@@ -0,0 +1,54 @@
+// src/lib/productForm.ts
+import { Product } from '../App';
+
+export const PRODUCT_CATEGORIES = [
+  'Hardware', 'Tools', 'Electrical', 'Plumbing', 'Paint & Supplies',
+  'Fasteners', 'Building Materials', 'Safety Equipment', 'Garden & Outdoor', 'Other'
+];
+
+export const NUMERIC_PRODUCT_FIELDS = [
+  'current_stock', 'min_stock_level', 'max_stock_level', 'cost_price', 'selling_price'
+];
+
+export type ProductFormData = Omit<Product, 'id' | 'barcode' | 'stock_locations' | 'version' | 'created_at' | 'updated_at'> & {
+  barcode: string;
+};
+
+export const emptyProductForm = (): ProductFormData => ({
+  name: '',
+  description: '',
+  category: '',
+  brand: '',
+  sku: '',
+  barcode: '',
+  current_stock: 0,
+  min_stock_level: 0,
+  max_stock_level: 0,
+  cost_price: 0,
+  selling_price: 0,
+  supplier_id: '',
+  location: ''
+});
+
+// Pre-fill the form from an existing product
+export const toProductFormData = (product: Product): ProductFormData => ({
+  name: product.name,
+  description: product.description,
+  category: product.category,
+  brand: product.brand,
+  sku: product.sku,
+  barcode: product.barcode || '',
+  current_stock: product.current_stock,
+  min_stock_level: product.min_stock_level,
+  max_stock_level: product.max_stock_level,
+  cost_price: product.cost_price,
+  selling_price: product.selling_price,
+  supplier_id: product.supplier_id,
+  location: product.location
+});
+
+export const generateSKU = (category: string) => {
+  const prefix = category ? category.substring(0, 3).toUpperCase() : 'PRD';
+  const timestamp = Date.now().toString().slice(-6);
+  return `${prefix}-${timestamp}`;
+};
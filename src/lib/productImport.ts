@@ -0,0 +1,246 @@
+// src/lib/productImport.ts
+import { Product, Supplier, User } from '../App';
+import { PRODUCT_CATEGORIES, emptyProductForm } from './productForm';
+import { validateProduct } from './validation';
+import { unguardFormula } from './csv';
+import { productService, stockMovementService, permissionService, normalizeSupplierName } from './localStorage';
+
+export type ImportField =
+  | 'name'
+  | 'description'
+  | 'category'
+  | 'brand'
+  | 'sku'
+  | 'barcode'
+  | 'current_stock'
+  | 'min_stock_level'
+  | 'max_stock_level'
+  | 'cost_price'
+  | 'selling_price'
+  | 'supplier'
+  | 'location';
+
+// The supplier column holds a supplier name, resolved to supplier_id on import
+export const IMPORT_FIELDS: { field: ImportField; label: string; aliases: string[] }[] = [
+  { field: 'sku', label: 'SKU', aliases: ['sku', 'item number', 'item no', 'part number', 'product code'] },
+  { field: 'name', label: 'Product Name', aliases: ['name', 'product name', 'product', 'title', 'item'] },
+  { field: 'description', label: 'Description', aliases: ['description', 'desc', 'details'] },
+  { field: 'category', label: 'Category', aliases: ['category', 'department', 'type'] },
+  { field: 'brand', label: 'Brand', aliases: ['brand', 'manufacturer', 'make'] },
+  { field: 'barcode', label: 'Barcode', aliases: ['barcode', 'upc', 'ean', 'gtin'] },
+  { field: 'current_stock', label: 'Current Stock', aliases: ['current stock', 'stock', 'quantity', 'qty', 'on hand'] },
+  { field: 'min_stock_level', label: 'Min Stock Level', aliases: ['min stock level', 'min stock', 'minimum', 'min', 'reorder level'] },
+  { field: 'max_stock_level', label: 'Max Stock Level', aliases: ['max stock level', 'max stock', 'maximum', 'max'] },
+  { field: 'cost_price', label: 'Cost Price', aliases: ['cost price', 'cost', 'unit cost', 'wholesale price'] },
+  { field: 'selling_price', label: 'Selling Price', aliases: ['selling price', 'price', 'retail price', 'msrp'] },
+  { field: 'supplier', label: 'Supplier', aliases: ['supplier', 'vendor', 'supplier name'] },
+  { field: 'location', label: 'Location', aliases: ['location', 'bin', 'shelf', 'aisle'] },
+];
+
+const INTEGER_FIELDS: ImportField[] = ['current_stock', 'min_stock_level', 'max_stock_level'];
+const PRICE_FIELDS: ImportField[] = ['cost_price', 'selling_price'];
+
+// One entry per CSV column; '' leaves the column unmapped
+export type ColumnMapping = (ImportField | '')[];
+
+export type ImportedProduct = Omit<Product, 'id' | 'stock_locations' | 'version' | 'created_at' | 'updated_at'>;
+
+export type ImportRowAction = 'create' | 'update' | 'reject';
+
+export interface ImportRow {
+  rowNumber: number;
+  action: ImportRowAction;
+  sku: string;
+  name: string;
+  errors: string[];
+  // Shown with the row but don't stop it being imported
+  warnings: string[];
+  fields: Partial<ImportedProduct>;
+  existing?: Product;
+}
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  failed: { rowNumber: number; error: string }[];
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_\-.]/g, ' ').replace(/\s+/g, ' ').trim();
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const used = new Set<ImportField>();
+
+  return headers.map(header => {
+    const normalized = normalizeHeader(header);
+    const match = IMPORT_FIELDS.find(f =>
+      !used.has(f.field) && (f.field === normalized.replace(/ /g, '_') || f.aliases.includes(normalized))
+    );
+    if (!match) return '';
+    used.add(match.field);
+    return match.field;
+  });
+};
+
+const parseNumber = (raw: string, field: ImportField): number | string => {
+  const cleaned = PRICE_FIELDS.includes(field) ? raw.replace(/[$,\s]/g, '') : raw.replace(/[,\s]/g, '');
+  const value = Number(cleaned);
+  const label = IMPORT_FIELDS.find(f => f.field === field)!.label;
+
+  if (cleaned === '' || Number.isNaN(value)) return `${label} "${raw}" is not a number`;
+  if (value < 0) return `${label} cannot be negative`;
+  if (INTEGER_FIELDS.includes(field) && !Number.isInteger(value)) return `${label} must be a whole number`;
+  return value;
+};
+
+// Validates every data row (header excluded) against the catalog without
+// writing anything. Rows whose SKU already exists become updates of that product.
+export const buildImportPreview = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  products: Product[],
+  suppliers: Supplier[],
+  defaultSupplierId = ''
+): ImportRow[] => {
+  const productsBySku = new Map(products.map(p => [p.sku.toLowerCase(), p]));
+  const seenSkus = new Map<string, number>();
+  const seenBarcodes = new Map<string, number>();
+
+  return rows.map((cells, index) => {
+    const rowNumber = index + 2; // 1-based, after the header row
+    const errors: string[] = [];
+    const fields: Partial<ImportedProduct> = {};
+    // Fields whose cell couldn't be read; they already have an error of their own
+    const unreadable = new Set<string>();
+
+    mapping.forEach((field, column) => {
+      const raw = unguardFormula((cells[column] || '').trim());
+      if (!field || raw === '') return;
+
+      if (INTEGER_FIELDS.includes(field) || PRICE_FIELDS.includes(field)) {
+        const value = parseNumber(raw, field);
+        if (typeof value === 'string') {
+          errors.push(value);
+          unreadable.add(field);
+        } else {
+          (fields as Record<string, number>)[field] = value;
+        }
+      } else if (field === 'category') {
+        const category = PRODUCT_CATEGORIES.find(c => c.toLowerCase() === raw.toLowerCase());
+        if (category) {
+          fields.category = category;
+        } else {
+          errors.push(`Unknown category "${raw}"`);
+          unreadable.add(field);
+        }
+      } else if (field === 'supplier') {
+        const supplier = suppliers.find(s => normalizeSupplierName(s.name) === normalizeSupplierName(raw));
+        if (supplier) {
+          fields.supplier_id = supplier.id;
+        } else {
+          errors.push(`Unknown supplier "${raw}"`);
+        }
+      } else {
+        (fields as Record<string, string>)[field] = raw;
+      }
+    });
+
+    const sku = fields.sku || '';
+    const existing = productsBySku.get(sku.toLowerCase());
+
+    // Clashes with the catalog are caught by validateProduct below; these
+    // catch clashes between rows of the file
+    if (sku && seenSkus.has(sku.toLowerCase())) {
+      errors.push(`Duplicate SKU, already used on row ${seenSkus.get(sku.toLowerCase())}`);
+    } else if (sku) {
+      seenSkus.set(sku.toLowerCase(), rowNumber);
+    }
+
+    if (fields.barcode && seenBarcodes.has(fields.barcode)) {
+      errors.push(`Duplicate barcode, already used on row ${seenBarcodes.get(fields.barcode)}`);
+    } else if (fields.barcode) {
+      seenBarcodes.set(fields.barcode, rowNumber);
+    }
+
+    if (!existing && fields.supplier_id === undefined) fields.supplier_id = defaultSupplierId;
+
+    // The product as it would be after the import, checked like any other edit
+    const validation = validateProduct(
+      { ...(existing || emptyProductForm()), ...fields },
+      products.filter(p => p.id !== existing?.id)
+    );
+    Object.entries(validation.errors)
+      .filter(([field]) => !unreadable.has(field))
+      .forEach(([, error]) => errors.push(error));
+
+    return {
+      rowNumber,
+      action: errors.length > 0 ? 'reject' : existing ? 'update' : 'create',
+      sku,
+      name: fields.name || existing?.name || '',
+      errors,
+      warnings: Object.values(validation.warnings),
+      fields,
+      existing,
+    };
+  });
+};
+
+// Applies the accepted rows. Stock on updated products is corrected through
+// the movement ledger so the import shows up in each product's history.
+export const commitImport = async (preview: ImportRow[], user: User): Promise<ImportResult> => {
+  permissionService.assert(user, 'product.import');
+  const result: ImportResult = { created: 0, updated: 0, failed: [] };
+
+  for (const row of preview) {
+    if (row.action === 'reject') continue;
+
+    try {
+      if (row.action === 'create') {
+        await productService.create({
+          name: '',
+          description: '',
+          category: '',
+          brand: '',
+          sku: row.sku,
+          current_stock: 0,
+          min_stock_level: 0,
+          max_stock_level: 0,
+          cost_price: 0,
+          selling_price: 0,
+          supplier_id: '',
+          location: '',
+          ...row.fields,
+        }, user);
+        result.created++;
+      } else if (row.existing) {
+        // Rows are checked against the products as they were at preview time;
+        // if one has been edited since, the row fails rather than overwriting it
+        const { current_stock, ...fields } = row.fields;
+        // Checked before anything is written, so a row whose stock this user
+        // can't correct fails whole instead of half applied
+        if (current_stock !== undefined && current_stock !== row.existing.current_stock) {
+          permissionService.assert(user, 'stock.adjust');
+        }
+        await productService.update(row.existing.id, fields, row.existing.version, user);
+
+        const current = await productService.getById(row.existing.id);
+        if (current && current_stock !== undefined && current_stock !== current.current_stock) {
+          await stockMovementService.record({
+            product_id: current.id,
+            type: 'count_correction',
+            quantity: current_stock - current.current_stock,
+            reason: 'CSV import',
+          }, user);
+        }
+        result.updated++;
+      }
+    } catch (error: unknown) {
+      result.failed.push({
+        rowNumber: row.rowNumber,
+        error: error instanceof Error ? error.message : 'Failed to import row',
+      });
+    }
+  }
+
+  return result;
+};
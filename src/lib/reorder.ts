@@ -0,0 +1,242 @@
+// src/lib/reorder.ts
+import { Product, StockMovement, Supplier } from '../App';
+import { roundCents } from './sales';
+
+export interface ReorderParameters {
+  // Chance of not running out while waiting for a delivery, e.g. 0.95
+  service_level: number;
+  // Days of sales history the demand is measured over
+  history_days: number;
+  // Replaces the supplier's lead time when set
+  lead_time_days?: number;
+  // Cost of placing and receiving one order
+  order_cost: number;
+  // Yearly cost of holding one unit, as a share of its cost price
+  holding_rate: number;
+}
+
+export interface ReorderSettings {
+  // Per product, only the parameters that differ from the defaults
+  overrides: Record<string, Partial<ReorderParameters>>;
+}
+
+export const DEFAULT_REORDER_PARAMETERS: ReorderParameters = {
+  service_level: 0.95,
+  history_days: 90,
+  order_cost: 25,
+  holding_rate: 0.25,
+};
+
+export const DEFAULT_REORDER_SETTINGS: ReorderSettings = { overrides: {} };
+
+// Used when neither the product nor its supplier has a lead time
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+
+export const reorderParametersFor = (settings: ReorderSettings, productId: string): ReorderParameters => ({
+  ...DEFAULT_REORDER_PARAMETERS,
+  ...settings.overrides[productId],
+});
+
+// Null when the overrides can be saved
+export const validateReorderOverrides = (overrides: Partial<ReorderParameters>): string | null => {
+  const { service_level, history_days, lead_time_days, order_cost, holding_rate } = overrides;
+  if (service_level !== undefined && !(service_level >= 0.5 && service_level < 1)) {
+    return 'Service level must be at least 50% and below 100%';
+  }
+  if (history_days !== undefined && !(Number.isInteger(history_days) && history_days >= 7)) {
+    return 'Sales history must be a whole number of days, at least 7';
+  }
+  if (lead_time_days !== undefined && !(lead_time_days >= 0)) return 'Lead time must be 0 days or more';
+  if (order_cost !== undefined && !(order_cost >= 0)) return 'Order cost must be $0 or more';
+  if (holding_rate !== undefined && !(holding_rate > 0)) return 'Holding cost must be more than 0%';
+  return null;
+};
+
+// The z-score below which a share `p` of a standard normal distribution falls
+// (Acklam's rational approximation, accurate to about 1e-9)
+export const normalQuantile = (p: number): number => {
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  if (p < low || p > 1 - low) {
+    const q = Math.sqrt(-2 * Math.log(p < low ? p : 1 - p));
+    const z = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    return p < low ? z : -z;
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+export interface DemandHistory {
+  // Units sold over the window, net of any returned sales
+  units: number;
+  // Days measured: the history window, or less for products added since it started
+  days: number;
+  averageDaily: number;
+  // Standard deviation of the units sold per day
+  stdDevDaily: number;
+}
+
+// Daily units sold over the last `historyDays` days, from the sale movements
+export const measureDemand = (
+  product: Pick<Product, 'id' | 'created_at'>,
+  movements: StockMovement[],
+  historyDays: number,
+  now = new Date()
+): DemandHistory => {
+  const windowStart = now.getTime() - historyDays * DAY_MS;
+  const start = Math.max(windowStart, new Date(product.created_at).getTime() || windowStart);
+  const days = Math.max(1, Math.ceil((now.getTime() - start) / DAY_MS));
+  const daily = new Array<number>(days).fill(0);
+
+  movements
+    .filter(m => m.product_id === product.id && m.type === 'sale')
+    .forEach(movement => {
+      const age = Math.floor((now.getTime() - new Date(movement.created_at).getTime()) / DAY_MS);
+      if (age >= 0 && age < days) daily[age] -= movement.quantity;
+    });
+
+  const units = daily.reduce((sum, q) => sum + q, 0);
+  const averageDaily = units / days;
+  const variance = daily.reduce((sum, q) => sum + (q - averageDaily) ** 2, 0) / days;
+  return { units, days, averageDaily, stdDevDaily: Math.sqrt(variance) };
+};
+
+export type LeadTimeSource = 'product' | 'supplier' | 'default';
+
+export interface ReorderSuggestion {
+  product_id: string;
+  parameters: ReorderParameters;
+  demand: DemandHistory;
+  leadTimeDays: number;
+  leadTimeSource: LeadTimeSource;
+  serviceZ: number;
+  safetyStock: number;
+  reorderPoint: number;
+  // Economic order quantity; 0 without demand, an order cost or a holding cost
+  economicOrderQuantity: number;
+  // Stock on hand plus stock already on order
+  stockPosition: number;
+  // 'stock_levels' when there are no sales to go on and the min/max levels are used instead
+  basis: 'demand' | 'stock_levels';
+  needsReorder: boolean;
+  suggestedQuantity: number;
+  // One sentence per step, in the order the suggestion was worked out
+  explanation: string[];
+}
+
+const formatUnits = (units: number) => (Number.isInteger(units) ? `${units}` : units.toFixed(2));
+
+// Safety stock = z × σ × √L, reorder point = d × L + safety stock, and the
+// order quantity is the EOQ, √(2DS / H), or enough to get back above the
+// reorder point if that is more.
+export const suggestReorder = (
+  product: Product,
+  supplier: Supplier | undefined,
+  movements: StockMovement[],
+  onOrder: number,
+  settings: ReorderSettings,
+  now = new Date()
+): ReorderSuggestion => {
+  const parameters = reorderParametersFor(settings, product.id);
+  const demand = measureDemand(product, movements, parameters.history_days, now);
+  const leadTimeSource: LeadTimeSource = parameters.lead_time_days !== undefined
+    ? 'product'
+    : supplier ? 'supplier' : 'default';
+  const leadTimeDays = parameters.lead_time_days ?? supplier?.lead_time_days ?? DEFAULT_LEAD_TIME_DAYS;
+  const serviceZ = normalQuantile(parameters.service_level);
+
+  const safetyStock = Math.ceil(serviceZ * demand.stdDevDaily * Math.sqrt(leadTimeDays));
+  const leadTimeDemand = demand.averageDaily * leadTimeDays;
+  const reorderPoint = Math.ceil(leadTimeDemand + safetyStock);
+  const annualDemand = demand.averageDaily * DAYS_PER_YEAR;
+  const holdingCost = product.cost_price * parameters.holding_rate;
+  const economicOrderQuantity = annualDemand > 0 && holdingCost > 0
+    ? Math.ceil(Math.sqrt((2 * annualDemand * parameters.order_cost) / holdingCost))
+    : 0;
+  const stockPosition = product.current_stock + onOrder;
+
+  const percent = `${Math.round(parameters.service_level * 1000) / 10}%`;
+  const leadTimeText = {
+    product: 'set for this product',
+    supplier: `from ${supplier?.name}`,
+    default: 'default, as there is no supplier',
+  }[leadTimeSource];
+  const explanation = [
+    `Sold ${formatUnits(demand.units)} units over ${demand.days} day(s): ${demand.averageDaily.toFixed(2)} a day on average, ` +
+      `varying by ${demand.stdDevDaily.toFixed(2)} a day.`,
+    `Lead time ${leadTimeDays} day(s) (${leadTimeText}).`,
+  ];
+
+  if (demand.units <= 0) {
+    // Nothing sold, so fall back to topping up to the max level once at or below the min
+    const suggestedQuantity = Math.max(product.max_stock_level - stockPosition, 0);
+    const needsReorder = stockPosition <= product.min_stock_level || product.current_stock === 0;
+    explanation.push(
+      `No sales to base a reorder point on, so the min level (${product.min_stock_level}) and max level (${product.max_stock_level}) are used.`,
+      needsReorder
+        ? `Ordering ${suggestedQuantity} brings the ${stockPosition} units on hand and on order up to the max level.`
+        : `The ${stockPosition} units on hand and on order are above the min level.`
+    );
+    return {
+      product_id: product.id,
+      parameters,
+      demand,
+      leadTimeDays,
+      leadTimeSource,
+      serviceZ,
+      safetyStock: 0,
+      reorderPoint: product.min_stock_level,
+      economicOrderQuantity: 0,
+      stockPosition,
+      basis: 'stock_levels',
+      needsReorder,
+      suggestedQuantity,
+      explanation,
+    };
+  }
+
+  const needsReorder = stockPosition <= reorderPoint;
+  const shortfall = reorderPoint - stockPosition + 1;
+  const suggestedQuantity = needsReorder ? Math.max(economicOrderQuantity, shortfall) : 0;
+
+  explanation.push(
+    `Safety stock ${safetyStock} = ${serviceZ.toFixed(2)} (for a ${percent} service level) × ${demand.stdDevDaily.toFixed(2)} × √${leadTimeDays}.`,
+    `Reorder point ${reorderPoint} = ${demand.averageDaily.toFixed(2)} a day × ${leadTimeDays} day(s) + ${safetyStock} safety stock.`,
+    economicOrderQuantity > 0
+      ? `Economic order quantity ${economicOrderQuantity} = √(2 × ${Math.round(annualDemand)} a year × $${parameters.order_cost.toFixed(2)} per order ` +
+        `÷ $${roundCents(holdingCost).toFixed(2)} a year to hold one unit).`
+      : 'No economic order quantity, as there is no order cost or cost price to weigh up.',
+    needsReorder
+      ? `The ${stockPosition} units on hand and on order are at or below the reorder point, so order ${suggestedQuantity}` +
+        (suggestedQuantity > economicOrderQuantity ? ', enough to get back above it.' : '.')
+      : `The ${stockPosition} units on hand and on order are above the reorder point.`
+  );
+
+  return {
+    product_id: product.id,
+    parameters,
+    demand,
+    leadTimeDays,
+    leadTimeSource,
+    serviceZ,
+    safetyStock,
+    reorderPoint,
+    economicOrderQuantity,
+    stockPosition,
+    basis: 'demand',
+    needsReorder,
+    suggestedQuantity,
+    explanation,
+  };
+};
@@ -0,0 +1,83 @@
+// src/lib/sales.ts
+import { Sale, SaleLine } from '../App';
+
+// An item in the point-of-sale cart before the sale is completed
+export interface CartItem {
+  product_id: string;
+  quantity: number;
+}
+
+// Money is kept to the cent so totals add up the same on screen, on the
+// receipt and in reports
+export const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export const lineTotal = (line: Pick<SaleLine, 'quantity' | 'unit_price'>) => roundCents(line.quantity * line.unit_price);
+
+export const saleTotals = (lines: Pick<SaleLine, 'quantity' | 'unit_price' | 'unit_cost'>[]) => ({
+  units: lines.reduce((sum, l) => sum + l.quantity, 0),
+  revenue: roundCents(lines.reduce((sum, l) => sum + lineTotal(l), 0)),
+  cost_of_goods: roundCents(lines.reduce((sum, l) => sum + l.quantity * l.unit_cost, 0)),
+});
+
+// Adds to the quantity of an item already in the cart rather than listing it twice
+export const addToCart = (cart: CartItem[], productId: string, quantity = 1): CartItem[] =>
+  cart.some(item => item.product_id === productId)
+    ? cart.map(item => (item.product_id === productId ? { ...item, quantity: item.quantity + quantity } : item))
+    : [...cart, { product_id: productId, quantity }];
+
+export interface ProductSales {
+  product_id: string;
+  name: string;
+  sku: string;
+  units: number;
+  revenue: number;
+  cost_of_goods: number;
+}
+
+export interface SalesSummary {
+  saleCount: number;
+  units: number;
+  revenue: number;
+  cost_of_goods: number;
+  grossProfit: number;
+  // Gross profit as a percentage of revenue; null when nothing was sold
+  grossMargin: number | null;
+  // Best sellers by revenue first
+  products: ProductSales[];
+}
+
+// Totals for the sales made at or after `since` (an ISO timestamp)
+export const summarizeSales = (sales: Sale[], since = ''): SalesSummary => {
+  const included = sales.filter(s => s.created_at >= since);
+  const byProduct = new Map<string, ProductSales>();
+
+  included.forEach(sale => {
+    sale.lines.forEach(line => {
+      const entry = byProduct.get(line.product_id) || {
+        product_id: line.product_id,
+        name: line.name,
+        sku: line.sku,
+        units: 0,
+        revenue: 0,
+        cost_of_goods: 0,
+      };
+      entry.units += line.quantity;
+      entry.revenue = roundCents(entry.revenue + lineTotal(line));
+      entry.cost_of_goods = roundCents(entry.cost_of_goods + line.quantity * line.unit_cost);
+      byProduct.set(line.product_id, entry);
+    });
+  });
+
+  const revenue = roundCents(included.reduce((sum, s) => sum + s.revenue, 0));
+  const costOfGoods = roundCents(included.reduce((sum, s) => sum + s.cost_of_goods, 0));
+
+  return {
+    saleCount: included.length,
+    units: included.reduce((sum, s) => sum + s.lines.reduce((units, l) => units + l.quantity, 0), 0),
+    revenue,
+    cost_of_goods: costOfGoods,
+    grossProfit: roundCents(revenue - costOfGoods),
+    grossMargin: revenue > 0 ? ((revenue - costOfGoods) / revenue) * 100 : null,
+    products: Array.from(byProduct.values()).sort((a, b) => b.revenue - a.revenue),
+  };
+};
@@ -0,0 +1,54 @@
+// src/lib/scanner.ts
+
+// Keyboard-wedge scanners "type" the code far faster than a person can and
+// finish with Enter. Keys closer together than this are treated as one scan.
+const MAX_KEY_INTERVAL_MS = 50;
+// Shorter bursts are more likely fast typing than a barcode
+const MIN_CODE_LENGTH = 4;
+
+type ScanHandler = (code: string) => void;
+
+// Only the most recently added handler receives scans, so a screen can take
+// them over from the app-wide product lookup while it is open
+const handlers: ScanHandler[] = [];
+
+let buffer = '';
+let lastKeyAt = 0;
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const handleKeyDown = (event: KeyboardEvent) => {
+  // A scan into a focused field is left to the field, e.g. the barcode input
+  // on the product form
+  if (isEditable(event.target) || event.ctrlKey || event.altKey || event.metaKey) {
+    buffer = '';
+    return;
+  }
+
+  if (event.timeStamp - lastKeyAt > MAX_KEY_INTERVAL_MS) buffer = '';
+  lastKeyAt = event.timeStamp;
+
+  if (event.key === 'Enter') {
+    if (buffer.length >= MIN_CODE_LENGTH) {
+      event.preventDefault();
+      handlers[handlers.length - 1]?.(buffer);
+    }
+    buffer = '';
+  } else if (event.key.length === 1) {
+    buffer += event.key;
+  }
+};
+
+// Returns the unsubscribe function
+export const subscribeScans = (handler: ScanHandler) => {
+  if (handlers.length === 0) window.addEventListener('keydown', handleKeyDown);
+  handlers.push(handler);
+
+  return () => {
+    const index = handlers.lastIndexOf(handler);
+    if (index !== -1) handlers.splice(index, 1);
+    if (handlers.length === 0) window.removeEventListener('keydown', handleKeyDown);
+  };
+};
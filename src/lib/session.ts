@@ -0,0 +1,69 @@
+// src/lib/session.ts
+import { Role, User } from '../App';
+
+export interface Session {
+  user: User;
+  issued_at: string;
+  last_active_at: string;
+  // Issued by shared storage at sign-in, for its account functions
+  token?: string;
+}
+
+// Per-role limits. Either timeout ends the session, whichever comes first.
+export interface SessionPolicy {
+  idle_timeout_minutes: number;
+  max_session_hours: number;
+}
+
+export type SessionPolicies = Record<Role, SessionPolicy>;
+
+export const DEFAULT_SESSION_POLICIES: SessionPolicies = {
+  admin: { idle_timeout_minutes: 15, max_session_hours: 8 },
+  manager: { idle_timeout_minutes: 15, max_session_hours: 10 },
+  receiver: { idle_timeout_minutes: 30, max_session_hours: 12 },
+  associate: { idle_timeout_minutes: 30, max_session_hours: 12 },
+};
+
+// Shared storage's session tokens expire after this long (see
+// supabase/migrations/20261019000003_lock_down_users.sql), so no policy may
+// keep a session open longer
+export const MAX_SESSION_HOURS = 12;
+
+// How long before logout the warning modal appears
+export const SESSION_WARNING_SECONDS = 60;
+
+export interface SessionDeadline {
+  expiresAt: number;
+  // 'absolute' sessions can't be extended by activity, only by signing in again
+  reason: 'idle' | 'absolute';
+}
+
+export const getSessionDeadline = (session: Session, policy: SessionPolicy): SessionDeadline => {
+  // Policies saved before the limit existed may allow longer
+  const maxHours = Math.min(policy.max_session_hours, MAX_SESSION_HOURS);
+  const absolute = new Date(session.issued_at).getTime() + maxHours * 60 * 60 * 1000;
+  const idle = new Date(session.last_active_at).getTime() + policy.idle_timeout_minutes * 60 * 1000;
+
+  return idle < absolute
+    ? { expiresAt: idle, reason: 'idle' }
+    : { expiresAt: absolute, reason: 'absolute' };
+};
+
+export const isSessionExpired = (session: Session, policy: SessionPolicy, now = Date.now()) =>
+  getSessionDeadline(session, policy).expiresAt <= now;
+
+export const validateSessionPolicy = (policy: SessionPolicy): string | null => {
+  if (!Number.isInteger(policy.idle_timeout_minutes) || policy.idle_timeout_minutes < 2) {
+    return 'Idle timeout must be a whole number of at least 2 minutes';
+  }
+  if (!(policy.max_session_hours > 0)) {
+    return 'Maximum session length must be greater than 0 hours';
+  }
+  if (policy.max_session_hours > MAX_SESSION_HOURS) {
+    return `Maximum session length cannot be more than ${MAX_SESSION_HOURS} hours`;
+  }
+  if (policy.idle_timeout_minutes > policy.max_session_hours * 60) {
+    return 'Idle timeout cannot be longer than the maximum session length';
+  }
+  return null;
+};
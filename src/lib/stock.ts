@@ -0,0 +1,40 @@
+// src/lib/stock.ts
+import { Product, StockLocation } from '../App';
+
+// 'total' compares current_stock with the product minimum; 'location' flags a
+// product when any single bin has dropped to or below its own minimum, e.g. an
+// empty shelf while overflow sits in the back room
+export type LowStockMode = 'total' | 'location';
+
+export const sumLocationQuantities = (locations: StockLocation[]) =>
+  locations.reduce((sum, l) => sum + l.quantity, 0);
+
+export const getLocationQuantity = (product: Product, location: string) =>
+  product.stock_locations.find(l => l.location === location)?.quantity || 0;
+
+// A bin's own minimum; the primary location falls back to the product minimum
+// and other bins without one are never considered low
+export const getLocationMinimum = (product: Product, location: StockLocation): number | undefined =>
+  location.min_stock_level ?? (location.location === product.location ? product.min_stock_level : undefined);
+
+export const getLowStockLocations = (product: Product): StockLocation[] =>
+  product.stock_locations.filter(l => {
+    const minimum = getLocationMinimum(product, l);
+    return minimum !== undefined && l.quantity <= minimum;
+  });
+
+export const isLowStock = (product: Product, mode: LowStockMode = 'total') =>
+  mode === 'total'
+    ? product.current_stock <= product.min_stock_level
+    : getLowStockLocations(product).length > 0;
+
+// Primary location first, then the rest by quantity
+export const sortLocations = (product: Product): StockLocation[] =>
+  [...product.stock_locations].sort((a, b) => {
+    if (a.location === product.location) return -1;
+    if (b.location === product.location) return 1;
+    return b.quantity - a.quantity;
+  });
+
+export const formatLocationBreakdown = (product: Product) =>
+  sortLocations(product).map(l => `${l.location}: ${l.quantity}`).join(' | ');
@@ -0,0 +1,151 @@
+// src/lib/stockCount.ts
+import { AbcClass, Product, Sale, StockCount, StockCountLine, StockCountScope, StockLocation } from '../App';
+import { roundCents } from './sales';
+
+export const ABC_CLASSES: AbcClass[] = ['A', 'B', 'C'];
+
+// Share of the year's cost of goods sold taken up by the A items, then by the A and B items together
+const ABC_THRESHOLDS = { A: 0.8, B: 0.95 };
+const ABC_USAGE_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Ranks products by the cost of what they sold over the last year. Products
+// that haven't sold are C items.
+export const classifyAbc = (products: Product[], sales: Sale[], now = new Date()): Map<string, AbcClass> => {
+  const since = new Date(now.getTime() - ABC_USAGE_DAYS * DAY_MS).toISOString();
+  const usage = new Map<string, number>();
+  sales
+    .filter(s => s.created_at >= since)
+    .forEach(sale => sale.lines.forEach(line => {
+      usage.set(line.product_id, (usage.get(line.product_id) || 0) + line.quantity * line.unit_cost);
+    }));
+
+  const total = products.reduce((sum, p) => sum + (usage.get(p.id) || 0), 0);
+  const ranked = [...products].sort((a, b) => (usage.get(b.id) || 0) - (usage.get(a.id) || 0));
+  const classes = new Map<string, AbcClass>();
+  let cumulative = 0;
+
+  // Classed by the running total before the product, so the one that takes
+  // the total past a threshold still falls in the higher class
+  ranked.forEach(product => {
+    const value = usage.get(product.id) || 0;
+    const share = total > 0 ? cumulative / total : 1;
+    classes.set(product.id, value > 0 && share < ABC_THRESHOLDS.A ? 'A' : value > 0 && share < ABC_THRESHOLDS.B ? 'B' : 'C');
+    cumulative += value;
+  });
+
+  return classes;
+};
+
+// A random pick of up to `size` items
+const sample = <T>(items: T[], size: number, random: () => number): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled.slice(0, Math.max(size, 0));
+};
+
+// Every bin the product is held in, plus its primary location even when empty
+const countableBins = (product: Product): StockLocation[] =>
+  product.stock_locations.some(l => l.location === product.location)
+    ? product.stock_locations
+    : [{ location: product.location, quantity: 0 }, ...product.stock_locations];
+
+const toCountLine = (product: Product, bin: StockLocation): StockCountLine => ({
+  product_id: product.id,
+  name: product.name,
+  sku: product.sku,
+  location: bin.location,
+  expected: bin.quantity,
+  counted: null,
+  unit_cost: product.cost_price,
+});
+
+// The count sheet for a scope, in shelf order like the paper sheets.
+// `abcClasses` is only needed for ABC samples (see classifyAbc).
+export const buildCountLines = (
+  products: Product[],
+  scope: StockCountScope,
+  abcClasses: Map<string, AbcClass> = new Map(),
+  random: () => number = Math.random
+): StockCountLine[] => {
+  let lines: StockCountLine[] = [];
+
+  if (scope.type === 'location') {
+    const prefix = scope.prefix.trim().toLowerCase();
+    lines = products.flatMap(product =>
+      countableBins(product)
+        .filter(bin => bin.location.toLowerCase().startsWith(prefix))
+        .map(bin => toCountLine(product, bin))
+    );
+  } else if (scope.type === 'category') {
+    lines = products
+      .filter(product => product.category === scope.category)
+      .flatMap(product => countableBins(product).map(bin => toCountLine(product, bin)));
+  } else {
+    lines = ABC_CLASSES
+      .flatMap(abcClass => sample(products.filter(p => (abcClasses.get(p.id) || 'C') === abcClass), scope.sample[abcClass], random))
+      .flatMap(product => countableBins(product).map(bin => toCountLine(product, bin)));
+  }
+
+  return lines.sort((a, b) => a.location.localeCompare(b.location, undefined, { numeric: true }) || a.name.localeCompare(b.name));
+};
+
+// Identifies a line within its count
+export const countLineKey = (line: Pick<StockCountLine, 'product_id' | 'location'>) => `${line.product_id}|${line.location}`;
+
+export const describeCountScope = (scope: StockCountScope) => {
+  switch (scope.type) {
+    case 'location':
+      return `Locations starting with ${scope.prefix}`;
+    case 'category':
+      return `Category: ${scope.category}`;
+    default:
+      return `ABC sample (${ABC_CLASSES.map(c => `${c} ${scope.sample[c]}`).join(', ')})`;
+  }
+};
+
+export interface CountVariance {
+  line: StockCountLine;
+  // Counted minus expected
+  units: number;
+  cost: number;
+}
+
+export interface CountVarianceReport {
+  // Counted lines only, biggest cost variance first
+  lines: CountVariance[];
+  countedLines: number;
+  uncountedLines: number;
+  linesWithVariance: number;
+  netUnits: number;
+  netCost: number;
+  // Overs and shorts added up without cancelling each other out
+  absoluteCost: number;
+  // Percentage of counted lines that matched the record; null before anything is counted
+  accuracy: number | null;
+}
+
+export const countVarianceReport = (count: Pick<StockCount, 'lines'>): CountVarianceReport => {
+  const lines = count.lines
+    .filter(line => line.counted !== null)
+    .map(line => {
+      const units = (line.counted ?? 0) - line.expected;
+      return { line, units, cost: roundCents(units * line.unit_cost) };
+    })
+    .sort((a, b) => Math.abs(b.cost) - Math.abs(a.cost));
+  const linesWithVariance = lines.filter(v => v.units !== 0).length;
+
+  return {
+    lines,
+    countedLines: lines.length,
+    uncountedLines: count.lines.length - lines.length,
+    linesWithVariance,
+    netUnits: lines.reduce((sum, v) => sum + v.units, 0),
+    netCost: roundCents(lines.reduce((sum, v) => sum + v.cost, 0)),
+    absoluteCost: roundCents(lines.reduce((sum, v) => sum + Math.abs(v.cost), 0)),
+    accuracy: lines.length > 0 ? ((lines.length - linesWithVariance) / lines.length) * 100 : null,
+  };
+};
@@ -0,0 +1,399 @@
+// src/lib/storage.ts
+import {
+  AuditEntry,
+  Product,
+  PurchaseOrder,
+  Sale,
+  StockAdjustment,
+  StockCount,
+  StockMovement,
+  Supplier,
+  UserAccount
+} from '../App';
+import { openIndexedDBAdapter } from './indexedDBStorage';
+import { createSupabaseAdapter } from './supabaseStorage';
+
+// Stored user record. Older data kept a plaintext `password`; it is replaced
+// by `password_hash` when users are initialized and never written again.
+export interface StoredUser extends UserAccount {
+  password_hash: string;
+  password?: string;
+}
+
+export type ProductIndex = 'sku' | 'barcode' | 'category';
+
+export interface StorageCollection<T extends { id: string }> {
+  getAll(): Promise<T[]>;
+  getById(id: string): Promise<T | null>;
+  // Inserts the record, or replaces the one with the same id
+  put(record: T): Promise<void>;
+  putMany(records: T[]): Promise<void>;
+  delete(id: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// For records carrying a version that every write bumps
+export interface VersionedCollection<T extends { id: string; version: number }> extends StorageCollection<T> {
+  // Replaces the stored record only if it is still at expectedVersion, as one
+  // atomic step. Resolves false, writing nothing, if it has moved on or is gone.
+  putIfVersion(record: T, expectedVersion: number): Promise<boolean>;
+}
+
+export interface ProductCollection extends VersionedCollection<Product> {
+  // Exact-match lookup on an indexed field
+  findBy(index: ProductIndex, value: string): Promise<Product[]>;
+}
+
+// Every other kind of record Stockpile keeps
+export interface RecordCollections {
+  suppliers: StorageCollection<Supplier>;
+  stock_movements: StorageCollection<StockMovement>;
+  purchase_orders: VersionedCollection<PurchaseOrder>;
+  sales: StorageCollection<Sale>;
+  stock_counts: VersionedCollection<StockCount>;
+  stock_adjustments: VersionedCollection<StockAdjustment>;
+  audit_log: StorageCollection<AuditEntry>;
+}
+
+export type RecordCollection = keyof RecordCollections;
+
+// The records each collection holds
+export type StoredRecords = {
+  [K in RecordCollection]: RecordCollections[K] extends StorageCollection<infer T> ? T[] : never;
+};
+
+export const RECORD_COLLECTIONS: RecordCollection[] = [
+  'suppliers',
+  'stock_movements',
+  'purchase_orders',
+  'sales',
+  'stock_counts',
+  'stock_adjustments',
+  'audit_log',
+];
+
+// Settings as the JSON strings kept under their localStorage keys
+export interface SettingsStore {
+  getAll(): Promise<Record<string, string>>;
+  // A null value removes the setting
+  put(key: string, value: string | null): Promise<void>;
+}
+
+export interface SignInResult {
+  account: UserAccount;
+  // Identifies the session to the server; missing for disabled accounts
+  token?: string;
+}
+
+// Shared backends check passwords on the server and never hand out hashes.
+// Their users collection lists accounts with an empty password_hash, only to
+// someone signed in, and only admins may change them.
+export interface AccountStore {
+  // Null unless the password is right
+  signIn(email: string, password: string): Promise<SignInResult | null>;
+  signOut(token: string): Promise<void>;
+  hasUsers(): Promise<boolean>;
+}
+
+// Lets one terminal at a time migrate a shared backend. Only the holder of the
+// lock may move the shared schema version on.
+export interface MigrationLock {
+  // Resolves true if `holder` now holds the lock. A lock that is never
+  // released (its terminal closed part way) can be claimed once it expires.
+  claim(holder: string): Promise<boolean>;
+  // Records a finished step and extends the lock; refused unless `holder` still holds it
+  setSchemaVersion(holder: string, version: number): Promise<void>;
+  release(holder: string): Promise<void>;
+}
+
+export type DocumentSeries = 'PO' | 'SALE' | 'CNT';
+
+// Numbers documents on a shared backend, which hands each number out once so
+// terminals creating documents at the same time never get the same one
+export interface DocumentNumbers {
+  next(series: DocumentSeries): Promise<number>;
+}
+
+export type StorageBackend = 'localStorage' | 'indexedDB' | 'supabase';
+
+// Where Stockpile's data is kept. Services go through this rather than
+// touching a particular browser API, so the backend can be swapped.
+export interface StorageAdapter extends RecordCollections {
+  backend: StorageBackend;
+  products: ProductCollection;
+  users: StorageCollection<StoredUser>;
+  // Only shared backends keep settings and accounts; the others leave settings
+  // in localStorage and passwords are checked against the users collection
+  settings?: SettingsStore;
+  accounts?: AccountStore;
+  migrationLock?: MigrationLock;
+  documentNumbers?: DocumentNumbers;
+}
+
+// The keys localStorage.ts has always stored these collections under
+const LOCAL_KEYS = {
+  PRODUCTS: 'stockpile_products',
+  USERS: 'stockpile_users',
+  SUPPLIERS: 'stockpile_suppliers',
+  STOCK_MOVEMENTS: 'stockpile_stock_movements',
+  PURCHASE_ORDERS: 'stockpile_purchase_orders',
+  SALES: 'stockpile_sales',
+  STOCK_COUNTS: 'stockpile_stock_counts',
+  STOCK_ADJUSTMENTS: 'stockpile_stock_adjustments',
+  AUDIT_LOG: 'stockpile_audit_log',
+};
+
+// Which backend currently holds the data; unset until the first migration
+const BACKEND_KEY = 'stockpile_storage_backend';
+
+// Where authService keeps the signed-in session
+const SESSION_KEY = 'stockpile_session';
+
+// A collection kept as one JSON array under a single localStorage key
+const localCollection = <T extends { id: string }>(key: string): StorageCollection<T> => {
+  const read = (): T[] => JSON.parse(localStorage.getItem(key) || '[]');
+  const write = (records: T[]) => localStorage.setItem(key, JSON.stringify(records));
+
+  return {
+    getAll: async () => read(),
+
+    getById: async (id) => read().find(r => r.id === id) || null,
+
+    put: async (record) => {
+      const records = read();
+      const index = records.findIndex(r => r.id === record.id);
+      if (index === -1) {
+        records.push(record);
+      } else {
+        records[index] = record;
+      }
+      write(records);
+    },
+
+    putMany: async (incoming) => {
+      const byId = new Map(read().map(r => [r.id, r]));
+      incoming.forEach(r => byId.set(r.id, r));
+      write(Array.from(byId.values()));
+    },
+
+    delete: async (id) => write(read().filter(r => r.id !== id)),
+
+    clear: async () => localStorage.removeItem(key),
+  };
+};
+
+// Nothing is awaited between the version check and the write, so no other
+// write in this tab can land in between
+const localVersionedCollection = <T extends { id: string; version: number }>(key: string): VersionedCollection<T> => ({
+  ...localCollection<T>(key),
+  putIfVersion: async (record, expectedVersion) => {
+    const records: T[] = JSON.parse(localStorage.getItem(key) || '[]');
+    const index = records.findIndex(r => r.id === record.id);
+    if (index === -1 || records[index].version !== expectedVersion) return false;
+
+    records[index] = record;
+    localStorage.setItem(key, JSON.stringify(records));
+    return true;
+  },
+});
+
+const localProducts = localVersionedCollection<Product>(LOCAL_KEYS.PRODUCTS);
+
+// The browser backends keep these in localStorage, as they always have
+const localRecords: RecordCollections = {
+  suppliers: localCollection(LOCAL_KEYS.SUPPLIERS),
+  stock_movements: localCollection(LOCAL_KEYS.STOCK_MOVEMENTS),
+  purchase_orders: localVersionedCollection(LOCAL_KEYS.PURCHASE_ORDERS),
+  sales: localCollection(LOCAL_KEYS.SALES),
+  stock_counts: localVersionedCollection(LOCAL_KEYS.STOCK_COUNTS),
+  stock_adjustments: localVersionedCollection(LOCAL_KEYS.STOCK_ADJUSTMENTS),
+  audit_log: localCollection(LOCAL_KEYS.AUDIT_LOG),
+};
+
+export const localStorageAdapter: StorageAdapter = {
+  ...localRecords,
+  backend: 'localStorage',
+  products: {
+    ...localProducts,
+    findBy: async (index, value) => (await localProducts.getAll()).filter(p => p[index] === value),
+  },
+  users: localCollection<StoredUser>(LOCAL_KEYS.USERS),
+};
+
+// Copies every product and user from one backend to another, then clears the
+// source. The source is only cleared once the copy has fully succeeded.
+export const migrateStorage = async (from: StorageAdapter, to: StorageAdapter): Promise<void> => {
+  const [products, users] = await Promise.all([from.products.getAll(), from.users.getAll()]);
+  await to.products.putMany(products);
+  await to.users.putMany(users);
+  localStorage.setItem(BACKEND_KEY, to.backend);
+
+  await Promise.all([from.products.clear(), from.users.clear()]);
+};
+
+const openStorage = async (): Promise<StorageAdapter> => {
+  // Terminals sharing one inventory are built with VITE_STORAGE_BACKEND=supabase.
+  // Their browser copies are left alone rather than merged into the shared data.
+  if (import.meta.env.VITE_STORAGE_BACKEND === 'supabase') {
+    return createSupabaseAdapter(() => JSON.parse(localStorage.getItem(SESSION_KEY) || 'null')?.token);
+  }
+
+  const backend = localStorage.getItem(BACKEND_KEY) as StorageBackend | null;
+  if (typeof indexedDB === 'undefined') {
+    if (backend === 'indexedDB') throw new Error('This browser no longer provides IndexedDB, where your data is stored');
+    return localStorageAdapter;
+  }
+
+  try {
+    const indexedDBAdapter = await openIndexedDBAdapter(localRecords);
+    // One-time move of data written before IndexedDB was available
+    if (backend !== 'indexedDB') {
+      await migrateStorage(localStorageAdapter, indexedDBAdapter);
+    }
+    return indexedDBAdapter;
+  } catch (error) {
+    if (backend === 'indexedDB') throw error;
+
+    // Private browsing modes can refuse IndexedDB; keep working from
+    // localStorage and try again on the next load
+    console.error('IndexedDB unavailable, using localStorage:', error);
+    return localStorageAdapter;
+  }
+};
+
+let storage: Promise<StorageAdapter> | null = null;
+
+// The active adapter. The backend is chosen (and migrated to) on first use.
+export const getStorage = (): Promise<StorageAdapter> => {
+  if (!storage) storage = openStorage();
+  return storage;
+};
+
+// Every record collection's contents
+export const readRecords = async (storage: StorageAdapter): Promise<StoredRecords> =>
+  Object.fromEntries(await Promise.all(
+    RECORD_COLLECTIONS.map(async collection => [collection, await storage[collection].getAll()])
+  )) as StoredRecords;
+
+const SCHEMA_VERSION_KEY = 'stockpile_schema_version';
+
+// Settings are read synchronously from localStorage. With a shared backend
+// that is a cache of the backend's settings: filled when the app loads and
+// written through on every change.
+export const loadSharedSettings = async (keys: string[]): Promise<void> => {
+  const { settings } = await getStorage();
+  if (!settings) return;
+
+  const shared = await settings.getAll();
+  [SCHEMA_VERSION_KEY, ...keys].forEach(key => {
+    if (shared[key] !== undefined) {
+      localStorage.setItem(key, shared[key]);
+    } else {
+      localStorage.removeItem(key);
+    }
+  });
+};
+
+// Stores a setting's JSON, or removes it when null
+export const saveSetting = async (key: string, value: string | null): Promise<void> => {
+  if (value !== null) {
+    localStorage.setItem(key, value);
+  } else {
+    localStorage.removeItem(key);
+  }
+  await (await getStorage()).settings?.put(key, value);
+};
+
+export const getSchemaVersion = () => Number(localStorage.getItem(SCHEMA_VERSION_KEY) || 0);
+
+// On shared backends a migration moves the version on as the holder of the
+// migration lock (see runMigrations)
+export const setSchemaVersion = async (version: number, lockHolder?: string): Promise<void> => {
+  const { migrationLock } = await getStorage();
+  if (!migrationLock || lockHolder === undefined) return saveSetting(SCHEMA_VERSION_KEY, String(version));
+
+  await migrationLock.setSchemaVersion(lockHolder, version);
+  localStorage.setItem(SCHEMA_VERSION_KEY, String(version));
+};
+
+// Re-reads the schema version from a shared backend, e.g. after another
+// terminal has migrated it
+export const refreshSchemaVersion = () => loadSharedSettings([]);
+
+// Everything Stockpile keeps: the raw localStorage entries plus whatever the
+// active backend holds
+export interface DataSnapshot {
+  schema_version: number;
+  created_at: string;
+  local: Record<string, string>;
+  products: Product[];
+  // Empty for shared backends, which keep accounts to themselves
+  users: StoredUser[];
+  records: StoredRecords;
+  // Shared settings, for backends that keep them
+  settings: Record<string, string>;
+}
+
+// Keys in `exclude` (e.g. where a snapshot itself is kept) are left out
+const stockpileKeys = (exclude: string[]) =>
+  Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i) || '')
+    .filter(key => key.startsWith('stockpile_') && !exclude.includes(key));
+
+export const takeSnapshot = async (exclude: string[] = []): Promise<DataSnapshot> => {
+  const storage = await getStorage();
+  const [products, users, settings] = await Promise.all([
+    storage.products.getAll(),
+    storage.accounts ? [] : storage.users.getAll(),
+    storage.settings?.getAll() ?? {},
+  ]);
+  const records = await readRecords(storage);
+
+  return {
+    schema_version: getSchemaVersion(),
+    created_at: new Date().toISOString(),
+    local: Object.fromEntries(stockpileKeys(exclude).map(key => [key, localStorage.getItem(key) || ''])),
+    products,
+    users,
+    records,
+    settings,
+  };
+};
+
+// Puts a record collection back to exactly the given records
+const replaceRecords = async <K extends RecordCollection>(
+  storage: StorageAdapter,
+  collection: K,
+  records: StoredRecords[K]
+) => {
+  const target = storage[collection] as StorageCollection<StoredRecords[K][number]>;
+  await target.clear();
+  await target.putMany(records);
+};
+
+// Puts everything back exactly as it was in the snapshot
+export const restoreSnapshot = async (snapshot: DataSnapshot, exclude: string[] = []): Promise<void> => {
+  stockpileKeys(exclude).forEach(key => localStorage.removeItem(key));
+  Object.entries(snapshot.local).forEach(([key, value]) => localStorage.setItem(key, value));
+
+  const storage = await getStorage();
+  await storage.products.clear();
+  await storage.products.putMany(snapshot.products);
+  // Shared accounts are only changed by admins, never by migrations
+  if (!storage.accounts) {
+    await storage.users.clear();
+    await storage.users.putMany(snapshot.users);
+  }
+  for (const collection of RECORD_COLLECTIONS) {
+    await replaceRecords(storage, collection, snapshot.records[collection]);
+  }
+
+  // Only settings that differ are written, since a shared backend lets each
+  // one be changed only by users allowed to change it
+  if (storage.settings) {
+    const current = await storage.settings.getAll();
+    const keys = new Set([...Object.keys(current), ...Object.keys(snapshot.settings)]);
+    for (const key of keys) {
+      if (current[key] !== snapshot.settings[key]) await storage.settings.put(key, snapshot.settings[key] ?? null);
+    }
+  }
+};
@@ -0,0 +1,293 @@
+// src/lib/supabaseStorage.ts
+import { createClient, PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { AuditEntry, Product, PurchaseOrder, StockAdjustment, StockCount, StockMovement, UserAccount } from '../App';
+import {
+  AccountStore,
+  DocumentNumbers,
+  MigrationLock,
+  RECORD_COLLECTIONS,
+  RecordCollections,
+  SettingsStore,
+  StorageAdapter,
+  StorageCollection,
+  StoredUser,
+  VersionedCollection
+} from './storage';
+
+// Tables are created by supabase/migrations. Each record collection has a
+// table of the same name. The users table is only reached through functions.
+const TABLES = {
+  PRODUCTS: 'products',
+  USERS: 'users',
+  SETTINGS: 'settings',
+};
+
+// Columns match the record fields one to one. Every column is written on each
+// upsert, so a field that was cleared is cleared on the server too; the legacy
+// plaintext password has no column and is never sent.
+const COLUMNS: Record<string, string[]> = {
+  products: [
+    'id', 'name', 'description', 'category', 'brand', 'sku', 'barcode', 'current_stock', 'min_stock_level',
+    'max_stock_level', 'cost_price', 'selling_price', 'supplier_id', 'location', 'stock_locations', 'version',
+    'created_at', 'updated_at',
+  ],
+  users: ['id', 'email', 'role', 'password_hash', 'disabled', 'created_at', 'updated_at'],
+  suppliers: [
+    'id', 'name', 'contact_name', 'email', 'phone', 'address', 'lead_time_days', 'minimum_order_value',
+    'payment_terms', 'created_at', 'updated_at',
+  ],
+  stock_movements: ['id', 'product_id', 'type', 'quantity', 'user_id', 'reason', 'reason_code', 'location', 'created_at'],
+  purchase_orders: [
+    'id', 'po_number', 'supplier_id', 'status', 'lines', 'version', 'created_by', 'created_at', 'updated_at',
+    'sent_at', 'received_at',
+  ],
+  sales: ['id', 'sale_number', 'lines', 'revenue', 'cost_of_goods', 'user_id', 'created_at'],
+  stock_counts: [
+    'id', 'count_number', 'scope', 'blind', 'status', 'lines', 'version', 'created_by', 'created_at', 'updated_at',
+    'submitted_at', 'approved_by', 'approved_at',
+  ],
+  stock_adjustments: [
+    'id', 'product_id', 'quantity', 'reason_code', 'note', 'location', 'value', 'status', 'requested_by',
+    'reviewed_by', 'reviewed_at', 'movement_id', 'version', 'created_at', 'updated_at',
+  ],
+  audit_log: [
+    'id', 'user_id', 'user_email', 'action', 'entity_type', 'entity_id', 'entity_label', 'product_id', 'changes',
+    'created_at',
+  ],
+};
+
+const toRow = (table: string) => (record: object): Record<string, unknown> =>
+  Object.fromEntries(COLUMNS[table].map(column => [column, (record as Record<string, unknown>)[column] ?? null]));
+
+// supabase-js always calls {url}/rest/v1/{table}. A bare PostgREST server
+// serves tables at its root, so requests are rewritten to VITE_SUPABASE_REST_URL
+// when it is set.
+const restFetch = (supabaseUrl: string, restUrl: string): typeof fetch => {
+  const prefix = `${supabaseUrl.replace(/\/$/, '')}/rest/v1`;
+  const target = restUrl.replace(/\/$/, '');
+
+  return (input, init) => {
+    const url = input instanceof Request ? input.url : String(input);
+    return fetch(url.startsWith(prefix) ? target + url.slice(prefix.length) : input, init);
+  };
+};
+
+const createSupabaseClient = (): SupabaseClient => {
+  const restUrl = import.meta.env.VITE_SUPABASE_REST_URL;
+  const url = import.meta.env.VITE_SUPABASE_URL || restUrl;
+  const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+  if (!url || !anonKey) {
+    throw new Error('Set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY to use Supabase storage');
+  }
+
+  // Stockpile signs users in through its own functions, so Supabase Auth
+  // sessions are not used
+  return createClient(url, anonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: restUrl ? { fetch: restFetch(url, restUrl) } : undefined,
+  });
+};
+
+const check = (table: string, error: PostgrestError | null) => {
+  if (error) throw new Error(`Supabase request on ${table} failed: ${error.message}`);
+};
+
+// Optional fields come back from Postgres as null rather than missing
+const withoutNulls = <T>(row: Record<string, unknown>): T =>
+  Object.fromEntries(Object.entries(row).filter(([, value]) => value !== null)) as T;
+
+const collection = <T extends { id: string }>(client: SupabaseClient, table: string): StorageCollection<T> => ({
+  getAll: async () => {
+    const { data, error } = await client.from(table).select('*').order('created_at');
+    check(table, error);
+    return (data || []).map(row => withoutNulls<T>(row));
+  },
+
+  getById: async (id) => {
+    const { data, error } = await client.from(table).select('*').eq('id', id).maybeSingle();
+    check(table, error);
+    return data ? withoutNulls<T>(data) : null;
+  },
+
+  put: async (record) => {
+    const { error } = await client.from(table).upsert(toRow(table)(record));
+    check(table, error);
+  },
+
+  putMany: async (records) => {
+    if (records.length === 0) return;
+    const { error } = await client.from(table).upsert(records.map(toRow(table)));
+    check(table, error);
+  },
+
+  delete: async (id) => {
+    const { error } = await client.from(table).delete().eq('id', id);
+    check(table, error);
+  },
+
+  // PostgREST refuses unfiltered deletes, so match every row explicitly
+  clear: async () => {
+    const { error } = await client.from(table).delete().neq('id', '');
+    check(table, error);
+  },
+});
+
+const versionedCollection = <T extends { id: string; version: number }>(
+  client: SupabaseClient,
+  table: string
+): VersionedCollection<T> => ({
+  ...collection<T>(client, table),
+  // The version filter makes Postgres do the check and the write in one statement
+  putIfVersion: async (record, expectedVersion) => {
+    const { data, error } = await client
+      .from(table)
+      .update(toRow(table)(record))
+      .eq('id', record.id)
+      .eq('version', expectedVersion)
+      .select('id');
+    check(table, error);
+    return (data || []).length > 0;
+  },
+});
+
+const callFunction = async <T>(client: SupabaseClient, fn: string, args: object): Promise<T> => {
+  const { data, error } = await client.rpc(fn, args);
+  check(fn, error);
+  return data as T;
+};
+
+// The stock ledger and the audit log only take new rows. A record that is
+// already there is left as it is, and emptying one needs data.backup.
+const appendOnlyCollection = <T extends { id: string }>(
+  client: SupabaseClient,
+  table: string,
+  getToken: () => string | undefined
+): StorageCollection<T> => ({
+  ...collection<T>(client, table),
+
+  put: async (record) => {
+    const { error } = await client.from(table).upsert(toRow(table)(record), { ignoreDuplicates: true });
+    check(table, error);
+  },
+
+  putMany: async (records) => {
+    if (records.length === 0) return;
+    const { error } = await client.from(table).upsert(records.map(toRow(table)), { ignoreDuplicates: true });
+    check(table, error);
+  },
+
+  delete: async () => {
+    throw new Error(`Records in ${table} can't be removed`);
+  },
+
+  clear: () => callFunction<void>(client, 'stockpile_clear_records', { p_token: getToken() ?? null, p_table: table }),
+});
+
+// Accounts come back without their password hash, which is left empty.
+// Writing one with an empty hash keeps the stored hash.
+const userCollection = (client: SupabaseClient, getToken: () => string | undefined): StorageCollection<StoredUser> => {
+  const getAll = async (): Promise<StoredUser[]> => {
+    const accounts = await callFunction<UserAccount[]>(client, 'stockpile_list_users', { p_token: getToken() ?? null });
+    return accounts.map(account => ({ ...account, password_hash: '' }));
+  };
+
+  const putMany = async (users: StoredUser[]) => {
+    if (users.length === 0) return;
+    await callFunction(client, 'stockpile_put_users', {
+      p_token: getToken() ?? null,
+      p_users: users.map(toRow(TABLES.USERS)),
+    });
+  };
+
+  const remove = (id: string) =>
+    callFunction<void>(client, 'stockpile_delete_user', { p_token: getToken() ?? null, p_id: id });
+
+  return {
+    getAll,
+    getById: async (id) => (await getAll()).find(u => u.id === id) || null,
+    put: (user) => putMany([user]),
+    putMany,
+    delete: remove,
+    clear: async () => {
+      for (const user of await getAll()) await remove(user.id);
+    },
+  };
+};
+
+const accountStore = (client: SupabaseClient): AccountStore => ({
+  signIn: async (email, password) => {
+    const result = await callFunction<{ account: UserAccount; token: string | null } | null>(
+      client,
+      'stockpile_sign_in',
+      { p_email: email, p_password: password }
+    );
+    return result ? { account: result.account, token: result.token ?? undefined } : null;
+  },
+
+  signOut: (token) => callFunction<void>(client, 'stockpile_sign_out', { p_token: token }),
+
+  hasUsers: () => callFunction<boolean>(client, 'stockpile_has_users', {}),
+});
+
+const migrationLock = (client: SupabaseClient): MigrationLock => ({
+  claim: (holder) => callFunction<boolean>(client, 'stockpile_claim_migration', { p_holder: holder }),
+
+  setSchemaVersion: (holder, version) =>
+    callFunction<void>(client, 'stockpile_set_schema_version', { p_holder: holder, p_version: version }),
+
+  release: (holder) => callFunction<void>(client, 'stockpile_release_migration', { p_holder: holder }),
+});
+
+const documentNumbers = (client: SupabaseClient): DocumentNumbers => ({
+  next: (series) => callFunction<number>(client, 'stockpile_next_document_number', { p_series: series }),
+});
+
+// Values are kept as jsonb and handed back as the JSON text localStorage holds.
+// Changes go through a function that checks the signed-in user may make them.
+const settingsStore = (client: SupabaseClient, getToken: () => string | undefined): SettingsStore => ({
+  getAll: async () => {
+    const { data, error } = await client.from(TABLES.SETTINGS).select('key, value');
+    check(TABLES.SETTINGS, error);
+    return Object.fromEntries((data || []).map(row => [row.key, JSON.stringify(row.value)]));
+  },
+
+  put: (key, value) =>
+    callFunction<void>(client, 'stockpile_put_setting', {
+      p_token: getToken() ?? null,
+      p_key: key,
+      p_value: value === null ? null : JSON.parse(value),
+    }),
+});
+
+// Shared storage for several terminals. Every call goes to the server, so
+// each terminal sees the others' changes on its next read. getToken returns
+// the signed-in session's token, which the account functions require.
+export const createSupabaseAdapter = (getToken: () => string | undefined): StorageAdapter => {
+  const client = createSupabaseClient();
+  const records = Object.fromEntries(
+    RECORD_COLLECTIONS.map(table => [table, collection(client, table)])
+  ) as unknown as RecordCollections;
+
+  return {
+    ...records,
+    purchase_orders: versionedCollection<PurchaseOrder>(client, 'purchase_orders'),
+    stock_adjustments: versionedCollection<StockAdjustment>(client, 'stock_adjustments'),
+    stock_counts: versionedCollection<StockCount>(client, 'stock_counts'),
+    stock_movements: appendOnlyCollection<StockMovement>(client, 'stock_movements', getToken),
+    audit_log: appendOnlyCollection<AuditEntry>(client, 'audit_log', getToken),
+    backend: 'supabase',
+    products: {
+      ...versionedCollection<Product>(client, TABLES.PRODUCTS),
+      findBy: async (index, value) => {
+        const { data, error } = await client.from(TABLES.PRODUCTS).select('*').eq(index, value);
+        check(TABLES.PRODUCTS, error);
+        return (data || []).map(row => withoutNulls<Product>(row));
+      },
+    },
+    users: userCollection(client, getToken),
+    settings: settingsStore(client, getToken),
+    accounts: accountStore(client),
+    migrationLock: migrationLock(client),
+    documentNumbers: documentNumbers(client),
+  };
+};
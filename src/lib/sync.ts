@@ -0,0 +1,45 @@
+// src/lib/sync.ts
+import { AuditEntityType } from '../App';
+
+// Messages between open Stockpile tabs. A tab never receives its own messages.
+export type SyncMessage =
+  | { type: 'changed'; entity: AuditEntityType }
+  | { type: 'signed_out' };
+
+type SyncListener = (message: SyncMessage) => void;
+
+const CHANNEL_NAME = 'stockpile';
+// Used instead of BroadcastChannel where it isn't available; writing the key
+// fires a `storage` event in every other tab
+const FALLBACK_KEY = 'stockpile_sync';
+
+const listeners = new Set<SyncListener>();
+
+const deliver = (message: SyncMessage) => listeners.forEach(listener => listener(message));
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+if (channel) {
+  channel.onmessage = (event: MessageEvent<SyncMessage>) => deliver(event.data);
+} else if (typeof window !== 'undefined') {
+  window.addEventListener('storage', event => {
+    if (event.key === FALLBACK_KEY && event.newValue) deliver(JSON.parse(event.newValue).message);
+  });
+}
+
+export const broadcast = (message: SyncMessage) => {
+  if (channel) {
+    channel.postMessage(message);
+  } else if (typeof window !== 'undefined') {
+    // The timestamp makes repeated messages distinct so each one fires an event
+    localStorage.setItem(FALLBACK_KEY, JSON.stringify({ message, sent_at: Date.now() }));
+  }
+};
+
+// Returns the unsubscribe function
+export const subscribe = (listener: SyncListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,110 @@
+// src/lib/validation.ts
+import { Product } from '../App';
+
+// The fields of a product that are entered rather than maintained by the app
+export type ProductDraft = Omit<Product, 'id' | 'stock_locations' | 'version' | 'created_at' | 'updated_at'>;
+
+export type ProductFieldErrors = Partial<Record<keyof ProductDraft, string>>;
+
+export interface ProductValidation {
+  // Any error stops the product being saved
+  errors: ProductFieldErrors;
+  // Worth a second look, but saved anyway
+  warnings: ProductFieldErrors;
+}
+
+// Thrown by productService when a create or update breaks a rule
+export class ValidationError extends Error {
+  errors: ProductFieldErrors;
+
+  constructor(errors: ProductFieldErrors) {
+    super(Object.values(errors).join('; '));
+    this.name = 'ValidationError';
+    this.errors = errors;
+  }
+}
+
+export const hasFieldErrors = (errors: ProductFieldErrors) => Object.keys(errors).length > 0;
+
+// GS1 barcodes validated by their check digit, by length
+const GTIN_FORMATS: Record<number, string> = {
+  8: 'EAN-8',
+  12: 'UPC-A',
+  13: 'EAN-13',
+  14: 'GTIN-14',
+};
+
+// The check digit that makes a GS1 code valid, given the digits before it.
+// Weights alternate 3, 1, 3... starting from the rightmost data digit.
+export const gtinCheckDigit = (data: string) => {
+  const sum = data
+    .split('')
+    .reverse()
+    .reduce((total, digit, i) => total + Number(digit) * (i % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+// Name of the UPC/EAN format a barcode is in, or null for other codes (such as
+// in-house labels), which have no check digit to verify
+export const gtinFormat = (barcode: string) =>
+  /^\d+$/.test(barcode) ? GTIN_FORMATS[barcode.length] || null : null;
+
+export const isValidGtin = (barcode: string) =>
+  gtinFormat(barcode) !== null && gtinCheckDigit(barcode.slice(0, -1)) === Number(barcode.slice(-1));
+
+const isWholeNumber = (value: number) => Number.isInteger(value) && value >= 0;
+
+// Checks a new or edited product. `others` is the rest of the catalog, used
+// to keep SKUs (ignoring case) and barcodes unique.
+export const validateProduct = (product: ProductDraft, others: Product[] = []): ProductValidation => {
+  const errors: ProductFieldErrors = {};
+  const warnings: ProductFieldErrors = {};
+
+  if (!product.name.trim()) errors.name = 'Product name is required';
+  if (!product.category) errors.category = 'Category is required';
+  if (!product.location.trim()) errors.location = 'Location is required';
+
+  const sku = product.sku.trim();
+  const skuOwner = others.find(p => p.sku.toLowerCase() === sku.toLowerCase());
+  if (!sku) {
+    errors.sku = 'SKU is required';
+  } else if (skuOwner) {
+    errors.sku = `SKU ${sku} is already used by ${skuOwner.name}`;
+  }
+
+  const barcode = product.barcode?.trim();
+  if (barcode) {
+    const format = gtinFormat(barcode);
+    const barcodeOwner = others.find(p => p.barcode === barcode);
+    if (format && !isValidGtin(barcode)) {
+      errors.barcode = `Not a valid ${format} barcode: the last digit should be ${gtinCheckDigit(barcode.slice(0, -1))}`;
+    } else if (barcodeOwner) {
+      errors.barcode = `Barcode is already used by ${barcodeOwner.name} (${barcodeOwner.sku})`;
+    }
+  }
+
+  if (!isWholeNumber(product.current_stock)) {
+    errors.current_stock = 'Current stock must be a whole number of 0 or more';
+  }
+  if (!isWholeNumber(product.min_stock_level)) {
+    errors.min_stock_level = 'Minimum stock level must be a whole number of 0 or more';
+  }
+  if (!isWholeNumber(product.max_stock_level)) {
+    errors.max_stock_level = 'Maximum stock level must be a whole number of 0 or more';
+  } else if (product.max_stock_level > 0 && product.max_stock_level < product.min_stock_level) {
+    errors.max_stock_level = 'Maximum stock level cannot be below the minimum';
+  } else if (product.max_stock_level > 0 && product.current_stock > product.max_stock_level) {
+    warnings.max_stock_level = 'Current stock is above the maximum level';
+  }
+
+  if (!Number.isFinite(product.cost_price) || product.cost_price < 0) {
+    errors.cost_price = 'Cost price must be 0 or more';
+  }
+  if (!Number.isFinite(product.selling_price) || product.selling_price < 0) {
+    errors.selling_price = 'Selling price must be 0 or more';
+  } else if (!errors.cost_price && product.selling_price < product.cost_price) {
+    warnings.selling_price = `Negative margin: sells for $${(product.cost_price - product.selling_price).toFixed(2)} less than it costs`;
+  }
+
+  return { errors, warnings };
+};
@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // 'supabase' to share data between terminals; anything else keeps it in the browser
+  readonly VITE_STORAGE_BACKEND?: string;
+  readonly VITE_SUPABASE_URL?: string;
+  readonly VITE_SUPABASE_ANON_KEY?: string;
+  // Only for a bare PostgREST server without the Supabase gateway
+  readonly VITE_SUPABASE_REST_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
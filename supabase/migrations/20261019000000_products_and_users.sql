@@ -0,0 +1,44 @@
+-- Shared storage for Stockpile terminals. Columns mirror the Product and
+-- StoredUser types in src/App.tsx and src/lib/storage.ts.
+
+create table if not exists public.products (
+  id text primary key,
+  name text not null,
+  description text not null default '',
+  category text not null default '',
+  brand text not null default '',
+  sku text not null,
+  barcode text,
+  current_stock integer not null default 0,
+  min_stock_level integer not null default 0,
+  max_stock_level integer not null default 0,
+  cost_price numeric(12, 2) not null default 0,
+  selling_price numeric(12, 2) not null default 0,
+  supplier_id text not null default '',
+  location text not null default '',
+  -- [{ "location": "A1-B2", "quantity": 4, "min_stock_level": 2 }, ...]
+  stock_locations jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Same lookups the IndexedDB backend indexes
+create index if not exists products_sku_idx on public.products (sku);
+create index if not exists products_barcode_idx on public.products (barcode);
+create index if not exists products_category_idx on public.products (category);
+
+create table if not exists public.users (
+  id text primary key,
+  email text not null unique,
+  role text not null check (role in ('admin', 'manager', 'receiver', 'associate')),
+  -- pbkdf2-sha512$<iterations>$<salt>$<hash>, see src/lib/password.ts
+  password_hash text not null,
+  disabled boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Terminals talk to the database with the anon key and sign users in against
+-- the users table themselves, so the anon role needs full access to both
+-- tables. Keep the anon key on store devices only.
+grant select, insert, update, delete on public.products, public.users to anon;
@@ -0,0 +1,4 @@
+-- Products carry a version that every write bumps. Terminals only write a
+-- product if it is still at the version they read, so concurrent edits are
+-- detected instead of silently overwriting each other.
+alter table public.products add column if not exists version integer not null default 1;
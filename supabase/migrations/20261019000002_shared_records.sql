@@ -0,0 +1,122 @@
+-- Everything else Stockpile keeps, so terminals sharing products and users
+-- also share suppliers, the stock ledger, orders, sales, counts, adjustments,
+-- the audit log, the admin-edited settings and the schema version. Columns
+-- mirror the types in src/App.tsx; nested lists are kept as jsonb.
+
+create table if not exists public.suppliers (
+  id text primary key,
+  name text not null,
+  contact_name text not null default '',
+  email text not null default '',
+  phone text not null default '',
+  address text not null default '',
+  lead_time_days integer not null default 0,
+  minimum_order_value numeric(12, 2) not null default 0,
+  payment_terms text not null default '',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Append-only; current_stock on each product is the sum of its movements
+create table if not exists public.stock_movements (
+  id text primary key,
+  product_id text not null,
+  type text not null check (type in ('receipt', 'sale', 'adjustment', 'transfer', 'count_correction')),
+  quantity integer not null,
+  user_id text not null,
+  reason text not null default '',
+  reason_code text,
+  location text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists stock_movements_product_id_idx on public.stock_movements (product_id);
+
+create table if not exists public.purchase_orders (
+  id text primary key,
+  po_number text not null,
+  supplier_id text not null,
+  status text not null check (status in ('draft', 'sent', 'partially_received', 'received', 'cancelled')),
+  -- [{ "product_id": "1", "quantity_ordered": 10, "quantity_received": 0, "cost_price": 12.5 }, ...]
+  lines jsonb not null default '[]'::jsonb,
+  created_by text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  sent_at timestamptz,
+  received_at timestamptz
+);
+
+create table if not exists public.sales (
+  id text primary key,
+  sale_number text not null,
+  lines jsonb not null default '[]'::jsonb,
+  revenue numeric not null default 0,
+  cost_of_goods numeric not null default 0,
+  user_id text not null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.stock_counts (
+  id text primary key,
+  count_number text not null,
+  scope jsonb not null,
+  blind boolean not null default false,
+  status text not null check (status in ('open', 'submitted', 'approved', 'cancelled')),
+  lines jsonb not null default '[]'::jsonb,
+  created_by text not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  submitted_at timestamptz,
+  approved_by text,
+  approved_at timestamptz
+);
+
+create table if not exists public.stock_adjustments (
+  id text primary key,
+  product_id text not null,
+  quantity integer not null,
+  reason_code text not null,
+  note text not null default '',
+  location text,
+  value numeric not null default 0,
+  status text not null check (status in ('pending', 'approved', 'rejected')),
+  requested_by text not null,
+  reviewed_by text,
+  reviewed_at timestamptz,
+  movement_id text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.audit_log (
+  id text primary key,
+  user_id text not null,
+  user_email text not null,
+  action text not null check (action in ('create', 'update', 'delete')),
+  entity_type text not null,
+  entity_id text not null,
+  entity_label text not null default '',
+  product_id text,
+  changes jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_product_id_idx on public.audit_log (product_id);
+
+-- Role permissions, session timeouts, adjustment reasons, reorder parameters
+-- and the schema version, keyed by the localStorage key each is cached under
+create table if not exists public.settings (
+  key text primary key,
+  value jsonb not null
+);
+
+grant select, insert, update, delete on
+  public.suppliers,
+  public.stock_movements,
+  public.purchase_orders,
+  public.sales,
+  public.stock_counts,
+  public.stock_adjustments,
+  public.audit_log,
+  public.settings
+to anon;
@@ -0,0 +1,230 @@
+-- Terminals no longer read the users table. Passwords are checked here, and
+-- accounts are listed and changed only through the functions below, which
+-- never return password hashes. Signing in hands out a session token that
+-- the account functions require; only admins may change accounts.
+
+create schema if not exists extensions;
+create extension if not exists pgcrypto with schema extensions;
+
+revoke all on public.users from anon;
+alter table public.users enable row level security;
+
+-- Store data stays open to terminals holding the anon key, now through
+-- explicit policies
+alter table public.products enable row level security;
+alter table public.suppliers enable row level security;
+alter table public.stock_movements enable row level security;
+alter table public.purchase_orders enable row level security;
+alter table public.sales enable row level security;
+alter table public.stock_counts enable row level security;
+alter table public.stock_adjustments enable row level security;
+alter table public.audit_log enable row level security;
+alter table public.settings enable row level security;
+
+create policy terminals_all on public.products for all to anon using (true) with check (true);
+create policy terminals_all on public.suppliers for all to anon using (true) with check (true);
+create policy terminals_all on public.stock_movements for all to anon using (true) with check (true);
+create policy terminals_all on public.purchase_orders for all to anon using (true) with check (true);
+create policy terminals_all on public.sales for all to anon using (true) with check (true);
+create policy terminals_all on public.stock_counts for all to anon using (true) with check (true);
+create policy terminals_all on public.stock_adjustments for all to anon using (true) with check (true);
+create policy terminals_all on public.audit_log for all to anon using (true) with check (true);
+create policy terminals_all on public.settings for all to anon using (true) with check (true);
+
+create table if not exists public.user_sessions (
+  token text primary key,
+  user_id text not null references public.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  -- The longest session any role allows; the app signs out sooner by its own policy
+  expires_at timestamptz not null default now() + interval '12 hours'
+);
+
+revoke all on public.user_sessions from anon;
+alter table public.user_sessions enable row level security;
+
+-- Checks a password against a hash made by src/lib/password.ts:
+-- pbkdf2-sha512$<iterations>$<salt>$<hash>, a single 512-bit PBKDF2 block
+create or replace function public.stockpile_verify_password(p_password text, p_hash text)
+returns boolean
+language plpgsql
+immutable
+set search_path = public, extensions
+as $$
+declare
+  parts text[] := string_to_array(p_hash, '$');
+  secret bytea := convert_to(p_password, 'UTF8');
+  expected bytea;
+  block bytea;
+  derived bit(512);
+begin
+  if coalesce(array_length(parts, 1), 0) <> 4 or parts[1] <> 'pbkdf2-sha512' or parts[2] !~ '^[1-9][0-9]*$' then
+    return false;
+  end if;
+  expected := decode(parts[4], 'base64');
+  if octet_length(expected) <> 64 then
+    return false;
+  end if;
+
+  block := hmac(decode(parts[3], 'base64') || '\x00000001'::bytea, secret, 'sha512');
+  derived := ('x' || encode(block, 'hex'))::bit(512);
+  for i in 2..parts[2]::integer loop
+    block := hmac(block, secret, 'sha512');
+    derived := derived # ('x' || encode(block, 'hex'))::bit(512);
+  end loop;
+
+  return derived = ('x' || encode(expected, 'hex'))::bit(512);
+end;
+$$;
+
+-- An account as the app sees it, without its password hash
+create or replace function public.stockpile_account(account public.users)
+returns jsonb
+language sql
+immutable
+as $$
+  select to_jsonb(account) - 'password_hash';
+$$;
+
+-- The account behind a live session token, or null
+create or replace function public.stockpile_session_user(p_token text)
+returns public.users
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select u.*
+  from public.user_sessions s
+  join public.users u on u.id = s.user_id
+  where s.token = p_token and s.expires_at > now() and not u.disabled;
+$$;
+
+-- { account, token } for the right password, or null. Disabled accounts
+-- come back without a token.
+create or replace function public.stockpile_sign_in(p_email text, p_password text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public, extensions
+as $$
+declare
+  account public.users;
+  session_token text;
+begin
+  select * into account from public.users where email = lower(trim(p_email));
+  if account.id is null or not stockpile_verify_password(p_password, account.password_hash) then
+    return null;
+  end if;
+
+  delete from public.user_sessions where expires_at <= now();
+  if not account.disabled then
+    session_token := encode(gen_random_bytes(32), 'hex');
+    insert into public.user_sessions (token, user_id) values (session_token, account.id);
+  end if;
+
+  return jsonb_build_object('account', stockpile_account(account), 'token', session_token);
+end;
+$$;
+
+create or replace function public.stockpile_sign_out(p_token text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from public.user_sessions where token = p_token;
+$$;
+
+-- Lets a new store seed its first accounts without anyone signed in
+create or replace function public.stockpile_has_users()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (select 1 from public.users);
+$$;
+
+-- Every account, for anyone signed in; an empty list without a live session
+create or replace function public.stockpile_list_users(p_token text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(jsonb_agg(stockpile_account(u) order by u.created_at), '[]'::jsonb)
+  from public.users u
+  where exists (select 1 from stockpile_session_user(p_token) s where s.id is not null);
+$$;
+
+-- Inserts or replaces accounts. An empty password_hash keeps the stored one,
+-- since accounts are read without theirs; a new account written without one
+-- (e.g. restored from a backup) can't sign in until an admin resets its
+-- password. Admins only, except that the first accounts of an empty store may
+-- be added by anyone.
+create or replace function public.stockpile_put_users(p_token text, p_users jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  acting public.users := stockpile_session_user(p_token);
+begin
+  if acting.role is distinct from 'admin' and exists (select 1 from public.users) then
+    raise exception 'Only an administrator can change user accounts' using errcode = '42501';
+  end if;
+
+  insert into public.users (id, email, role, password_hash, disabled, created_at, updated_at)
+  select
+    u.id,
+    lower(trim(u.email)),
+    u.role,
+    coalesce(nullif(u.password_hash, ''), existing.password_hash, ''),
+    coalesce(u.disabled, false),
+    coalesce(u.created_at, now()),
+    coalesce(u.updated_at, now())
+  from jsonb_to_recordset(p_users) as u(
+    id text, email text, role text, password_hash text, disabled boolean, created_at timestamptz, updated_at timestamptz
+  )
+  left join public.users existing on existing.id = u.id
+  on conflict (id) do update set
+    email = excluded.email,
+    role = excluded.role,
+    password_hash = excluded.password_hash,
+    disabled = excluded.disabled,
+    created_at = excluded.created_at,
+    updated_at = excluded.updated_at;
+end;
+$$;
+
+create or replace function public.stockpile_delete_user(p_token text, p_id text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if (stockpile_session_user(p_token)).role is distinct from 'admin' then
+    raise exception 'Only an administrator can change user accounts' using errcode = '42501';
+  end if;
+  delete from public.users where id = p_id;
+end;
+$$;
+
+revoke execute on function
+  public.stockpile_verify_password(text, text),
+  public.stockpile_account(public.users),
+  public.stockpile_session_user(text)
+from public, anon;
+
+grant execute on function
+  public.stockpile_sign_in(text, text),
+  public.stockpile_sign_out(text),
+  public.stockpile_has_users(),
+  public.stockpile_list_users(text),
+  public.stockpile_put_users(text, jsonb),
+  public.stockpile_delete_user(text, text)
+to anon;
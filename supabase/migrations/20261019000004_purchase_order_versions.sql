@@ -0,0 +1,4 @@
+-- Purchase orders carry a version that every write bumps, like products.
+-- Terminals only write an order if it is still at the version they read, so
+-- two receiving the same delivery can't both book it.
+alter table public.purchase_orders add column if not exists version integer not null default 1;
@@ -0,0 +1,3 @@
+-- Stock adjustments carry a version that every write bumps. Approving one is
+-- a conditional write on that version, so two approvers can't both book it.
+alter table public.stock_adjustments add column if not exists version integer not null default 1;
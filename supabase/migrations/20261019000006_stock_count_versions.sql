@@ -0,0 +1,3 @@
+-- Stock counts carry a version that every write bumps. Approving one is a
+-- conditional write on that version, so its corrections are only posted once.
+alter table public.stock_counts add column if not exists version integer not null default 1;
@@ -0,0 +1,64 @@
+-- Terminals starting a new version of Stockpile migrate the shared data one at
+-- a time. The lock is a settings row claimed with a conditional write; one
+-- left behind by a terminal that closed part way expires after ten minutes.
+-- Terminals migrate before anyone signs in, so these need no session.
+
+create or replace function public.stockpile_claim_migration(p_holder text)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  claimed_by text;
+begin
+  insert into public.settings (key, value)
+  values ('stockpile_migration_lock', jsonb_build_object('holder', p_holder, 'expires_at', now() + interval '10 minutes'))
+  on conflict (key) do update set value = excluded.value
+  where (public.settings.value->>'expires_at')::timestamptz <= now()
+    or public.settings.value->>'holder' = p_holder
+  returning value->>'holder' into claimed_by;
+
+  return coalesce(claimed_by = p_holder, false);
+end;
+$$;
+
+-- Moves the schema version on after a finished step, and extends the lock.
+-- The version never goes backwards.
+create or replace function public.stockpile_set_schema_version(p_holder text, p_version integer)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.settings
+  set value = jsonb_set(value, '{expires_at}', to_jsonb(now() + interval '10 minutes'))
+  where key = 'stockpile_migration_lock'
+    and value->>'holder' = p_holder
+    and (value->>'expires_at')::timestamptz > now();
+  if not found then
+    raise exception 'This terminal no longer holds the migration lock' using errcode = '55P03';
+  end if;
+
+  insert into public.settings (key, value)
+  values ('stockpile_schema_version', to_jsonb(p_version))
+  on conflict (key) do update set value = excluded.value
+  where (public.settings.value #>> '{}')::integer < p_version;
+end;
+$$;
+
+create or replace function public.stockpile_release_migration(p_holder text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  delete from public.settings where key = 'stockpile_migration_lock' and value->>'holder' = p_holder;
+$$;
+
+grant execute on function
+  public.stockpile_claim_migration(text),
+  public.stockpile_set_schema_version(text, integer),
+  public.stockpile_release_migration(text)
+to anon;
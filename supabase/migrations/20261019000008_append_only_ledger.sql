@@ -0,0 +1,97 @@
+-- Terminals can add to the stock ledger and the audit log and read them, but
+-- no longer change or remove their rows; only restoring a backup empties
+-- them, through stockpile_clear_records. Settings are still read directly but
+-- only changed through stockpile_put_setting, by a signed-in user whose role
+-- holds the permission the app asks for before changing that setting.
+
+drop policy terminals_all on public.stock_movements;
+drop policy terminals_all on public.audit_log;
+drop policy terminals_all on public.settings;
+
+revoke update, delete on public.stock_movements, public.audit_log from anon;
+revoke insert, update, delete on public.settings from anon;
+
+create policy terminals_read on public.stock_movements for select to anon using (true);
+create policy terminals_append on public.stock_movements for insert to anon with check (true);
+create policy terminals_read on public.audit_log for select to anon using (true);
+create policy terminals_append on public.audit_log for insert to anon with check (true);
+create policy terminals_read on public.settings for select to anon using (true);
+
+-- Mirrors permissionService.can: admins hold every permission, other roles
+-- what the role permissions setting gives them. Every permission checked
+-- here is admin-only by default (see src/lib/permissions.ts), so a role
+-- missing from the setting holds none of them.
+create or replace function public.stockpile_has_permission(account public.users, p_permission text)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select coalesce(
+    account.role = 'admin'
+      or (select value -> account.role from public.settings where key = 'stockpile_role_permissions') ? p_permission,
+    false
+  );
+$$;
+
+create or replace function public.stockpile_put_setting(p_token text, p_key text, p_value jsonb)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  -- The schema version is only set this way by a backup restore; migrations
+  -- move it on through stockpile_set_schema_version
+  required text := case p_key
+    when 'stockpile_role_permissions' then 'users.manage'
+    when 'stockpile_session_settings' then 'users.manage'
+    when 'stockpile_adjustment_settings' then 'adjustment.approve'
+    when 'stockpile_reorder_settings' then 'reorder.configure'
+    when 'stockpile_schema_version' then 'data.backup'
+  end;
+begin
+  if required is null then
+    raise exception 'The % setting can''t be changed from a terminal', p_key using errcode = '42501';
+  end if;
+  if not stockpile_has_permission(stockpile_session_user(p_token), required) then
+    raise exception 'You don''t have permission to change this setting' using errcode = '42501';
+  end if;
+
+  if p_value is null then
+    delete from public.settings where key = p_key;
+  else
+    insert into public.settings (key, value) values (p_key, p_value)
+    on conflict (key) do update set value = excluded.value;
+  end if;
+end;
+$$;
+
+-- Empties the stock ledger or the audit log before a backup replaces it
+create or replace function public.stockpile_clear_records(p_token text, p_table text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not stockpile_has_permission(stockpile_session_user(p_token), 'data.backup') then
+    raise exception 'You don''t have permission to back up and restore data' using errcode = '42501';
+  end if;
+
+  if p_table = 'stock_movements' then
+    delete from public.stock_movements where true;
+  elsif p_table = 'audit_log' then
+    delete from public.audit_log where true;
+  else
+    raise exception 'Only the stock ledger and the audit log are cleared this way' using errcode = '22023';
+  end if;
+end;
+$$;
+
+revoke execute on function public.stockpile_has_permission(public.users, text) from public, anon;
+
+grant execute on function
+  public.stockpile_put_setting(text, text, jsonb),
+  public.stockpile_clear_records(text, text)
+to anon;
@@ -0,0 +1,44 @@
+-- Purchase order, sale and count numbers are handed out here rather than
+-- worked out by each terminal, so two terminals never give out the same one.
+-- A series carries on from the highest number in use, including any brought
+-- back by restoring a backup.
+
+create table if not exists public.document_counters (
+  series text primary key,
+  last_number integer not null
+);
+
+revoke all on public.document_counters from anon;
+alter table public.document_counters enable row level security;
+
+create or replace function public.stockpile_next_document_number(p_series text)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  highest integer;
+  next_number integer;
+begin
+  highest := case p_series
+    when 'PO' then (select max(substring(po_number from '[0-9]+$')::integer) from public.purchase_orders)
+    when 'SALE' then (select max(substring(sale_number from '[0-9]+$')::integer) from public.sales)
+    when 'CNT' then (select max(substring(count_number from '[0-9]+$')::integer) from public.stock_counts)
+  end;
+  if p_series not in ('PO', 'SALE', 'CNT') then
+    raise exception 'Unknown document series %', p_series using errcode = '22023';
+  end if;
+
+  -- The counter row is locked by the upsert, so concurrent calls take turns
+  insert into public.document_counters (series, last_number)
+  values (p_series, coalesce(highest, 0) + 1)
+  on conflict (series) do update
+  set last_number = greatest(public.document_counters.last_number, coalesce(highest, 0)) + 1
+  returning last_number into next_number;
+
+  return next_number;
+end;
+$$;
+
+grant execute on function public.stockpile_next_document_number(text) to anon;